@@ -0,0 +1,95 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using JainMunis.API.Models.DTOs;
+using JainMunis.API.Services;
+
+namespace JainMunis.API.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class ActivityLogsController : ControllerBase
+{
+    private readonly IActivityLogService _activityLogService;
+
+    public ActivityLogsController(IActivityLogService activityLogService)
+    {
+        _activityLogService = activityLogService;
+    }
+
+    [HttpGet]
+    public async Task<ActionResult<ApiResponse<List<ActivityLogDto>>>> GetActivityLogs(
+        [FromQuery] int page = 1,
+        [FromQuery] int limit = 20,
+        [FromQuery] string? adminUserId = null,
+        [FromQuery] string? entityType = null,
+        [FromQuery] string? action = null,
+        [FromQuery] DateTime? dateFrom = null,
+        [FromQuery] DateTime? dateTo = null)
+    {
+        try
+        {
+            if (page < 1) page = 1;
+            if (limit < 1) limit = 20;
+            if (limit > 100) limit = 100;
+
+            var searchParams = new ActivityLogSearchParams
+            {
+                AdminUserId = adminUserId,
+                EntityType = entityType,
+                Action = action,
+                DateFrom = dateFrom,
+                DateTo = dateTo
+            };
+
+            var (logs, total) = await _activityLogService.GetActivityLogsAsync(page, limit, searchParams);
+
+            var response = new ApiResponse<List<ActivityLogDto>>
+            {
+                Data = logs,
+                Pagination = new PaginationDto
+                {
+                    Page = page,
+                    Limit = limit,
+                    Total = total
+                }
+            };
+
+            return Ok(response);
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "INTERNAL_ERROR",
+                    Message = "An error occurred while fetching activity logs",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpGet("admins")]
+    public async Task<ActionResult<ApiResponse<List<UserDto>>>> GetLoggedAdmins()
+    {
+        try
+        {
+            var admins = await _activityLogService.GetLoggedAdminsAsync();
+            return Ok(new ApiResponse<List<UserDto>> { Data = admins });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "INTERNAL_ERROR",
+                    Message = "An error occurred while fetching admins",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+}
\ No newline at end of file
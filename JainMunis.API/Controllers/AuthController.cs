@@ -3,6 +3,7 @@ using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.EntityFrameworkCore;
 using System.Security.Claims;
+using System.Security.Cryptography;
 using JainMunis.API.Models.DTOs;
 using JainMunis.API.Services;
 
@@ -12,15 +13,23 @@ namespace JainMunis.API.Controllers;
 [Route("api/[controller]")]
 public class AuthController : ControllerBase
 {
+    private const string RefreshTokenCookie = "jm_refresh";
+
     private readonly IAuthService _authService;
     private readonly UserManager<Models.Entities.AdminUser> _userManager;
     private readonly RoleManager<IdentityRole> _roleManager;
+    private readonly IEmailService _emailService;
+    private readonly ITwoFactorService _twoFactorService;
+    private readonly bool _useRefreshTokenCookie;
 
-    public AuthController(IAuthService authService, UserManager<Models.Entities.AdminUser> userManager, RoleManager<IdentityRole> roleManager)
+    public AuthController(IAuthService authService, UserManager<Models.Entities.AdminUser> userManager, RoleManager<IdentityRole> roleManager, IEmailService emailService, ITwoFactorService twoFactorService, IConfiguration configuration)
     {
         _authService = authService;
         _userManager = userManager;
         _roleManager = roleManager;
+        _emailService = emailService;
+        _twoFactorService = twoFactorService;
+        _useRefreshTokenCookie = bool.Parse(configuration.GetSection("JwtSettings:RefreshTokenCookie").Value ?? "false");
     }
 
     [HttpPost("login")]
@@ -53,7 +62,54 @@ public class AuthController : ControllerBase
                 });
             }
 
-            return Ok(new ApiResponse<LoginResponse> { Data = response });
+            // No session yet when a code is still needed, only the challenge for the second step
+            return Ok(new ApiResponse<LoginResponse> { Data = response.RequiresTwoFactor ? response : IssueRefreshToken(response) });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "LOGIN_ERROR",
+                    Message = "An error occurred during login",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpPost("login/2fa")]
+    public async Task<ActionResult<ApiResponse<LoginResponse>>> LoginTwoFactor([FromBody] TwoFactorLoginRequest request)
+    {
+        try
+        {
+            if (string.IsNullOrWhiteSpace(request.ChallengeToken) || string.IsNullOrWhiteSpace(request.Code))
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "VALIDATION_ERROR",
+                        Message = "Verification code is required"
+                    }
+                });
+            }
+
+            var response = await _authService.CompleteTwoFactorLoginAsync(request.ChallengeToken, request.Code);
+            if (response == null)
+            {
+                return Unauthorized(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "INVALID_TWO_FACTOR_CODE",
+                        Message = "Invalid or expired verification code"
+                    }
+                });
+            }
+
+            return Ok(new ApiResponse<LoginResponse> { Data = IssueRefreshToken(response) });
         }
         catch (Exception ex)
         {
@@ -69,15 +125,68 @@ public class AuthController : ControllerBase
         }
     }
 
+    [HttpPost("refresh")]
+    public async Task<ActionResult<ApiResponse<LoginResponse>>> Refresh([FromBody(EmptyBodyBehavior = Microsoft.AspNetCore.Mvc.ModelBinding.EmptyBodyBehavior.Allow)] RefreshTokenRequest? request)
+    {
+        try
+        {
+            var refreshToken = ReadRefreshToken(request);
+            if (string.IsNullOrWhiteSpace(refreshToken))
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "VALIDATION_ERROR",
+                        Message = "Refresh token is required"
+                    }
+                });
+            }
+
+            var response = await _authService.RefreshAsync(refreshToken);
+            if (response == null)
+            {
+                Response.Cookies.Delete(RefreshTokenCookie, RefreshCookieOptions());
+                return Unauthorized(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "INVALID_REFRESH_TOKEN",
+                        Message = "Your session has ended, please sign in again"
+                    }
+                });
+            }
+
+            return Ok(new ApiResponse<LoginResponse> { Data = IssueRefreshToken(response) });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "REFRESH_ERROR",
+                    Message = "An error occurred while refreshing the session",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
     [HttpPost("logout")]
     [Authorize]
-    public ActionResult<ApiResponse<object>> Logout()
+    public async Task<ActionResult<ApiResponse<object>>> Logout([FromBody(EmptyBodyBehavior = Microsoft.AspNetCore.Mvc.ModelBinding.EmptyBodyBehavior.Allow)] RefreshTokenRequest? request)
     {
         try
         {
-            // In a JWT-based system, logout is typically handled on the client side
-            // by removing the token. The server could implement a token blacklist
-            // if needed, but for now we'll just return a success response.
+            // Access tokens simply run out; revoking the refresh token stops this session being renewed
+            var refreshToken = ReadRefreshToken(request);
+            if (!string.IsNullOrWhiteSpace(refreshToken))
+            {
+                await _authService.RevokeRefreshTokenAsync(refreshToken);
+            }
+            Response.Cookies.Delete(RefreshTokenCookie, RefreshCookieOptions());
+
             return Ok(new ApiResponse<object> { Data = new { message = "Logged out successfully" } });
         }
         catch (Exception ex)
@@ -142,6 +251,186 @@ public class AuthController : ControllerBase
         }
     }
 
+    [HttpGet("2fa")]
+    [Authorize]
+    public async Task<ActionResult<ApiResponse<TwoFactorStatusResponse>>> GetTwoFactorStatus()
+    {
+        try
+        {
+            var status = await _twoFactorService.GetStatusAsync(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? string.Empty);
+            if (status == null)
+            {
+                return NotFound(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "USER_NOT_FOUND",
+                        Message = "User not found"
+                    }
+                });
+            }
+
+            return Ok(new ApiResponse<TwoFactorStatusResponse> { Data = status });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "TWO_FACTOR_ERROR",
+                    Message = "An error occurred while fetching two-factor status",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpPost("2fa/setup")]
+    [Authorize]
+    public async Task<ActionResult<ApiResponse<TwoFactorSetupResponse>>> SetupTwoFactor()
+    {
+        try
+        {
+            var setup = await _twoFactorService.BeginSetupAsync(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? string.Empty);
+            if (setup == null)
+            {
+                return Conflict(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "TWO_FACTOR_ALREADY_ENABLED",
+                        Message = "Two-factor authentication is already on for this account"
+                    }
+                });
+            }
+
+            return Ok(new ApiResponse<TwoFactorSetupResponse> { Data = setup });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "TWO_FACTOR_ERROR",
+                    Message = "An error occurred while setting up two-factor authentication",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpPost("2fa/enable")]
+    [Authorize]
+    public async Task<ActionResult<ApiResponse<RecoveryCodesResponse>>> EnableTwoFactor([FromBody] TwoFactorCodeRequest request)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? string.Empty;
+            var recoveryCodes = await _twoFactorService.EnableAsync(userId, request.Code);
+            if (recoveryCodes == null)
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "INVALID_TWO_FACTOR_CODE",
+                        Message = "That code did not match. Check the time on your phone and try the next code."
+                    }
+                });
+            }
+
+            await _authService.LogActivityAsync(Guid.Parse(userId), "ENABLE_TWO_FACTOR", "user", Guid.Parse(userId), null, null, null, null);
+
+            return Ok(new ApiResponse<RecoveryCodesResponse> { Data = new RecoveryCodesResponse { RecoveryCodes = recoveryCodes } });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "TWO_FACTOR_ERROR",
+                    Message = "An error occurred while enabling two-factor authentication",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpPost("2fa/disable")]
+    [Authorize]
+    public async Task<ActionResult<ApiResponse<object>>> DisableTwoFactor([FromBody] DisableTwoFactorRequest request)
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? string.Empty;
+            if (!await _twoFactorService.DisableAsync(userId, request.Password))
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "INVALID_PASSWORD",
+                        Message = "Password is incorrect"
+                    }
+                });
+            }
+
+            await _authService.LogActivityAsync(Guid.Parse(userId), "DISABLE_TWO_FACTOR", "user", Guid.Parse(userId), null, null, null, null);
+
+            return Ok(new ApiResponse<object> { Data = new { message = "Two-factor authentication turned off" } });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "TWO_FACTOR_ERROR",
+                    Message = "An error occurred while disabling two-factor authentication",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpPost("2fa/recovery-codes")]
+    [Authorize]
+    public async Task<ActionResult<ApiResponse<RecoveryCodesResponse>>> RegenerateRecoveryCodes([FromBody] TwoFactorCodeRequest request)
+    {
+        try
+        {
+            var recoveryCodes = await _twoFactorService.RegenerateRecoveryCodesAsync(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? string.Empty, request.Code);
+            if (recoveryCodes == null)
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "INVALID_TWO_FACTOR_CODE",
+                        Message = "Invalid verification code"
+                    }
+                });
+            }
+
+            return Ok(new ApiResponse<RecoveryCodesResponse> { Data = new RecoveryCodesResponse { RecoveryCodes = recoveryCodes } });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "TWO_FACTOR_ERROR",
+                    Message = "An error occurred while generating recovery codes",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
     [HttpPost("create-user")]
     [Authorize]
     public async Task<ActionResult<ApiResponse<UserDto>>> CreateUser([FromBody] CreateUserRequest request)
@@ -150,7 +439,7 @@ public class AuthController : ControllerBase
         {
             // Check if current user has permission to create users
             var currentUserRole = User.FindFirst(ClaimTypes.Role)?.Value;
-            if (currentUserRole != "super_admin")
+            if (currentUserRole != AdminRoles.SuperAdmin)
             {
                 return Forbid();
             }
@@ -167,6 +456,12 @@ public class AuthController : ControllerBase
                 });
             }
 
+            var roleError = ValidateRole(request.Role, request.Cities);
+            if (roleError != null)
+            {
+                return BadRequest(roleError);
+            }
+
             var existingUser = await _userManager.FindByNameAsync(request.Username);
             if (existingUser != null)
             {
@@ -198,7 +493,7 @@ public class AuthController : ControllerBase
                 UserName = request.Username,
                 Email = request.Email,
                 Role = request.Role,
-                Permissions = request.Permissions,
+                Permissions = request.Cities != null ? AdminRoles.SerializeCities(request.Cities) : request.Permissions,
                 IsActive = request.IsActive,
                 CreatedAt = DateTime.UtcNow,
                 UpdatedAt = DateTime.UtcNow
@@ -218,14 +513,7 @@ public class AuthController : ControllerBase
                 });
             }
 
-            var userDto = new UserDto
-            {
-                Id = Guid.Parse(user.Id),
-                Username = user.UserName!,
-                Email = user.Email!,
-                Role = user.Role ?? "admin",
-                IsActive = user.IsActive
-            };
+            var userDto = ToUserDto(user);
 
             return Ok(new ApiResponse<UserDto> { Data = userDto });
         }
@@ -249,13 +537,14 @@ public class AuthController : ControllerBase
         [FromQuery] int page = 1,
         [FromQuery] int limit = 20,
         [FromQuery] string? role = null,
-        [FromQuery] bool? isActive = null)
+        [FromQuery] bool? isActive = null,
+        [FromQuery] string? search = null)
     {
         try
         {
             // Check if current user has permission to view users
             var currentUserRole = User.FindFirst(ClaimTypes.Role)?.Value;
-            if (currentUserRole != "super_admin")
+            if (currentUserRole != AdminRoles.SuperAdmin)
             {
                 return Forbid();
             }
@@ -272,6 +561,12 @@ public class AuthController : ControllerBase
                 users = users.Where(u => u.IsActive == isActive.Value);
             }
 
+            if (!string.IsNullOrWhiteSpace(search))
+            {
+                var term = search.ToLower();
+                users = users.Where(u => u.UserName!.ToLower().Contains(term) || u.Email!.ToLower().Contains(term));
+            }
+
             var total = await users.CountAsync();
             var userList = await users
                 .OrderBy(u => u.UserName)
@@ -279,15 +574,7 @@ public class AuthController : ControllerBase
                 .Take(limit)
                 .ToListAsync();
 
-            var userDtos = userList.Select(u => new UserDto
-            {
-                Id = Guid.Parse(u.Id),
-                Username = u.UserName!,
-                Email = u.Email!,
-                Role = u.Role ?? "admin",
-                LastLogin = u.LastLogin,
-                IsActive = u.IsActive
-            }).ToList();
+            var userDtos = userList.Select(ToUserDto).ToList();
 
             return Ok(new ApiResponse<List<UserDto>>
             {
@@ -313,4 +600,416 @@ public class AuthController : ControllerBase
             });
         }
     }
+
+    // Creates an account with a temporary password, so a super admin can onboard someone without database access
+    [HttpPost("users/invite")]
+    [Authorize]
+    public async Task<ActionResult<ApiResponse<UserCredentialsResponse>>> InviteUser([FromBody] InviteUserRequest request)
+    {
+        try
+        {
+            if (User.FindFirst(ClaimTypes.Role)?.Value != AdminRoles.SuperAdmin)
+            {
+                return Forbid();
+            }
+
+            var roleError = ValidateRole(request.Role, request.Cities);
+            if (roleError != null)
+            {
+                return BadRequest(roleError);
+            }
+
+            if (await _userManager.FindByNameAsync(request.Username) != null)
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "USERNAME_EXISTS",
+                        Message = "Username already exists"
+                    }
+                });
+            }
+
+            if (await _userManager.FindByEmailAsync(request.Email) != null)
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "EMAIL_EXISTS",
+                        Message = "Email already exists"
+                    }
+                });
+            }
+
+            var user = new Models.Entities.AdminUser
+            {
+                UserName = request.Username.Trim(),
+                Email = request.Email.Trim(),
+                Role = request.Role,
+                Permissions = request.Role == AdminRoles.CityCoordinator ? AdminRoles.SerializeCities(request.Cities!) : null,
+                IsActive = true,
+                CreatedAt = DateTime.UtcNow,
+                UpdatedAt = DateTime.UtcNow
+            };
+
+            var temporaryPassword = GenerateTemporaryPassword();
+            var result = await _userManager.CreateAsync(user, temporaryPassword);
+            if (!result.Succeeded)
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "USER_CREATION_FAILED",
+                        Message = "Failed to create user: " + string.Join(", ", result.Errors.Select(e => e.Description))
+                    }
+                });
+            }
+
+            await _authService.LogActivityAsync(CurrentUserId(), "CREATE_USER", "user", Guid.Parse(user.Id), null,
+                System.Text.Json.JsonSerializer.Serialize(new { user.UserName, user.Email, user.Role, Cities = AdminRoles.GetCities(user.Permissions) }),
+                null, null);
+
+            var emailSent = await _emailService.SendAdminCredentialsEmailAsync(user.Email, user.UserName, temporaryPassword, isReset: false);
+
+            return Ok(new ApiResponse<UserCredentialsResponse>
+            {
+                Data = new UserCredentialsResponse
+                {
+                    User = ToUserDto(user),
+                    TemporaryPassword = temporaryPassword,
+                    EmailSent = emailSent
+                }
+            });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "USER_INVITE_ERROR",
+                    Message = "An error occurred while inviting the user",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpPut("users/{id}")]
+    [Authorize]
+    public async Task<ActionResult<ApiResponse<UserDto>>> UpdateUser(string id, [FromBody] UpdateUserRequest request)
+    {
+        try
+        {
+            if (User.FindFirst(ClaimTypes.Role)?.Value != AdminRoles.SuperAdmin)
+            {
+                return Forbid();
+            }
+
+            var user = await _userManager.FindByIdAsync(id);
+            if (user == null)
+            {
+                return NotFound(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "USER_NOT_FOUND",
+                        Message = "User not found"
+                    }
+                });
+            }
+
+            var role = request.Role ?? user.Role;
+            var cities = request.Cities ?? AdminRoles.GetCities(user.Permissions);
+            var roleError = ValidateRole(role, cities);
+            if (roleError != null)
+            {
+                return BadRequest(roleError);
+            }
+
+            // Guard against a super admin locking everyone, including themselves, out of user management
+            var isSelf = user.Id == User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (isSelf && (role != AdminRoles.SuperAdmin || request.IsActive == false))
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "CANNOT_CHANGE_SELF",
+                        Message = "You cannot change your own role or deactivate your own account"
+                    }
+                });
+            }
+
+            if (!string.IsNullOrWhiteSpace(request.Email) && request.Email != user.Email)
+            {
+                var existingEmail = await _userManager.FindByEmailAsync(request.Email);
+                if (existingEmail != null && existingEmail.Id != user.Id)
+                {
+                    return BadRequest(new ErrorResponse
+                    {
+                        Error = new ErrorDetail
+                        {
+                            Code = "EMAIL_EXISTS",
+                            Message = "Email already exists"
+                        }
+                    });
+                }
+                user.Email = request.Email.Trim();
+            }
+
+            var oldValues = new { user.Email, user.Role, Cities = AdminRoles.GetCities(user.Permissions), user.IsActive };
+            var wasActive = user.IsActive;
+
+            user.Role = role;
+            user.Permissions = role == AdminRoles.CityCoordinator ? AdminRoles.SerializeCities(cities) : null;
+            if (request.IsActive.HasValue)
+            {
+                user.IsActive = request.IsActive.Value;
+            }
+            user.UpdatedAt = DateTime.UtcNow;
+
+            var result = await _userManager.UpdateAsync(user);
+            if (!result.Succeeded)
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "USER_UPDATE_FAILED",
+                        Message = "Failed to update user: " + string.Join(", ", result.Errors.Select(e => e.Description))
+                    }
+                });
+            }
+
+            // A new stamp rejects access tokens already issued; revoking sessions stops them being refreshed
+            if (oldValues.Role != user.Role ||
+                !oldValues.Cities.SequenceEqual(AdminRoles.GetCities(user.Permissions)) ||
+                (wasActive && !user.IsActive))
+            {
+                await _userManager.UpdateSecurityStampAsync(user);
+                await _authService.RevokeAllSessionsAsync(user.Id);
+            }
+
+            await _authService.LogActivityAsync(CurrentUserId(), "UPDATE_USER", "user", Guid.Parse(user.Id),
+                System.Text.Json.JsonSerializer.Serialize(oldValues),
+                System.Text.Json.JsonSerializer.Serialize(new { user.Email, user.Role, Cities = AdminRoles.GetCities(user.Permissions), user.IsActive }),
+                null, null);
+
+            return Ok(new ApiResponse<UserDto> { Data = ToUserDto(user) });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "USER_UPDATE_ERROR",
+                    Message = "An error occurred while updating the user",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpPost("users/{id}/reset-password")]
+    [Authorize]
+    public async Task<ActionResult<ApiResponse<UserCredentialsResponse>>> ResetUserPassword(string id)
+    {
+        try
+        {
+            if (User.FindFirst(ClaimTypes.Role)?.Value != AdminRoles.SuperAdmin)
+            {
+                return Forbid();
+            }
+
+            var user = await _userManager.FindByIdAsync(id);
+            if (user == null)
+            {
+                return NotFound(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "USER_NOT_FOUND",
+                        Message = "User not found"
+                    }
+                });
+            }
+
+            var temporaryPassword = GenerateTemporaryPassword();
+            var resetToken = await _userManager.GeneratePasswordResetTokenAsync(user);
+            var result = await _userManager.ResetPasswordAsync(user, resetToken, temporaryPassword);
+            if (!result.Succeeded)
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "PASSWORD_RESET_FAILED",
+                        Message = "Failed to reset password: " + string.Join(", ", result.Errors.Select(e => e.Description))
+                    }
+                });
+            }
+
+            // Whoever had the old password should not stay signed in; the reset already changed the security stamp
+            await _authService.RevokeAllSessionsAsync(user.Id);
+            await _authService.LogActivityAsync(CurrentUserId(), "RESET_USER_PASSWORD", "user", Guid.Parse(user.Id), null, null, null, null);
+
+            var emailSent = await _emailService.SendAdminCredentialsEmailAsync(user.Email!, user.UserName!, temporaryPassword, isReset: true);
+
+            return Ok(new ApiResponse<UserCredentialsResponse>
+            {
+                Data = new UserCredentialsResponse
+                {
+                    User = ToUserDto(user),
+                    TemporaryPassword = temporaryPassword,
+                    EmailSent = emailSent
+                }
+            });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "PASSWORD_RESET_ERROR",
+                    Message = "An error occurred while resetting the password",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpDelete("users/{id}/two-factor")]
+    [Authorize]
+    public async Task<ActionResult<ApiResponse<UserDto>>> ResetUserTwoFactor(string id)
+    {
+        try
+        {
+            if (User.FindFirst(ClaimTypes.Role)?.Value != AdminRoles.SuperAdmin)
+            {
+                return Forbid();
+            }
+
+            var user = await _userManager.FindByIdAsync(id);
+            if (user == null)
+            {
+                return NotFound(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "USER_NOT_FOUND",
+                        Message = "User not found"
+                    }
+                });
+            }
+
+            await _twoFactorService.ResetAsync(user.Id);
+            await _authService.LogActivityAsync(CurrentUserId(), "RESET_USER_TWO_FACTOR", "user", Guid.Parse(user.Id), null, null, null, null);
+
+            return Ok(new ApiResponse<UserDto> { Data = ToUserDto(user) });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "TWO_FACTOR_ERROR",
+                    Message = "An error occurred while resetting two-factor authentication",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    // The signed-in admin, recorded as the actor in the activity log
+    private Guid? CurrentUserId() =>
+        Guid.TryParse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value, out var userId) ? userId : null;
+
+    // In cookie mode the refresh token never reaches page scripts, so an XSS bug cannot steal it
+    private LoginResponse IssueRefreshToken(LoginResponse response)
+    {
+        if (_useRefreshTokenCookie)
+        {
+            var options = RefreshCookieOptions();
+            options.Expires = response.RefreshExpiresAt;
+            Response.Cookies.Append(RefreshTokenCookie, response.RefreshToken, options);
+            response.RefreshToken = string.Empty;
+        }
+
+        return response;
+    }
+
+    private string? ReadRefreshToken(RefreshTokenRequest? request) =>
+        !string.IsNullOrWhiteSpace(request?.RefreshToken) ? request.RefreshToken : Request.Cookies[RefreshTokenCookie];
+
+    private static CookieOptions RefreshCookieOptions() => new()
+    {
+        HttpOnly = true,
+        Secure = true,
+        SameSite = SameSiteMode.Strict,
+        Path = "/api/auth"
+    };
+
+    private static ErrorResponse? ValidateRole(string role, List<string>? cities)
+    {
+        if (!AdminRoles.IsValid(role))
+        {
+            return new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "INVALID_ROLE",
+                    Message = $"Role must be one of: {string.Join(", ", AdminRoles.All)}"
+                }
+            };
+        }
+
+        if (role == AdminRoles.CityCoordinator && (cities == null || cities.All(string.IsNullOrWhiteSpace)))
+        {
+            return new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = "City coordinators need at least one city"
+                }
+            };
+        }
+
+        return null;
+    }
+
+    private static UserDto ToUserDto(Models.Entities.AdminUser user) => new()
+    {
+        Id = Guid.Parse(user.Id),
+        Username = user.UserName!,
+        Email = user.Email!,
+        Role = user.Role ?? "admin",
+        Cities = AdminRoles.GetCities(user.Permissions),
+        LastLogin = user.LastLogin,
+        IsActive = user.IsActive,
+        TwoFactorEnabled = user.TwoFactorEnabled
+    };
+
+    // Meets the Identity password rules: upper and lower case letters plus digits, no look-alike characters
+    private static string GenerateTemporaryPassword()
+    {
+        const string upper = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+        const string lower = "abcdefghijkmnpqrstuvwxyz";
+        const string digits = "23456789";
+
+        var characters = Enumerable.Range(0, 4).Select(_ => upper[RandomNumberGenerator.GetInt32(upper.Length)])
+            .Concat(Enumerable.Range(0, 4).Select(_ => lower[RandomNumberGenerator.GetInt32(lower.Length)]))
+            .Concat(Enumerable.Range(0, 4).Select(_ => digits[RandomNumberGenerator.GetInt32(digits.Length)]))
+            .OrderBy(_ => RandomNumberGenerator.GetInt32(int.MaxValue))
+            .ToArray();
+
+        return new string(characters);
+    }
 }
\ No newline at end of file
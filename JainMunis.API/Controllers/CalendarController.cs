@@ -0,0 +1,128 @@
+using System.Text;
+using Microsoft.AspNetCore.Mvc;
+using JainMunis.API.Models.DTOs;
+using JainMunis.API.Services;
+
+namespace JainMunis.API.Controllers;
+
+// iCalendar exports. The saint and city URLs double as feeds: calendar apps that
+// subscribe to them (e.g. via webcal://) re-fetch and pick up schedule changes
+[ApiController]
+[Route("api/[controller]")]
+public class CalendarController : ControllerBase
+{
+    private const string CalendarContentType = "text/calendar; charset=utf-8";
+
+    private readonly IScheduleService _scheduleService;
+    private readonly ISaintService _saintService;
+
+    public CalendarController(IScheduleService scheduleService, ISaintService saintService)
+    {
+        _scheduleService = scheduleService;
+        _saintService = saintService;
+    }
+
+    [HttpGet("schedules/{id:guid}.ics")]
+    public async Task<IActionResult> GetScheduleCalendar(Guid id)
+    {
+        try
+        {
+            var schedule = await _scheduleService.GetScheduleByIdAsync(id);
+            if (schedule == null)
+            {
+                return NotFound(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "SCHEDULE_NOT_FOUND",
+                        Message = "Schedule not found"
+                    }
+                });
+            }
+
+            var name = schedule.Saint?.Name ?? "Schedule";
+            return CalendarFile(CalendarFeedBuilder.Build(name, new[] { schedule }), $"{Slugify(name)}-{schedule.StartDate:yyyy-MM-dd}.ics");
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "INTERNAL_ERROR",
+                    Message = "An error occurred while exporting the schedule",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpGet("saints/{saintId:guid}.ics")]
+    public async Task<IActionResult> GetSaintCalendar(Guid saintId)
+    {
+        try
+        {
+            var saint = await _saintService.GetSaintByIdAsync(saintId);
+            if (saint == null)
+            {
+                return NotFound(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "SAINT_NOT_FOUND",
+                        Message = "Saint not found"
+                    }
+                });
+            }
+
+            var schedules = await _scheduleService.GetUnfinishedSchedulesAsync(new SearchParams { SaintId = saintId });
+            var name = string.IsNullOrEmpty(saint.Title) ? saint.Name : $"{saint.Title} {saint.Name}";
+            return CalendarFile(CalendarFeedBuilder.Build($"{name} – Vihar", schedules), $"{Slugify(saint.Name)}.ics");
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "INTERNAL_ERROR",
+                    Message = "An error occurred while exporting the saint's schedules",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpGet("cities/{city}.ics")]
+    public async Task<IActionResult> GetCityCalendar(string city)
+    {
+        try
+        {
+            var schedules = await _scheduleService.GetUnfinishedSchedulesAsync(new SearchParams { City = city });
+            return CalendarFile(CalendarFeedBuilder.Build($"Saints in {city}", schedules), $"{Slugify(city)}.ics");
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "INTERNAL_ERROR",
+                    Message = "An error occurred while exporting the city's schedules",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    private FileContentResult CalendarFile(string calendar, string fileName)
+    {
+        return File(Encoding.UTF8.GetBytes(calendar), CalendarContentType, fileName);
+    }
+
+    private static string Slugify(string value)
+    {
+        var slug = new string(value.ToLowerInvariant().Select(c => char.IsLetterOrDigit(c) ? c : '-').ToArray());
+        return string.Join("-", slug.Split('-', StringSplitOptions.RemoveEmptyEntries));
+    }
+}
\ No newline at end of file
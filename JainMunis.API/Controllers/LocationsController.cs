@@ -10,10 +10,12 @@ namespace JainMunis.API.Controllers;
 public class LocationsController : ControllerBase
 {
     private readonly ILocationService _locationService;
+    private readonly IAuthService _authService;
 
-    public LocationsController(ILocationService locationService)
+    public LocationsController(ILocationService locationService, IAuthService authService)
     {
         _locationService = locationService;
+        _authService = authService;
     }
 
     [HttpGet]
@@ -22,7 +24,8 @@ public class LocationsController : ControllerBase
         [FromQuery] int limit = 20,
         [FromQuery] string? search = null,
         [FromQuery] string? city = null,
-        [FromQuery] string? state = null)
+        [FromQuery] string? state = null,
+        [FromQuery] DateTime? createdFrom = null)
     {
         try
         {
@@ -34,7 +37,8 @@ public class LocationsController : ControllerBase
             {
                 Search = search,
                 City = city,
-                State = state
+                State = state,
+                CreatedFrom = createdFrom
             };
 
             var (locations, total) = await _locationService.GetLocationsAsync(page, limit, searchParams);
@@ -101,7 +105,7 @@ public class LocationsController : ControllerBase
     }
 
     [HttpPost]
-    [Authorize]
+    [Authorize(Policy = AdminRoles.ManageLocationsPolicy)]
     public async Task<ActionResult<ApiResponse<LocationDto>>> CreateLocation([FromBody] CreateLocationRequest request)
     {
         try
@@ -142,6 +146,11 @@ public class LocationsController : ControllerBase
                 });
             }
 
+            if (!await _authService.CanManageCitiesAsync(User, request.City))
+            {
+                return CityNotAllowed();
+            }
+
             var location = await _locationService.CreateLocationAsync(request);
             return Ok(new ApiResponse<LocationDto> { Data = location });
         }
@@ -160,11 +169,19 @@ public class LocationsController : ControllerBase
     }
 
     [HttpPut("{id}")]
-    [Authorize]
+    [Authorize(Policy = AdminRoles.ManageLocationsPolicy)]
     public async Task<ActionResult<ApiResponse<LocationDto>>> UpdateLocation(Guid id, [FromBody] UpdateLocationRequest request)
     {
         try
         {
+            // A coordinator may neither edit another city's location nor move one of theirs out of scope
+            var existing = await _locationService.GetLocationByIdAsync(id);
+            if (existing != null &&
+                !await _authService.CanManageCitiesAsync(User, existing.City, request.City ?? existing.City))
+            {
+                return CityNotAllowed();
+            }
+
             var location = await _locationService.UpdateLocationAsync(id, request);
             if (location == null)
             {
@@ -195,11 +212,17 @@ public class LocationsController : ControllerBase
     }
 
     [HttpDelete("{id}")]
-    [Authorize]
+    [Authorize(Policy = AdminRoles.ManageLocationsPolicy)]
     public async Task<ActionResult<ApiResponse<object>>> DeleteLocation(Guid id)
     {
         try
         {
+            var existing = await _locationService.GetLocationByIdAsync(id);
+            if (existing != null && !await _authService.CanManageCitiesAsync(User, existing.City))
+            {
+                return CityNotAllowed();
+            }
+
             var result = await _locationService.DeleteLocationAsync(id);
             if (!result)
             {
@@ -230,11 +253,13 @@ public class LocationsController : ControllerBase
     }
 
     [HttpGet("cities")]
-    public async Task<ActionResult<ApiResponse<List<string>>>> GetCities([FromQuery] string? query = null)
+    public async Task<ActionResult<ApiResponse<List<string>>>> GetCities(
+        [FromQuery] string? query = null,
+        [FromQuery] string? state = null)
     {
         try
         {
-            var cities = await _locationService.GetCitiesAsync(query);
+            var cities = await _locationService.GetCitiesAsync(query, state);
             return Ok(new ApiResponse<List<string>> { Data = cities });
         }
         catch (Exception ex)
@@ -251,6 +276,28 @@ public class LocationsController : ControllerBase
         }
     }
 
+    [HttpGet("states")]
+    public async Task<ActionResult<ApiResponse<List<string>>>> GetStates()
+    {
+        try
+        {
+            var states = await _locationService.GetStatesAsync();
+            return Ok(new ApiResponse<List<string>> { Data = states });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "INTERNAL_ERROR",
+                    Message = "An error occurred while fetching states",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
     [HttpGet("city/{city}")]
     public async Task<ActionResult<ApiResponse<List<LocationDto>>>> GetLocationsByCity(string city)
     {
@@ -284,4 +331,13 @@ public class LocationsController : ControllerBase
             });
         }
     }
+
+    private ObjectResult CityNotAllowed() => StatusCode(StatusCodes.Status403Forbidden, new ErrorResponse
+    {
+        Error = new ErrorDetail
+        {
+            Code = "CITY_NOT_ALLOWED",
+            Message = "You can only manage locations in your assigned cities"
+        }
+    });
 }
\ No newline at end of file
@@ -23,7 +23,10 @@ public class SaintsController : ControllerBase
         [FromQuery] int limit = 20,
         [FromQuery] string? search = null,
         [FromQuery] string? city = null,
-        [FromQuery] bool? isActive = true)
+        [FromQuery] string? state = null,
+        [FromQuery] bool? isActive = true,
+        [FromQuery] bool includeInactive = false,
+        [FromQuery] DateTime? createdFrom = null)
     {
         try
         {
@@ -35,7 +38,10 @@ public class SaintsController : ControllerBase
             {
                 Search = search,
                 City = city,
-                IsActive = isActive
+                State = state,
+                // isActive defaults to true for the public pages; admin lists ask for both explicitly
+                IsActive = includeInactive ? null : isActive,
+                CreatedFrom = createdFrom
             };
 
             var (saints, total) = await _saintService.GetSaintsAsync(page, limit, searchParams);
@@ -102,7 +108,7 @@ public class SaintsController : ControllerBase
     }
 
     [HttpPost]
-    [Authorize]
+    [Authorize(Policy = AdminRoles.ManageSaintsPolicy)]
     public async Task<ActionResult<ApiResponse<SaintDto>>> CreateSaint([FromBody] CreateSaintRequest request)
     {
         try
@@ -137,7 +143,7 @@ public class SaintsController : ControllerBase
     }
 
     [HttpPut("{id}")]
-    [Authorize]
+    [Authorize(Policy = AdminRoles.ManageSaintsPolicy)]
     public async Task<ActionResult<ApiResponse<SaintDto>>> UpdateSaint(Guid id, [FromBody] UpdateSaintRequest request)
     {
         try
@@ -172,7 +178,7 @@ public class SaintsController : ControllerBase
     }
 
     [HttpDelete("{id}")]
-    [Authorize]
+    [Authorize(Policy = AdminRoles.ManageSaintsPolicy)]
     public async Task<ActionResult<ApiResponse<object>>> DeleteSaint(Guid id)
     {
         try
@@ -278,7 +284,7 @@ public class SaintsController : ControllerBase
     }
 
     [HttpPost("{id}/photo")]
-    [Authorize]
+    [Authorize(Policy = AdminRoles.ManageSaintsPolicy)]
     public async Task<ActionResult<ApiResponse<string>>> UpdateSaintPhoto(Guid id, IFormFile photo)
     {
         try
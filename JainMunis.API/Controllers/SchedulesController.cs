@@ -10,10 +10,14 @@ namespace JainMunis.API.Controllers;
 public class SchedulesController : ControllerBase
 {
     private readonly IScheduleService _scheduleService;
+    private readonly ILocationService _locationService;
+    private readonly IAuthService _authService;
 
-    public SchedulesController(IScheduleService scheduleService)
+    public SchedulesController(IScheduleService scheduleService, ILocationService locationService, IAuthService authService)
     {
         _scheduleService = scheduleService;
+        _locationService = locationService;
+        _authService = authService;
     }
 
     [HttpGet]
@@ -23,7 +27,8 @@ public class SchedulesController : ControllerBase
         [FromQuery] Guid? saintId = null,
         [FromQuery] string? city = null,
         [FromQuery] DateTime? dateFrom = null,
-        [FromQuery] DateTime? dateTo = null)
+        [FromQuery] DateTime? dateTo = null,
+        [FromQuery] bool overlapping = false)
     {
         try
         {
@@ -36,7 +41,8 @@ public class SchedulesController : ControllerBase
                 SaintId = saintId,
                 City = city,
                 DateFrom = dateFrom,
-                DateTo = dateTo
+                DateTo = dateTo,
+                Overlapping = overlapping
             };
 
             var (schedules, total) = await _scheduleService.GetSchedulesAsync(page, limit, searchParams);
@@ -103,7 +109,7 @@ public class SchedulesController : ControllerBase
     }
 
     [HttpPost]
-    [Authorize]
+    [Authorize(Policy = AdminRoles.ManageSchedulesPolicy)]
     public async Task<ActionResult<ApiResponse<ScheduleDto>>> CreateSchedule([FromBody] CreateScheduleRequest request)
     {
         try
@@ -120,6 +126,12 @@ public class SchedulesController : ControllerBase
                 });
             }
 
+            var location = await _locationService.GetLocationByIdAsync(request.LocationId);
+            if (!await _authService.CanManageCitiesAsync(User, location?.City))
+            {
+                return CityNotAllowed();
+            }
+
             // Get current user ID from claims
             var userIdClaim = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier);
             var createdBy = userIdClaim?.Value;
@@ -153,7 +165,7 @@ public class SchedulesController : ControllerBase
     }
 
     [HttpPut("{id}")]
-    [Authorize]
+    [Authorize(Policy = AdminRoles.ManageSchedulesPolicy)]
     public async Task<ActionResult<ApiResponse<ScheduleDto>>> UpdateSchedule(Guid id, [FromBody] UpdateScheduleRequest request)
     {
         try
@@ -171,6 +183,28 @@ public class SchedulesController : ControllerBase
                 });
             }
 
+            var existing = await _scheduleService.GetScheduleByIdAsync(id);
+            if (existing == null)
+            {
+                return NotFound(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "SCHEDULE_NOT_FOUND",
+                        Message = "Schedule not found"
+                    }
+                });
+            }
+
+            // Moving a stay needs both its current city and the one it moves to
+            var newLocation = request.LocationId.HasValue && request.LocationId.Value != existing.LocationId
+                ? await _locationService.GetLocationByIdAsync(request.LocationId.Value)
+                : existing.Location;
+            if (!await _authService.CanManageCitiesAsync(User, existing.Location?.City, newLocation?.City))
+            {
+                return CityNotAllowed();
+            }
+
             // Get current user ID from claims
             var userIdClaim = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier);
             var updatedBy = userIdClaim?.Value;
@@ -216,11 +250,17 @@ public class SchedulesController : ControllerBase
     }
 
     [HttpDelete("{id}")]
-    [Authorize]
+    [Authorize(Policy = AdminRoles.ManageSchedulesPolicy)]
     public async Task<ActionResult<ApiResponse<object>>> DeleteSchedule(Guid id)
     {
         try
         {
+            var existing = await _scheduleService.GetScheduleByIdAsync(id);
+            if (existing != null && !await _authService.CanManageCitiesAsync(User, existing.Location?.City))
+            {
+                return CityNotAllowed();
+            }
+
             var result = await _scheduleService.DeleteScheduleAsync(id);
             if (!result)
             {
@@ -384,4 +424,13 @@ public class SchedulesController : ControllerBase
             });
         }
     }
+
+    private ObjectResult CityNotAllowed() => StatusCode(StatusCodes.Status403Forbidden, new ErrorResponse
+    {
+        Error = new ErrorDetail
+        {
+            Code = "CITY_NOT_ALLOWED",
+            Message = "You can only manage schedules in your assigned cities"
+        }
+    });
 }
\ No newline at end of file
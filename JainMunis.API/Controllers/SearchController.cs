@@ -44,18 +44,10 @@ public class SearchController : ControllerBase
                 });
             }
 
-            var nearbySaints = await _saintService.GetNearbySaintsAsync(latitude, longitude, radiusKm);
+            // Results are ordered nearest first
+            var nearbySchedules = await _scheduleService.GetNearbySchedulesAsync(latitude, longitude, radiusKm, currentOnly);
 
-            if (currentOnly)
-            {
-                // Filter to only include saints currently staying in the area
-                var today = DateOnly.FromDateTime(DateTime.UtcNow);
-                nearbySaints = nearbySaints
-                    .Where(s => s.CurrentSchedule != null)
-                    .ToList();
-            }
-
-            return Ok(new ApiResponse<List<ScheduleDto>> { Data = new List<ScheduleDto>() });
+            return Ok(new ApiResponse<List<ScheduleDto>> { Data = nearbySchedules });
         }
         catch (Exception ex)
         {
@@ -112,17 +104,16 @@ public class SearchController : ControllerBase
 
             var searchTerm = query.ToLower();
             var cities = await _locationService.GetCitiesAsync(searchTerm);
-            
+            var (saints, _) = await _saintService.GetSaintsAsync(1, 5, new SearchParams { Search = searchTerm, IsActive = true });
+            var (locations, _) = await _locationService.GetLocationsAsync(1, 5, new SearchParams { Search = searchTerm });
+
             var suggestions = new
             {
-                saints = new List<object>(),
-                locations = new List<object>(),
+                saints,
+                locations,
                 cities = cities.Take(10).ToList()
             };
 
-            // TODO: Add saint and location name suggestions
-            // This would require implementing search methods in the services
-
             return Ok(new ApiResponse<object> { Data = suggestions });
         }
         catch (Exception ex)
@@ -141,9 +132,10 @@ public class SearchController : ControllerBase
 
     [HttpGet("advanced")]
     public async Task<ActionResult<ApiResponse<object>>> AdvancedSearch(
-        [FromQuery] string? query = null,
+        [FromQuery] string? search = null,
         [FromQuery] string? city = null,
         [FromQuery] string? state = null,
+        [FromQuery] string? lineage = null,
         [FromQuery] DateOnly? dateFrom = null,
         [FromQuery] DateOnly? dateTo = null,
         [FromQuery] bool currentOnly = false,
@@ -156,72 +148,76 @@ public class SearchController : ControllerBase
             if (limit < 1) limit = 20;
             if (limit > 100) limit = 100;
 
-            // Search saints
-            var saintSearchParams = new SearchParams
+            if (dateFrom.HasValue && dateTo.HasValue && dateFrom > dateTo)
             {
-                Search = query,
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "VALIDATION_ERROR",
+                        Message = "Start date must be on or before end date"
+                    }
+                });
+            }
+
+            var searchParams = new SearchParams
+            {
+                Search = search,
                 City = city,
-                IsActive = true
+                State = state,
+                Lineage = lineage,
+                IsActive = true,
+                DateFrom = dateFrom?.ToDateTime(TimeOnly.MinValue),
+                DateTo = dateTo?.ToDateTime(TimeOnly.MinValue),
+                CurrentOnly = currentOnly
             };
 
-            var (saints, saintTotal) = await _saintService.GetSaintsAsync(page, limit, saintSearchParams);
+            // Saints drive the result set; schedules explain why each saint matched
+            var (saints, total) = await _saintService.GetSaintsAsync(page, limit, searchParams);
 
             var schedules = new List<ScheduleDto>();
-            var locations = new List<LocationDto>();
-
-            // Search schedules if date range provided
-            if (dateFrom.HasValue || dateTo.HasValue || !string.IsNullOrWhiteSpace(city))
+            if (ScheduleFilters.HasScheduleFacets(searchParams) && saints.Count > 0)
             {
-                var scheduleSearchParams = new SearchParams
-                {
-                    City = city,
-                    DateFrom = dateFrom?.ToDateTime(TimeOnly.MinValue),
-                    DateTo = dateTo?.ToDateTime(TimeOnly.MaxValue)
-                };
-
-                if (currentOnly)
-                {
-                    schedules = await _scheduleService.GetCurrentSchedulesAsync(scheduleSearchParams);
-                }
-                else
-                {
-                    var (schedulesData, scheduleTotal) = await _scheduleService.GetSchedulesAsync(page, limit, scheduleSearchParams);
-                    schedules = schedulesData;
-                }
+                schedules = await _scheduleService.GetMatchingSchedulesAsync(saints.Select(s => s.Id), searchParams);
             }
 
-            // Search locations if city or state provided
+            // Temples in the selected place, independent of who is staying there
+            var locations = new List<LocationDto>();
             if (!string.IsNullOrWhiteSpace(city) || !string.IsNullOrWhiteSpace(state))
             {
-                var locationSearchParams = new SearchParams
+                var (locationsData, _) = await _locationService.GetLocationsAsync(1, 10, new SearchParams
                 {
                     City = city,
                     State = state
-                };
-
-                var (locationsData, locationTotal) = await _locationService.GetLocationsAsync(page, limit, locationSearchParams);
+                });
                 locations = locationsData;
             }
 
-            // Calculate total
-            var total = saintTotal + schedules.Count + locations.Count;
-            var totalPages = (int)Math.Ceiling((double)total / limit);
+            var facets = new
+            {
+                cities = await _locationService.GetCitiesAsync(),
+                states = await _locationService.GetStatesAsync(),
+                lineages = await _saintService.GetLineagesAsync()
+            };
 
             var result = new
             {
                 saints,
                 schedules,
                 locations,
-                pagination = new
-                {
-                    page,
-                    limit,
-                    total,
-                    totalPages
-                }
+                facets
             };
 
-            return Ok(new ApiResponse<object> { Data = result });
+            return Ok(new ApiResponse<object>
+            {
+                Data = result,
+                Pagination = new PaginationDto
+                {
+                    Page = page,
+                    Limit = limit,
+                    Total = total
+                }
+            });
         }
         catch (Exception ex)
         {
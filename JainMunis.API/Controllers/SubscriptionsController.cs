@@ -0,0 +1,397 @@
+using Microsoft.AspNetCore.Mvc;
+using JainMunis.API.Models.DTOs;
+using JainMunis.API.Services;
+
+namespace JainMunis.API.Controllers;
+
+// Devotees manage their own subscription without an account; the subscription id is
+// returned once they enter the code sent to their email or phone, and it is what lets
+// them read or change the subscription afterwards
+[ApiController]
+[Route("api/[controller]")]
+public class SubscriptionsController : ControllerBase
+{
+    private static readonly string[] AllowedNotificationTypes = { "arrival", "departure", "schedule_change", "chaturmas" };
+    private const string CodeSentMessage = "If that address can receive notifications, a code is on its way. Enter it to continue.";
+
+    private readonly ISubscriptionService _subscriptionService;
+    private readonly IPushNotificationService _pushNotificationService;
+
+    public SubscriptionsController(ISubscriptionService subscriptionService, IPushNotificationService pushNotificationService)
+    {
+        _subscriptionService = subscriptionService;
+        _pushNotificationService = pushNotificationService;
+    }
+
+    // Browsers need the VAPID public key before they can create a push subscription
+    [HttpGet("push/public-key")]
+    public ActionResult<ApiResponse<object>> GetPushPublicKey()
+    {
+        if (string.IsNullOrEmpty(_pushNotificationService.PublicKey))
+        {
+            return NotFound(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "PUSH_NOT_CONFIGURED",
+                    Message = "Browser notifications are not available"
+                }
+            });
+        }
+
+        return Ok(new ApiResponse<object> { Data = new { publicKey = _pushNotificationService.PublicKey } });
+    }
+
+    [HttpGet("{id}")]
+    public async Task<ActionResult<ApiResponse<SubscriptionDto>>> GetSubscription(Guid id)
+    {
+        try
+        {
+            var subscription = await _subscriptionService.GetSubscriptionByIdAsync(id);
+            if (subscription == null)
+            {
+                return NotFound(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "SUBSCRIPTION_NOT_FOUND",
+                        Message = "Subscription not found"
+                    }
+                });
+            }
+
+            return Ok(new ApiResponse<SubscriptionDto> { Data = subscription });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "INTERNAL_ERROR",
+                    Message = "An error occurred while fetching the subscription",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    // Answers the same whether or not the identifier is already subscribed
+    [HttpPost]
+    public async Task<ActionResult<ApiResponse<object>>> CreateSubscription([FromBody] CreateSubscriptionRequest request)
+    {
+        try
+        {
+            if (string.IsNullOrWhiteSpace(request.UserIdentifier))
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "VALIDATION_ERROR",
+                        Message = "Email or phone number is required"
+                    }
+                });
+            }
+
+            var validationError = ValidateChannels(request.UserIdentifier, request.EmailEnabled, request.WhatsAppEnabled, request.NotificationTypes);
+            if (validationError != null)
+            {
+                return BadRequest(validationError);
+            }
+
+            await _subscriptionService.SendVerificationCodeAsync(request.UserIdentifier, request);
+            return Ok(new ApiResponse<object> { Data = new { message = CodeSentMessage } });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "CREATION_ERROR",
+                    Message = "An error occurred while creating the subscription",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    // For devotees who lost the subscription id, e.g. on a new browser
+    [HttpPost("recover")]
+    public async Task<ActionResult<ApiResponse<object>>> RecoverSubscription([FromBody] SubscriptionCodeRequest request)
+    {
+        try
+        {
+            if (string.IsNullOrWhiteSpace(request.UserIdentifier))
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "VALIDATION_ERROR",
+                        Message = "Email or phone number is required"
+                    }
+                });
+            }
+
+            await _subscriptionService.SendVerificationCodeAsync(request.UserIdentifier, null);
+            return Ok(new ApiResponse<object> { Data = new { message = CodeSentMessage } });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "RECOVERY_ERROR",
+                    Message = "An error occurred while sending the code",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpPost("verify")]
+    public async Task<ActionResult<ApiResponse<SubscriptionDto>>> VerifySubscription([FromBody] VerifySubscriptionRequest request)
+    {
+        try
+        {
+            var subscription = string.IsNullOrWhiteSpace(request.UserIdentifier) || string.IsNullOrWhiteSpace(request.Code)
+                ? null
+                : await _subscriptionService.VerifyAsync(request.UserIdentifier, request.Code);
+            if (subscription == null)
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "INVALID_VERIFICATION_CODE",
+                        Message = "That code is wrong or has expired. Ask for a new one and try again."
+                    }
+                });
+            }
+
+            return Ok(new ApiResponse<SubscriptionDto> { Data = subscription });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "VERIFICATION_ERROR",
+                    Message = "An error occurred while checking the code",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpPut("{id}")]
+    public async Task<ActionResult<ApiResponse<SubscriptionDto>>> UpdateSubscription(Guid id, [FromBody] UpdateSubscriptionRequest request)
+    {
+        try
+        {
+            var existing = await _subscriptionService.GetSubscriptionByIdAsync(id);
+            if (existing == null)
+            {
+                return NotFound(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "SUBSCRIPTION_NOT_FOUND",
+                        Message = "Subscription not found"
+                    }
+                });
+            }
+
+            var validationError = ValidateChannels(
+                existing.UserIdentifier,
+                request.EmailEnabled ?? existing.EmailEnabled,
+                request.WhatsAppEnabled ?? existing.WhatsAppEnabled,
+                request.NotificationTypes);
+            if (validationError != null)
+            {
+                return BadRequest(validationError);
+            }
+
+            var subscription = await _subscriptionService.UpdateSubscriptionAsync(id, request);
+            return Ok(new ApiResponse<SubscriptionDto> { Data = subscription });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "UPDATE_ERROR",
+                    Message = "An error occurred while updating the subscription",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpPut("{id}/push")]
+    public async Task<ActionResult<ApiResponse<SubscriptionDto>>> SetPushSubscription(Guid id, [FromBody] PushSubscriptionRequest request)
+    {
+        try
+        {
+            if (!_pushNotificationService.IsAllowedEndpoint(request.Endpoint) ||
+                string.IsNullOrWhiteSpace(request.Keys?.P256dh) ||
+                string.IsNullOrWhiteSpace(request.Keys?.Auth))
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "VALIDATION_ERROR",
+                        Message = "A push subscription needs an https endpoint from a push service and its p256dh and auth keys"
+                    }
+                });
+            }
+
+            var subscription = await _subscriptionService.SetPushSubscriptionAsync(id, request);
+            if (subscription == null)
+            {
+                return NotFound(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "SUBSCRIPTION_NOT_FOUND",
+                        Message = "Subscription not found"
+                    }
+                });
+            }
+
+            return Ok(new ApiResponse<SubscriptionDto> { Data = subscription });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "UPDATE_ERROR",
+                    Message = "An error occurred while saving the push subscription",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpDelete("{id}/push")]
+    public async Task<ActionResult<ApiResponse<SubscriptionDto>>> RemovePushSubscription(Guid id)
+    {
+        try
+        {
+            var subscription = await _subscriptionService.SetPushSubscriptionAsync(id, null);
+            if (subscription == null)
+            {
+                return NotFound(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "SUBSCRIPTION_NOT_FOUND",
+                        Message = "Subscription not found"
+                    }
+                });
+            }
+
+            return Ok(new ApiResponse<SubscriptionDto> { Data = subscription });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "UPDATE_ERROR",
+                    Message = "An error occurred while removing the push subscription",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    [HttpDelete("{id}")]
+    public async Task<ActionResult<ApiResponse<object>>> DeleteSubscription(Guid id)
+    {
+        try
+        {
+            var result = await _subscriptionService.DeleteSubscriptionAsync(id);
+            if (!result)
+            {
+                return NotFound(new ErrorResponse
+                {
+                    Error = new ErrorDetail
+                    {
+                        Code = "SUBSCRIPTION_NOT_FOUND",
+                        Message = "Subscription not found"
+                    }
+                });
+            }
+
+            return Ok(new ApiResponse<object> { Data = new { message = "Subscription deleted successfully" } });
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "DELETION_ERROR",
+                    Message = "An error occurred while deleting the subscription",
+                    Details = ex.Message
+                }
+            });
+        }
+    }
+
+    // Email delivery needs an email identifier and WhatsApp needs a phone number
+    private static ErrorResponse? ValidateChannels(string userIdentifier, bool emailEnabled, bool whatsAppEnabled, List<string>? notificationTypes)
+    {
+        var isEmail = userIdentifier.Contains('@');
+
+        if (emailEnabled && !isEmail)
+        {
+            return new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = "Email notifications require an email address"
+                }
+            };
+        }
+
+        if (whatsAppEnabled && isEmail)
+        {
+            return new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = "WhatsApp notifications require a phone number"
+                }
+            };
+        }
+
+        var unknownTypes = notificationTypes?.Except(AllowedNotificationTypes).ToList();
+        if (unknownTypes != null && unknownTypes.Count > 0)
+        {
+            return new ErrorResponse
+            {
+                Error = new ErrorDetail
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = "Unknown notification type",
+                    Details = string.Join(", ", unknownTypes)
+                }
+            };
+        }
+
+        return null;
+    }
+}
\ No newline at end of file
@@ -90,6 +90,8 @@ public class ApplicationDbContext : IdentityDbContext<AdminUser>
             entity.Property(e => e.EmailEnabled).HasDefaultValue(true);
             entity.Property(e => e.WhatsAppEnabled).HasDefaultValue(false);
             entity.Property(e => e.PushEnabled).HasDefaultValue(false);
+            entity.Property(e => e.IsVerified).HasDefaultValue(false);
+            entity.Property(e => e.VerificationAttempts).HasDefaultValue(0);
         });
 
         // Configure NotificationQueue entity
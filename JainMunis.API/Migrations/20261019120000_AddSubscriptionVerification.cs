@@ -0,0 +1,64 @@
+using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace JainMunis.API.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddSubscriptionVerification : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            // Existing subscriptions start unverified: their addresses were never confirmed, so
+            // email and WhatsApp wait until the owner enters a code from the recover flow
+            migrationBuilder.AddColumn<bool>(
+                name: "IsVerified",
+                table: "NotificationSubscriptions",
+                type: "bit",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<int>(
+                name: "VerificationAttempts",
+                table: "NotificationSubscriptions",
+                type: "int",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "VerificationCodeExpiresAt",
+                table: "NotificationSubscriptions",
+                type: "datetime2",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "VerificationCodeHash",
+                table: "NotificationSubscriptions",
+                type: "nvarchar(100)",
+                maxLength: 100,
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "IsVerified",
+                table: "NotificationSubscriptions");
+
+            migrationBuilder.DropColumn(
+                name: "VerificationAttempts",
+                table: "NotificationSubscriptions");
+
+            migrationBuilder.DropColumn(
+                name: "VerificationCodeExpiresAt",
+                table: "NotificationSubscriptions");
+
+            migrationBuilder.DropColumn(
+                name: "VerificationCodeHash",
+                table: "NotificationSubscriptions");
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+namespace JainMunis.API.Models.DTOs;
+
+public class ActivityLogDto
+{
+    public Guid Id { get; set; }
+    public string? AdminUserId { get; set; }
+    public string? AdminUsername { get; set; }
+    public string Action { get; set; } = string.Empty;
+    public string? EntityType { get; set; }
+    public Guid? EntityId { get; set; }
+    public string? OldValues { get; set; }
+    public string? NewValues { get; set; }
+    public string? IpAddress { get; set; }
+    public DateTime CreatedAt { get; set; }
+}
+
+public class ActivityLogSearchParams
+{
+    public string? AdminUserId { get; set; }
+    public string? EntityType { get; set; }
+    public string? Action { get; set; }
+    public DateTime? DateFrom { get; set; }
+    public DateTime? DateTo { get; set; }
+}
\ No newline at end of file
@@ -15,7 +15,29 @@ public class LoginResponse
 {
     public string Token { get; set; } = string.Empty;
     public DateTime ExpiresAt { get; set; }
+    public string RefreshToken { get; set; } = string.Empty;
+    public DateTime RefreshExpiresAt { get; set; }
     public UserDto User { get; set; } = null!;
+
+    // Set instead of a session when the password was right but an authenticator code is still needed
+    public bool RequiresTwoFactor { get; set; }
+    public string? ChallengeToken { get; set; }
+}
+
+public class TwoFactorLoginRequest
+{
+    [Required]
+    public string ChallengeToken { get; set; } = string.Empty;
+
+    // Either a 6-digit authenticator code or one of the recovery codes
+    [Required]
+    public string Code { get; set; } = string.Empty;
+}
+
+// In cookie mode the refresh token arrives in an httpOnly cookie instead
+public class RefreshTokenRequest
+{
+    public string RefreshToken { get; set; } = string.Empty;
 }
 
 public class UserDto
@@ -24,8 +46,10 @@ public class UserDto
     public string Username { get; set; } = string.Empty;
     public string Email { get; set; } = string.Empty;
     public string Role { get; set; } = string.Empty;
+    public List<string> Cities { get; set; } = new();
     public DateTime? LastLogin { get; set; }
     public bool IsActive { get; set; }
+    public bool TwoFactorEnabled { get; set; }
 }
 
 public class CreateUserRequest
@@ -44,6 +68,7 @@ public class CreateUserRequest
 
     public string Role { get; set; } = "admin";
     public string? Permissions { get; set; }
+    public List<string>? Cities { get; set; }
     public bool IsActive { get; set; } = true;
 }
 
@@ -52,5 +77,59 @@ public class UpdateUserRequest
     public string? Email { get; set; }
     public string? Role { get; set; }
     public string? Permissions { get; set; }
+    public List<string>? Cities { get; set; }
     public bool? IsActive { get; set; }
+}
+
+public class InviteUserRequest
+{
+    [Required]
+    [EmailAddress]
+    public string Email { get; set; } = string.Empty;
+
+    [Required]
+    [StringLength(100, MinimumLength = 3)]
+    public string Username { get; set; } = string.Empty;
+
+    public string Role { get; set; } = "editor";
+    public List<string>? Cities { get; set; }
+}
+
+// Returned once when an account is invited or its password is reset
+public class UserCredentialsResponse
+{
+    public UserDto User { get; set; } = new();
+    public string TemporaryPassword { get; set; } = string.Empty;
+    public bool EmailSent { get; set; }
+}
+
+public class TwoFactorStatusResponse
+{
+    public bool Enabled { get; set; }
+    public int RecoveryCodesLeft { get; set; }
+}
+
+// The key is only shown while enrolling; it is not active until a code from it is confirmed
+public class TwoFactorSetupResponse
+{
+    public string SharedKey { get; set; } = string.Empty;
+    public string AuthenticatorUri { get; set; } = string.Empty;
+    public string QrCodeImage { get; set; } = string.Empty;
+}
+
+public class TwoFactorCodeRequest
+{
+    [Required]
+    public string Code { get; set; } = string.Empty;
+}
+
+public class DisableTwoFactorRequest
+{
+    [Required]
+    public string Password { get; set; } = string.Empty;
+}
+
+public class RecoveryCodesResponse
+{
+    public List<string> RecoveryCodes { get; set; } = new();
 }
\ No newline at end of file
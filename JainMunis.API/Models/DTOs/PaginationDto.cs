@@ -35,12 +35,16 @@ public class SearchParams
     public string? Search { get; set; }
     public string? City { get; set; }
     public string? State { get; set; }
+    public string? Lineage { get; set; }
     public bool? IsActive { get; set; }
+    public bool? CurrentOnly { get; set; }
     public DateTime? DateFrom { get; set; }
     public DateTime? DateTo { get; set; }
+    public bool? Overlapping { get; set; } // DateFrom/DateTo match stays that overlap the range rather than fall inside it
     public decimal? Latitude { get; set; }
     public decimal? Longitude { get; set; }
     public int? RadiusKm { get; set; }
     public Guid? SaintId { get; set; }
     public int? DaysAhead { get; set; }
+    public DateTime? CreatedFrom { get; set; } // Records added on or after this instant, for dashboard counts
 }
\ No newline at end of file
@@ -29,6 +29,7 @@ public class CreateScheduleRequest
     public string? Notes { get; set; }
     public string? ContactPerson { get; set; }
     public string? ContactPhone { get; set; }
+    public bool AllowOverlap { get; set; } // admin explicitly accepted overlapping schedules
 }
 
 public class UpdateScheduleRequest
@@ -41,4 +42,5 @@ public class UpdateScheduleRequest
     public string? Notes { get; set; }
     public string? ContactPerson { get; set; }
     public string? ContactPhone { get; set; }
+    public bool AllowOverlap { get; set; } // admin explicitly accepted overlapping schedules
 }
\ No newline at end of file
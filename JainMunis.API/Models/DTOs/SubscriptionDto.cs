@@ -0,0 +1,61 @@
+namespace JainMunis.API.Models.DTOs;
+
+public class SubscriptionDto
+{
+    public Guid Id { get; set; }
+    public string UserIdentifier { get; set; } = string.Empty;
+    public bool EmailEnabled { get; set; }
+    public bool WhatsAppEnabled { get; set; }
+    public bool PushEnabled { get; set; }
+    public bool IsVerified { get; set; }
+    public List<string> PreferredCities { get; set; } = new();
+    public List<Guid> FollowedSaints { get; set; } = new();
+    public List<string> NotificationTypes { get; set; } = new();
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+}
+
+public class CreateSubscriptionRequest
+{
+    public string UserIdentifier { get; set; } = string.Empty;
+    public bool EmailEnabled { get; set; } = true;
+    public bool WhatsAppEnabled { get; set; }
+    public bool PushEnabled { get; set; }
+    public List<string>? PreferredCities { get; set; }
+    public List<Guid>? FollowedSaints { get; set; }
+    public List<string>? NotificationTypes { get; set; }
+}
+
+public class UpdateSubscriptionRequest
+{
+    public bool? EmailEnabled { get; set; }
+    public bool? WhatsAppEnabled { get; set; }
+    public bool? PushEnabled { get; set; }
+    public List<string>? PreferredCities { get; set; }
+    public List<Guid>? FollowedSaints { get; set; }
+    public List<string>? NotificationTypes { get; set; }
+}
+
+public class SubscriptionCodeRequest
+{
+    public string UserIdentifier { get; set; } = string.Empty;
+}
+
+public class VerifySubscriptionRequest
+{
+    public string UserIdentifier { get; set; } = string.Empty;
+    public string Code { get; set; } = string.Empty;
+}
+
+// Shape of PushSubscription.toJSON() in the browser
+public class PushSubscriptionRequest
+{
+    public string Endpoint { get; set; } = string.Empty;
+    public PushSubscriptionKeys Keys { get; set; } = new();
+}
+
+public class PushSubscriptionKeys
+{
+    public string P256dh { get; set; } = string.Empty;
+    public string Auth { get; set; } = string.Empty;
+}
\ No newline at end of file
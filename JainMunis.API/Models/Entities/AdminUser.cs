@@ -6,7 +6,7 @@ namespace JainMunis.API.Models.Entities;
 public class AdminUser : IdentityUser
 {
     [MaxLength(50)]
-    public string Role { get; set; } = "admin"; // admin, super_admin, view_only
+    public string Role { get; set; } = "admin"; // See AdminRoles
 
     public string? Permissions { get; set; } // JSON string for granular permissions
 
@@ -25,6 +25,16 @@ public class NotificationSubscription
 
     public string? NotificationTypes { get; set; } // JSON string for detailed preferences
 
+    // Email and WhatsApp only go to an identifier whose owner has entered the code sent to it
+    public bool IsVerified { get; set; } = false;
+
+    [MaxLength(100)]
+    public string? VerificationCodeHash { get; set; }
+
+    public DateTime? VerificationCodeExpiresAt { get; set; }
+
+    public int VerificationAttempts { get; set; } = 0;
+
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
 
     public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
@@ -34,6 +34,10 @@ builder.Services.AddIdentity<AdminUser, IdentityRole>(options =>
     options.Password.RequireNonAlphanumeric = false;
     options.Password.RequireUppercase = true;
     options.Password.RequireLowercase = true;
+
+    // Wrong passwords and wrong two-factor codes share this limit
+    options.Lockout.MaxFailedAccessAttempts = 5;
+    options.Lockout.DefaultLockoutTimeSpan = TimeSpan.FromMinutes(15);
 })
 .AddEntityFrameworkStores<ApplicationDbContext>()
 .AddDefaultTokenProviders();
@@ -59,9 +63,30 @@ builder.Services.AddAuthentication(options =>
         ValidAudience = jwtSettings["Audience"],
         IssuerSigningKey = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(secretKey))
     };
+
+    // A deactivated, demoted or reset account loses access on its next request, not when its token runs out
+    options.Events = new JwtBearerEvents
+    {
+        OnTokenValidated = async context =>
+        {
+            var authService = context.HttpContext.RequestServices.GetRequiredService<IAuthService>();
+            if (context.Principal == null || !await authService.IsSessionValidAsync(context.Principal))
+            {
+                context.Fail("This session is no longer valid");
+            }
+        }
+    };
 });
 
-builder.Services.AddAuthorization();
+builder.Services.AddAuthorization(options =>
+{
+    options.AddPolicy(AdminRoles.ManageSaintsPolicy, policy =>
+        policy.RequireRole(AdminRoles.SuperAdmin, AdminRoles.Editor, AdminRoles.Admin));
+    options.AddPolicy(AdminRoles.ManageSchedulesPolicy, policy =>
+        policy.RequireRole(AdminRoles.SuperAdmin, AdminRoles.Editor, AdminRoles.Admin, AdminRoles.CityCoordinator));
+    options.AddPolicy(AdminRoles.ManageLocationsPolicy, policy =>
+        policy.RequireRole(AdminRoles.SuperAdmin, AdminRoles.Editor, AdminRoles.Admin, AdminRoles.CityCoordinator));
+});
 
 // CORS
 builder.Services.AddCors(options =>
@@ -85,10 +110,21 @@ builder.Services.AddStackExchangeRedisCache(options =>
 builder.Services.AddMonitoring(builder.Configuration, builder.Environment);
 
 // Custom services
+builder.Services.AddHttpContextAccessor();
 builder.Services.AddScoped<IAuthService, AuthService>();
+builder.Services.AddScoped<ITwoFactorService, TwoFactorService>();
 builder.Services.AddScoped<ISaintService, SaintService>();
 builder.Services.AddScoped<ILocationService, LocationService>();
 builder.Services.AddScoped<IScheduleService, ScheduleService>();
+builder.Services.AddScoped<IActivityLogService, ActivityLogService>();
+builder.Services.AddScoped<ISubscriptionService, SubscriptionService>();
+builder.Services.AddScoped<IPushNotificationService, PushNotificationService>();
+builder.Services.AddSingleton<IPushNotificationQueue, PushNotificationQueue>();
+builder.Services.AddHostedService<PushNotificationWorker>();
+// Push endpoints are devotee-supplied URLs, so one slow or hostile endpoint gets a short leash
+builder.Services.AddHttpClient("WebPush", client => client.Timeout = TimeSpan.FromSeconds(10))
+    .ConfigurePrimaryHttpMessageHandler(() => PushNotificationService.CreateHttpHandler(
+        PushNotificationService.AllowInsecureEndpoints(builder.Configuration)));
 builder.Services.AddSingleton<IJwtService, JwtService>();
 builder.Services.AddScoped<IEmailService, EmailService>();
 
@@ -0,0 +1,110 @@
+using Microsoft.EntityFrameworkCore;
+using JainMunis.API.Data;
+using JainMunis.API.Models.DTOs;
+using JainMunis.API.Models.Entities;
+
+namespace JainMunis.API.Services;
+
+public class ActivityLogService : IActivityLogService
+{
+    private readonly ApplicationDbContext _context;
+
+    public ActivityLogService(ApplicationDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<(List<ActivityLogDto> logs, int total)> GetActivityLogsAsync(int page, int limit, ActivityLogSearchParams? searchParams = null)
+    {
+        var query = _context.ActivityLogs
+            .Include(a => a.AdminUser)
+            .AsQueryable();
+
+        // Apply filters
+        if (searchParams != null)
+        {
+            if (!string.IsNullOrWhiteSpace(searchParams.AdminUserId))
+            {
+                query = query.Where(a => a.AdminUserId == searchParams.AdminUserId);
+            }
+
+            if (!string.IsNullOrWhiteSpace(searchParams.EntityType))
+            {
+                query = query.Where(a => a.EntityType != null && a.EntityType.ToLower() == searchParams.EntityType.ToLower());
+            }
+
+            if (!string.IsNullOrWhiteSpace(searchParams.Action))
+            {
+                query = query.Where(a => a.Action == searchParams.Action.ToUpper());
+            }
+
+            // CreatedAt is stored in UTC, so normalise the bound before comparing
+            if (searchParams.DateFrom.HasValue)
+            {
+                var dateFrom = searchParams.DateFrom.Value.ToUniversalTime();
+                query = query.Where(a => a.CreatedAt >= dateFrom);
+            }
+
+            if (searchParams.DateTo.HasValue)
+            {
+                var dateTo = searchParams.DateTo.Value.ToUniversalTime();
+                query = query.Where(a => a.CreatedAt <= dateTo);
+            }
+        }
+
+        // Get total count
+        var total = await query.CountAsync();
+
+        // Apply pagination
+        var logs = await query
+            .OrderByDescending(a => a.CreatedAt)
+            .Skip((page - 1) * limit)
+            .Take(limit)
+            .ToListAsync();
+
+        return (logs.Select(ConvertToDto).ToList(), total);
+    }
+
+    public async Task<List<UserDto>> GetLoggedAdminsAsync()
+    {
+        // Only admins who have actually made changes are useful as a filter
+        var adminIds = _context.ActivityLogs
+            .Where(a => a.AdminUserId != null)
+            .Select(a => a.AdminUserId)
+            .Distinct();
+
+        var admins = await _context.Users
+            .Where(u => adminIds.Contains(u.Id))
+            .OrderBy(u => u.UserName)
+            .ToListAsync();
+
+        return admins.Select(u => new UserDto
+        {
+            Id = Guid.Parse(u.Id),
+            Username = u.UserName!,
+            Email = u.Email!,
+            Role = u.Role ?? "admin",
+            Cities = AdminRoles.GetCities(u.Permissions),
+            LastLogin = u.LastLogin,
+            IsActive = u.IsActive,
+            TwoFactorEnabled = u.TwoFactorEnabled
+        }).ToList();
+    }
+
+    private ActivityLogDto ConvertToDto(ActivityLog log)
+    {
+        return new ActivityLogDto
+        {
+            Id = log.Id,
+            AdminUserId = log.AdminUserId,
+            AdminUsername = log.AdminUser?.UserName,
+            Action = log.Action,
+            EntityType = log.EntityType,
+            EntityId = log.EntityId,
+            OldValues = log.OldValues,
+            NewValues = log.NewValues,
+            IpAddress = log.IpAddress,
+            CreatedAt = log.CreatedAt
+        };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,68 @@
+using System.Text.Json;
+
+namespace JainMunis.API.Services;
+
+public static class AdminRoles
+{
+    public const string SuperAdmin = "super_admin";
+    public const string Editor = "editor";
+    public const string CityCoordinator = "city_coordinator";
+    public const string ViewOnly = "view_only";
+
+    // Accounts created before roles were split keep the original catch-all role, which acts as an editor
+    public const string Admin = "admin";
+
+    public static readonly string[] All = { SuperAdmin, Editor, CityCoordinator, ViewOnly, Admin };
+
+    // Policies guarding write endpoints. City coordinators pass them, and each action then checks the city with CanManageCity.
+    public const string ManageSaintsPolicy = "ManageSaints";
+    public const string ManageSchedulesPolicy = "ManageSchedules";
+    public const string ManageLocationsPolicy = "ManageLocations";
+
+    public static bool IsValid(string? role) => role != null && All.Contains(role);
+
+    // Only city coordinators are tied to cities; a place with no city is outside every coordinator's scope
+    public static bool CanManageCity(string? role, IEnumerable<string> cities, string? city) =>
+        role != CityCoordinator ||
+        (!string.IsNullOrWhiteSpace(city) && cities.Contains(city.Trim(), StringComparer.OrdinalIgnoreCase));
+
+    // A city coordinator's cities live in the user's Permissions JSON as {"cities": [...]}
+    public static List<string> GetCities(string? permissions)
+    {
+        if (string.IsNullOrWhiteSpace(permissions))
+        {
+            return new List<string>();
+        }
+
+        try
+        {
+            using var document = JsonDocument.Parse(permissions);
+            if (document.RootElement.ValueKind == JsonValueKind.Object &&
+                document.RootElement.TryGetProperty("cities", out var cities) &&
+                cities.ValueKind == JsonValueKind.Array)
+            {
+                return cities.EnumerateArray()
+                    .Where(city => city.ValueKind == JsonValueKind.String)
+                    .Select(city => city.GetString()!)
+                    .ToList();
+            }
+        }
+        catch (JsonException)
+        {
+            // Older free-form permission strings carry no city scope
+        }
+
+        return new List<string>();
+    }
+
+    public static string? SerializeCities(IEnumerable<string> cities)
+    {
+        var values = cities
+            .Where(city => !string.IsNullOrWhiteSpace(city))
+            .Select(city => city.Trim())
+            .Distinct(StringComparer.OrdinalIgnoreCase)
+            .ToList();
+
+        return values.Count == 0 ? null : JsonSerializer.Serialize(new { cities = values });
+    }
+}
\ No newline at end of file
@@ -3,27 +3,39 @@ using Microsoft.EntityFrameworkCore;
 using JainMunis.API.Data;
 using JainMunis.API.Models.DTOs;
 using JainMunis.API.Models.Entities;
+using System.Globalization;
+using System.Security.Claims;
+using System.Security.Cryptography;
+using System.Text;
 using System.Text.Json;
 
 namespace JainMunis.API.Services;
 
 public class AuthService : IAuthService
 {
+    private const string RefreshTokenProvider = "JainMunis";
+    private const string TwoFactorChallengeName = "TwoFactorChallenge";
+    private static readonly TimeSpan TwoFactorChallengeLifetime = TimeSpan.FromMinutes(5);
+
     private readonly ApplicationDbContext _context;
     private readonly IJwtService _jwtService;
     private readonly UserManager<AdminUser> _userManager;
+    private readonly IHttpContextAccessor _httpContextAccessor;
+    private readonly int _refreshTokenDays;
 
-    public AuthService(ApplicationDbContext context, IJwtService jwtService, UserManager<AdminUser> userManager)
+    public AuthService(ApplicationDbContext context, IJwtService jwtService, UserManager<AdminUser> userManager, IHttpContextAccessor httpContextAccessor, IConfiguration configuration)
     {
         _context = context;
         _jwtService = jwtService;
         _userManager = userManager;
+        _httpContextAccessor = httpContextAccessor;
+        _refreshTokenDays = int.Parse(configuration.GetSection("JwtSettings:RefreshTokenDays").Value ?? "7");
     }
 
     public async Task<LoginResponse?> LoginAsync(LoginRequest request)
     {
         var user = await _userManager.FindByNameAsync(request.Username);
-        if (user == null || !user.IsActive)
+        if (user == null || !user.IsActive || await IsLockedOutAsync(user))
         {
             return null;
         }
@@ -31,32 +43,163 @@ public class AuthService : IAuthService
         var isValidPassword = await _userManager.CheckPasswordAsync(user, request.Password);
         if (!isValidPassword)
         {
+            await _userManager.AccessFailedAsync(user);
             return null;
         }
 
+        // The failure count carries over into the second step, so a fresh challenge buys no extra guesses
+        if (user.TwoFactorEnabled)
+        {
+            return await CreateTwoFactorChallengeAsync(user);
+        }
+
+        await _userManager.ResetAccessFailedCountAsync(user);
+
         // Update last login
         user.LastLogin = DateTime.UtcNow;
         await _userManager.UpdateAsync(user);
 
-        // Generate JWT token
-        var token = _jwtService.GenerateToken(user.UserName!, user.Id, user.Email!, user.Role ?? "admin");
+        return await CreateSessionAsync(user, Guid.NewGuid().ToString("N"));
+    }
 
-        var userDto = new UserDto
+    // Second login step: the challenge proves the password was right, the code proves the device
+    public async Task<LoginResponse?> CompleteTwoFactorLoginAsync(string challengeToken, string code)
+    {
+        var parts = challengeToken.Split('.');
+        if (parts.Length != 2)
         {
-            Id = Guid.Parse(user.Id),
-            Username = user.UserName!,
-            Email = user.Email!,
-            Role = user.Role ?? "admin",
-            LastLogin = user.LastLogin,
-            IsActive = user.IsActive
-        };
+            return null;
+        }
 
-        return new LoginResponse
+        var user = await _userManager.FindByIdAsync(parts[0]);
+        if (user == null || !user.IsActive || !user.TwoFactorEnabled || await IsLockedOutAsync(user))
         {
-            Token = token,
-            ExpiresAt = DateTime.UtcNow.AddHours(24),
-            User = userDto
-        };
+            return null;
+        }
+
+        var stored = await _userManager.GetAuthenticationTokenAsync(user, RefreshTokenProvider, TwoFactorChallengeName);
+        var storedParts = stored?.Split('|');
+        if (storedParts == null || storedParts.Length != 2 ||
+            !DateTime.TryParse(storedParts[1], CultureInfo.InvariantCulture, DateTimeStyles.RoundtripKind, out var expiresAt))
+        {
+            return null;
+        }
+
+        if (expiresAt < DateTime.UtcNow)
+        {
+            await _userManager.RemoveAuthenticationTokenAsync(user, RefreshTokenProvider, TwoFactorChallengeName);
+            return null;
+        }
+
+        // Anyone can send a bad challenge, so it must not cancel the real one
+        if (!CryptographicOperations.FixedTimeEquals(Encoding.UTF8.GetBytes(storedParts[0]), Encoding.UTF8.GetBytes(HashSecret(parts[1]))))
+        {
+            return null;
+        }
+
+        if (!await VerifyTwoFactorCodeAsync(user, code))
+        {
+            // A few typos are fine; guessing locks the account and the password has to be entered again afterwards
+            await _userManager.AccessFailedAsync(user);
+            if (await IsLockedOutAsync(user))
+            {
+                await _userManager.RemoveAuthenticationTokenAsync(user, RefreshTokenProvider, TwoFactorChallengeName);
+            }
+            return null;
+        }
+
+        await _userManager.RemoveAuthenticationTokenAsync(user, RefreshTokenProvider, TwoFactorChallengeName);
+        await _userManager.ResetAccessFailedCountAsync(user);
+
+        user.LastLogin = DateTime.UtcNow;
+        await _userManager.UpdateAsync(user);
+
+        return await CreateSessionAsync(user, Guid.NewGuid().ToString("N"));
+    }
+
+    // Exchanges a refresh token for a new access token, rotating the refresh token as it goes
+    public async Task<LoginResponse?> RefreshAsync(string refreshToken)
+    {
+        var parsed = ParseRefreshToken(refreshToken);
+        if (parsed == null)
+        {
+            return null;
+        }
+
+        var (userId, sessionId, secret) = parsed.Value;
+        var user = await _userManager.FindByIdAsync(userId);
+        if (user == null || !user.IsActive)
+        {
+            return null;
+        }
+
+        var stored = await _userManager.GetAuthenticationTokenAsync(user, RefreshTokenProvider, RefreshTokenName(sessionId));
+        var storedParts = stored?.Split('|');
+        if (storedParts == null || storedParts.Length != 2 ||
+            !DateTime.TryParse(storedParts[1], CultureInfo.InvariantCulture, DateTimeStyles.RoundtripKind, out var expiresAt))
+        {
+            return null;
+        }
+
+        if (expiresAt < DateTime.UtcNow ||
+            !CryptographicOperations.FixedTimeEquals(Encoding.UTF8.GetBytes(storedParts[0]), Encoding.UTF8.GetBytes(HashSecret(secret))))
+        {
+            await _userManager.RemoveAuthenticationTokenAsync(user, RefreshTokenProvider, RefreshTokenName(sessionId));
+            return null;
+        }
+
+        return await CreateSessionAsync(user, sessionId);
+    }
+
+    public async Task RevokeRefreshTokenAsync(string refreshToken)
+    {
+        var parsed = ParseRefreshToken(refreshToken);
+        if (parsed == null)
+        {
+            return;
+        }
+
+        var user = await _userManager.FindByIdAsync(parsed.Value.userId);
+        if (user != null)
+        {
+            await _userManager.RemoveAuthenticationTokenAsync(user, RefreshTokenProvider, RefreshTokenName(parsed.Value.sessionId));
+        }
+    }
+
+    // Signs the user out on every device once their access token lapses, e.g. after deactivation
+    public async Task RevokeAllSessionsAsync(string userId)
+    {
+        var sessions = await _context.UserTokens
+            .Where(t => t.UserId == userId && t.LoginProvider == RefreshTokenProvider)
+            .ToListAsync();
+
+        _context.UserTokens.RemoveRange(sessions);
+        await _context.SaveChangesAsync();
+    }
+
+    // Access tokens outlive a deactivation, role change or password reset unless each request checks the account again
+    public async Task<bool> IsSessionValidAsync(ClaimsPrincipal principal)
+    {
+        var userId = principal.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        var user = userId == null ? null : await _userManager.FindByIdAsync(userId);
+        return user != null &&
+               user.IsActive &&
+               principal.FindFirst(JwtService.SecurityStampClaim)?.Value == user.SecurityStamp;
+    }
+
+    // The policies decide who may write at all; this narrows city coordinators to their own cities.
+    // Cities are read from the database so a scope change applies to the very next request.
+    public async Task<bool> CanManageCitiesAsync(ClaimsPrincipal principal, params string?[] cities)
+    {
+        var userId = principal.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        var user = userId == null ? null : await _userManager.FindByIdAsync(userId);
+        if (user == null)
+        {
+            return false;
+        }
+
+        var allowedCities = AdminRoles.GetCities(user.Permissions);
+        return cities.All(city => AdminRoles.CanManageCity(user.Role, allowedCities, city));
     }
 
     public async Task<UserDto?> GetUserByIdAsync(Guid userId)
@@ -73,8 +216,10 @@ public class AuthService : IAuthService
             Username = user.UserName!,
             Email = user.Email!,
             Role = user.Role ?? "admin",
+            Cities = AdminRoles.GetCities(user.Permissions),
             LastLogin = user.LastLogin,
-            IsActive = user.IsActive
+            IsActive = user.IsActive,
+            TwoFactorEnabled = user.TwoFactorEnabled
         };
     }
 
@@ -92,27 +237,114 @@ public class AuthService : IAuthService
             Username = user.UserName!,
             Email = user.Email!,
             Role = user.Role ?? "admin",
+            Cities = AdminRoles.GetCities(user.Permissions),
             LastLogin = user.LastLogin,
-            IsActive = user.IsActive
+            IsActive = user.IsActive,
+            TwoFactorEnabled = user.TwoFactorEnabled
         };
     }
 
     public async Task LogActivityAsync(Guid? adminUserId, string action, string? entityType, Guid? entityId, string? oldValues, string? newValues, string? ipAddress, string? userAgent)
     {
+        // Fall back to the authenticated request when callers don't pass the actor explicitly
+        var httpContext = _httpContextAccessor.HttpContext;
+
         var activityLog = new ActivityLog
         {
-            AdminUserId = adminUserId?.ToString(),
+            AdminUserId = adminUserId?.ToString() ?? httpContext?.User.FindFirst(ClaimTypes.NameIdentifier)?.Value,
             Action = action,
             EntityType = entityType,
             EntityId = entityId,
             OldValues = oldValues,
             NewValues = newValues,
-            IpAddress = ipAddress,
-            UserAgent = userAgent,
+            IpAddress = ipAddress ?? httpContext?.Connection.RemoteIpAddress?.ToString(),
+            UserAgent = userAgent ?? httpContext?.Request.Headers.UserAgent.ToString(),
             CreatedAt = DateTime.UtcNow
         };
 
         _context.ActivityLogs.Add(activityLog);
         await _context.SaveChangesAsync();
     }
+
+    // Each signed-in device is its own session, so refreshing on one never signs out another.
+    // Refresh tokens read "{userId}.{sessionId}.{secret}"; only a hash of the secret is stored.
+    private async Task<LoginResponse> CreateSessionAsync(AdminUser user, string sessionId)
+    {
+        var secret = Convert.ToHexString(RandomNumberGenerator.GetBytes(32));
+        var refreshExpiresAt = DateTime.UtcNow.AddDays(_refreshTokenDays);
+        await _userManager.SetAuthenticationTokenAsync(
+            user,
+            RefreshTokenProvider,
+            RefreshTokenName(sessionId),
+            $"{HashSecret(secret)}|{refreshExpiresAt.ToString("O", CultureInfo.InvariantCulture)}");
+
+        var token = _jwtService.GenerateToken(user.UserName!, user.Id, user.Email!, user.Role ?? "admin", user.SecurityStamp ?? string.Empty);
+
+        return new LoginResponse
+        {
+            Token = token,
+            ExpiresAt = DateTime.UtcNow.Add(_jwtService.TokenLifetime),
+            RefreshToken = $"{user.Id}.{sessionId}.{secret}",
+            RefreshExpiresAt = refreshExpiresAt,
+            User = new UserDto
+            {
+                Id = Guid.Parse(user.Id),
+                Username = user.UserName!,
+                Email = user.Email!,
+                Role = user.Role ?? "admin",
+                Cities = AdminRoles.GetCities(user.Permissions),
+                LastLogin = user.LastLogin,
+                IsActive = user.IsActive,
+                TwoFactorEnabled = user.TwoFactorEnabled
+            }
+        };
+    }
+
+    // Challenge tokens read "{userId}.{secret}" and, like refresh tokens, only a hash of the secret is stored
+    private async Task<LoginResponse> CreateTwoFactorChallengeAsync(AdminUser user)
+    {
+        var secret = Convert.ToHexString(RandomNumberGenerator.GetBytes(32));
+        var expiresAt = DateTime.UtcNow.Add(TwoFactorChallengeLifetime);
+        await _userManager.SetAuthenticationTokenAsync(
+            user,
+            RefreshTokenProvider,
+            TwoFactorChallengeName,
+            $"{HashSecret(secret)}|{expiresAt.ToString("O", CultureInfo.InvariantCulture)}");
+
+        return new LoginResponse
+        {
+            RequiresTwoFactor = true,
+            ChallengeToken = $"{user.Id}.{secret}"
+        };
+    }
+
+    // Reads the lockout end directly: the seeded admin was created with lockout turned off, which IsLockedOutAsync honours
+    private async Task<bool> IsLockedOutAsync(AdminUser user)
+    {
+        var lockoutEnd = await _userManager.GetLockoutEndDateAsync(user);
+        return lockoutEnd.HasValue && lockoutEnd.Value > DateTimeOffset.UtcNow;
+    }
+
+    // Six digits are an authenticator code; anything else is tried as a single-use recovery code
+    private async Task<bool> VerifyTwoFactorCodeAsync(AdminUser user, string code)
+    {
+        var normalized = code.Replace(" ", string.Empty).Trim();
+        if (normalized.Length == 6 && normalized.All(char.IsDigit))
+        {
+            return await _userManager.VerifyTwoFactorTokenAsync(user, _userManager.Options.Tokens.AuthenticatorTokenProvider, normalized);
+        }
+
+        var result = await _userManager.RedeemTwoFactorRecoveryCodeAsync(user, normalized.ToUpperInvariant());
+        return result.Succeeded;
+    }
+
+    private static (string userId, string sessionId, string secret)? ParseRefreshToken(string refreshToken)
+    {
+        var parts = refreshToken.Split('.');
+        return parts.Length == 3 && parts.All(part => part.Length > 0) ? (parts[0], parts[1], parts[2]) : null;
+    }
+
+    private static string RefreshTokenName(string sessionId) => $"RefreshToken:{sessionId}";
+
+    private static string HashSecret(string secret) => Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(secret)));
 }
\ No newline at end of file
@@ -0,0 +1,126 @@
+using System.Globalization;
+using System.Text;
+using JainMunis.API.Models.DTOs;
+
+namespace JainMunis.API.Services;
+
+// Writes schedules as an iCalendar (RFC 5545) document of all-day events
+public static class CalendarFeedBuilder
+{
+    private const int MaxLineOctets = 75;
+
+    public static string Build(string calendarName, IEnumerable<ScheduleDto> schedules)
+    {
+        var lines = new List<string>
+        {
+            "BEGIN:VCALENDAR",
+            "VERSION:2.0",
+            "PRODID:-//Jain Munis//Schedules//EN",
+            "CALSCALE:GREGORIAN",
+            "METHOD:PUBLISH",
+            $"X-WR-CALNAME:{Escape(calendarName)}",
+            // Subscribed calendars poll the feed URL again after this long
+            "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+            "X-PUBLISHED-TTL:PT6H"
+        };
+
+        foreach (var schedule in schedules)
+        {
+            lines.AddRange(BuildEvent(schedule));
+        }
+
+        lines.Add("END:VCALENDAR");
+
+        var builder = new StringBuilder();
+        foreach (var line in lines)
+        {
+            builder.Append(Fold(line)).Append("\r\n");
+        }
+
+        return builder.ToString();
+    }
+
+    private static IEnumerable<string> BuildEvent(ScheduleDto schedule)
+    {
+        var saintName = schedule.Saint != null
+            ? $"{(string.IsNullOrEmpty(schedule.Saint.Title) ? "" : $"{schedule.Saint.Title} ")}{schedule.Saint.Name}"
+            : "Saint";
+
+        // A stable UID lets subscribed calendars update the event in place when the schedule changes
+        yield return "BEGIN:VEVENT";
+        yield return $"UID:schedule-{schedule.Id}@jainmunis.app";
+        yield return $"DTSTAMP:{schedule.UpdatedAt.ToUniversalTime():yyyyMMdd'T'HHmmss'Z'}";
+        yield return $"LAST-MODIFIED:{schedule.UpdatedAt.ToUniversalTime():yyyyMMdd'T'HHmmss'Z'}";
+        yield return $"DTSTART;VALUE=DATE:{schedule.StartDate:yyyyMMdd}";
+        // All-day DTEND is exclusive, while EndDate is the last day of the stay
+        yield return $"DTEND;VALUE=DATE:{schedule.EndDate.AddDays(1):yyyyMMdd}";
+        yield return $"SUMMARY:{Escape(schedule.Location != null ? $"{saintName} at {schedule.Location.Name}" : saintName)}";
+
+        if (schedule.Location != null)
+        {
+            var address = new[] { schedule.Location.Name, schedule.Location.Address, schedule.Location.City, schedule.Location.State, schedule.Location.PostalCode }
+                .Where(part => !string.IsNullOrWhiteSpace(part));
+            yield return $"LOCATION:{Escape(string.Join(", ", address))}";
+
+            if (schedule.Location.Latitude.HasValue && schedule.Location.Longitude.HasValue)
+            {
+                yield return $"GEO:{schedule.Location.Latitude.Value.ToString(CultureInfo.InvariantCulture)};{schedule.Location.Longitude.Value.ToString(CultureInfo.InvariantCulture)}";
+            }
+        }
+
+        var description = new List<string>();
+        if (!string.IsNullOrWhiteSpace(schedule.Purpose))
+            description.Add($"Purpose: {schedule.Purpose}");
+        if (!string.IsNullOrWhiteSpace(schedule.ContactPerson) || !string.IsNullOrWhiteSpace(schedule.ContactPhone))
+            description.Add($"Contact: {string.Join(" ", new[] { schedule.ContactPerson, schedule.ContactPhone }.Where(part => !string.IsNullOrWhiteSpace(part)))}");
+        if (!string.IsNullOrWhiteSpace(schedule.Notes))
+            description.Add(schedule.Notes);
+
+        if (description.Count > 0)
+        {
+            yield return $"DESCRIPTION:{Escape(string.Join("\n", description))}";
+        }
+
+        yield return "TRANSP:TRANSPARENT";
+        yield return "END:VEVENT";
+    }
+
+    private static string Escape(string value)
+    {
+        return value
+            .Replace("\\", "\\\\")
+            .Replace(";", "\\;")
+            .Replace(",", "\\,")
+            .Replace("\r\n", "\\n")
+            .Replace("\n", "\\n");
+    }
+
+    // Content lines longer than 75 octets continue on the next line after a single space,
+    // splitting only between characters so multi-byte text stays intact
+    private static string Fold(string line)
+    {
+        if (Encoding.UTF8.GetByteCount(line) <= MaxLineOctets)
+        {
+            return line;
+        }
+
+        var builder = new StringBuilder();
+        var lineOctets = 0;
+        var enumerator = StringInfo.GetTextElementEnumerator(line);
+        while (enumerator.MoveNext())
+        {
+            var element = enumerator.GetTextElement();
+            var octets = Encoding.UTF8.GetByteCount(element);
+            if (lineOctets + octets > MaxLineOctets)
+            {
+                builder.Append("\r\n ");
+                lineOctets = 1;
+            }
+
+            builder.Append(element);
+            lineOctets += octets;
+        }
+
+        return builder.ToString();
+    }
+}
\ No newline at end of file
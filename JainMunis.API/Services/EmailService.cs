@@ -204,6 +204,44 @@ public class EmailService : IEmailService
         }
     }
 
+    public async Task<bool> SendSubscriptionCodeEmailAsync(string to, string code)
+    {
+        try
+        {
+            var subject = "Your Jain Munis notification code";
+            var preferencesLink = $"{_configuration["App:BaseUrl"]}/notifications";
+
+            var htmlContent = GenerateSubscriptionCodeHtml(code, preferencesLink);
+            var plainTextContent = GenerateSubscriptionCodeText(code, preferencesLink);
+
+            return await SendEmailAsync(to, subject, htmlContent, plainTextContent);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error sending subscription code to {Email}", to);
+            return false;
+        }
+    }
+
+    public async Task<bool> SendAdminCredentialsEmailAsync(string to, string userName, string temporaryPassword, bool isReset)
+    {
+        try
+        {
+            var subject = isReset ? "Your Jain Munis admin password was reset" : "You've been invited to the Jain Munis admin panel";
+            var loginLink = $"{_configuration["App:BaseUrl"]}/admin/login";
+
+            var htmlContent = GenerateAdminCredentialsHtml(userName, temporaryPassword, loginLink, isReset);
+            var plainTextContent = GenerateAdminCredentialsText(userName, temporaryPassword, loginLink, isReset);
+
+            return await SendEmailAsync(to, subject, htmlContent, plainTextContent);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error sending admin credentials to {Email}", to);
+            return false;
+        }
+    }
+
     private string GenerateWeeklyDigestHtml(Dictionary<string, object> digestData)
     {
         var cities = digestData.GetValueOrDefault("cities") as List<object> ?? new List<object>();
@@ -533,4 +571,102 @@ Important: This verification link will expire in 24 hours.
 
 If you didn't request this verification, please ignore this email.";
     }
+
+    private string GenerateSubscriptionCodeHtml(string code, string preferencesLink)
+    {
+        return $@"
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset='utf-8'>
+    <title>Your Jain Munis notification code</title>
+</head>
+<body style='font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;'>
+    <div style='background-color: #f8f9fa; padding: 30px; border-radius: 8px; text-align: center; border-left: 5px solid #007bff;'>
+        <h1 style='color: #2c3e50; margin: 0;'>🔔 Your notification code</h1>
+        <p style='color: #7f8c8d; margin: 15px 0;'>Enter this code on the <a href='{preferencesLink}'>notification preferences</a> page to confirm this address and manage your notifications.</p>
+    </div>
+
+    <div style='margin: 30px 0; text-align: center;'>
+        <code style='font-size: 32px; letter-spacing: 8px; color: #2c3e50;'>{code}</code>
+    </div>
+
+    <div style='background-color: #fff3cd; border: 1px solid #ffeaa7; border-radius: 8px; padding: 15px; margin: 20px 0;'>
+        <p style='color: #856404; margin: 0; text-align: center;'>
+            <strong>Important:</strong> This code expires in 15 minutes. If you didn't ask for it, you can ignore this email.
+        </p>
+    </div>
+</body>
+</html>";
+    }
+
+    private string GenerateSubscriptionCodeText(string code, string preferencesLink)
+    {
+        return $@"🔔 Your notification code
+
+Enter this code on the notification preferences page to confirm this address and manage your notifications:
+
+{code}
+
+{preferencesLink}
+
+Important: This code expires in 15 minutes. If you didn't ask for it, you can ignore this email.";
+    }
+
+    private string GenerateAdminCredentialsHtml(string userName, string temporaryPassword, string loginLink, bool isReset)
+    {
+        var intro = isReset
+            ? "A super admin has reset your password for the Jain Munis admin panel."
+            : "A super admin has created an account for you on the Jain Munis admin panel.";
+
+        return $@"
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset='utf-8'>
+    <title>Jain Munis Admin Panel</title>
+</head>
+<body style='font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;'>
+    <div style='background-color: #f8f9fa; padding: 30px; border-radius: 8px; text-align: center; border-left: 5px solid #007bff;'>
+        <h1 style='color: #2c3e50; margin: 0;'>🙏 Jai Jinendra, {userName}</h1>
+        <p style='color: #7f8c8d; margin: 15px 0;'>{intro}</p>
+    </div>
+
+    <div style='margin: 20px 0; background-color: #ffffff; border: 1px solid #e1e8ed; border-radius: 8px; padding: 20px;'>
+        <p style='margin: 0 0 10px 0; color: #2c3e50;'><strong>Username:</strong> {userName}</p>
+        <p style='margin: 0; color: #2c3e50;'><strong>Temporary password:</strong> <code style='font-size: 16px;'>{temporaryPassword}</code></p>
+    </div>
+
+    <div style='margin: 30px 0; text-align: center;'>
+        <a href='{loginLink}' style='background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; font-weight: bold; font-size: 16px; display: inline-block;'>
+            Sign In
+        </a>
+    </div>
+
+    <div style='background-color: #fff3cd; border: 1px solid #ffeaa7; border-radius: 8px; padding: 15px; margin: 20px 0;'>
+        <p style='color: #856404; margin: 0; text-align: center;'>
+            <strong>Important:</strong> Keep this password private and sign in soon.
+        </p>
+    </div>
+</body>
+</html>";
+    }
+
+    private string GenerateAdminCredentialsText(string userName, string temporaryPassword, string loginLink, bool isReset)
+    {
+        var intro = isReset
+            ? "A super admin has reset your password for the Jain Munis admin panel."
+            : "A super admin has created an account for you on the Jain Munis admin panel.";
+
+        return $@"🙏 Jai Jinendra, {userName}
+
+{intro}
+
+Username: {userName}
+Temporary password: {temporaryPassword}
+
+Sign in: {loginLink}
+
+Important: Keep this password private and sign in soon.";
+    }
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+namespace JainMunis.API.Services;
+
+public static class GeoDistance
+{
+    private const double EarthRadiusKm = 6371;
+
+    // Great-circle distance between two points using the haversine formula
+    public static double Kilometers(decimal lat1, decimal lng1, decimal lat2, decimal lng2)
+    {
+        var dLat = ToRadians((double)(lat2 - lat1));
+        var dLng = ToRadians((double)(lng2 - lng1));
+        var a = Math.Sin(dLat / 2) * Math.Sin(dLat / 2) +
+                Math.Cos(ToRadians((double)lat1)) * Math.Cos(ToRadians((double)lat2)) *
+                Math.Sin(dLng / 2) * Math.Sin(dLng / 2);
+
+        return EarthRadiusKm * 2 * Math.Atan2(Math.Sqrt(a), Math.Sqrt(1 - a));
+    }
+
+    // Cheap rectangular pre-filter that the database can evaluate before the exact distance check
+    public static (decimal minLat, decimal maxLat, decimal minLng, decimal maxLng) BoundingBox(decimal latitude, decimal longitude, int radiusKm)
+    {
+        var latDelta = radiusKm / 111.0;
+        var lngDelta = radiusKm / (111.0 * Math.Max(Math.Cos(ToRadians((double)latitude)), 0.01));
+
+        return (
+            latitude - (decimal)latDelta,
+            latitude + (decimal)latDelta,
+            longitude - (decimal)lngDelta,
+            longitude + (decimal)lngDelta
+        );
+    }
+
+    private static double ToRadians(double degrees) => degrees * Math.PI / 180;
+}
\ No newline at end of file
@@ -0,0 +1,9 @@
+using JainMunis.API.Models.DTOs;
+
+namespace JainMunis.API.Services;
+
+public interface IActivityLogService
+{
+    Task<(List<ActivityLogDto> logs, int total)> GetActivityLogsAsync(int page, int limit, ActivityLogSearchParams? searchParams = null);
+    Task<List<UserDto>> GetLoggedAdminsAsync();
+}
\ No newline at end of file
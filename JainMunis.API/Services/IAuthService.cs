@@ -1,3 +1,4 @@
+using System.Security.Claims;
 using JainMunis.API.Models.DTOs;
 
 namespace JainMunis.API.Services;
@@ -5,6 +6,12 @@ namespace JainMunis.API.Services;
 public interface IAuthService
 {
     Task<LoginResponse?> LoginAsync(LoginRequest request);
+    Task<LoginResponse?> CompleteTwoFactorLoginAsync(string challengeToken, string code);
+    Task<LoginResponse?> RefreshAsync(string refreshToken);
+    Task RevokeRefreshTokenAsync(string refreshToken);
+    Task RevokeAllSessionsAsync(string userId);
+    Task<bool> IsSessionValidAsync(ClaimsPrincipal principal);
+    Task<bool> CanManageCitiesAsync(ClaimsPrincipal principal, params string?[] cities);
     Task<UserDto?> GetUserByIdAsync(Guid userId);
     Task<UserDto?> GetUserByEmailAsync(string email);
     Task LogActivityAsync(Guid? adminUserId, string action, string? entityType, Guid? entityId, string? oldValues, string? newValues, string? ipAddress, string? userAgent);
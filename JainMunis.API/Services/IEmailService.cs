@@ -12,4 +12,6 @@ public interface IEmailService
     Task<bool> SendScheduleNotificationAsync(string to, Dictionary<string, object> scheduleData);
     Task<bool> SendWelcomeEmailAsync(string to, string userName);
     Task<bool> SendVerificationEmailAsync(string to, string verificationToken);
+    Task<bool> SendAdminCredentialsEmailAsync(string to, string userName, string temporaryPassword, bool isReset);
+    Task<bool> SendSubscriptionCodeEmailAsync(string to, string code);
 }
\ No newline at end of file
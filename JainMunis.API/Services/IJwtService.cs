@@ -4,7 +4,8 @@ namespace JainMunis.API.Services;
 
 public interface IJwtService
 {
-    string GenerateToken(string username, string userId, string email, string role);
+    TimeSpan TokenLifetime { get; }
+    string GenerateToken(string username, string userId, string email, string role, string securityStamp);
     string? ValidateToken(string token);
     ClaimsPrincipal? GetPrincipalFromToken(string token);
 }
\ No newline at end of file
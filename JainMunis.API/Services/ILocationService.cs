@@ -9,6 +9,7 @@ public interface ILocationService
     Task<LocationDto> CreateLocationAsync(CreateLocationRequest request);
     Task<LocationDto?> UpdateLocationAsync(Guid id, UpdateLocationRequest request);
     Task<bool> DeleteLocationAsync(Guid id);
-    Task<List<string>> GetCitiesAsync(string? query = null);
+    Task<List<string>> GetCitiesAsync(string? query = null, string? state = null);
+    Task<List<string>> GetStatesAsync();
     Task<List<LocationDto>> GetLocationsByCityAsync(string city);
 }
\ No newline at end of file
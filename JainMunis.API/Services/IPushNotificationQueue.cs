@@ -0,0 +1,11 @@
+using JainMunis.API.Models.DTOs;
+
+namespace JainMunis.API.Services;
+
+public interface IPushNotificationQueue
+{
+    void QueueScheduleChanged(ScheduleDto schedule, bool isNewSchedule);
+    IAsyncEnumerable<ScheduleChangeNotification> ReadAllAsync(CancellationToken cancellationToken);
+}
+
+public record ScheduleChangeNotification(ScheduleDto Schedule, bool IsNewSchedule);
\ No newline at end of file
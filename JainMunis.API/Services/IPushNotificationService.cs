@@ -0,0 +1,10 @@
+using JainMunis.API.Models.DTOs;
+
+namespace JainMunis.API.Services;
+
+public interface IPushNotificationService
+{
+    string? PublicKey { get; }
+    bool IsAllowedEndpoint(string? endpoint);
+    Task NotifyScheduleChangedAsync(ScheduleDto schedule, bool isNewSchedule);
+}
\ No newline at end of file
@@ -12,4 +12,5 @@ public interface ISaintService
     Task<string> UpdateSaintPhotoAsync(Guid id, IFormFile photoFile);
     Task<List<SaintDto>> GetSaintsByCityAsync(string city);
     Task<List<SaintDto>> GetNearbySaintsAsync(decimal latitude, decimal longitude, int radiusKm);
+    Task<List<string>> GetLineagesAsync();
 }
\ No newline at end of file
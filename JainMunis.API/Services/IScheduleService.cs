@@ -12,5 +12,8 @@ public interface IScheduleService
     Task<List<ScheduleDto>> GetCurrentSchedulesAsync(SearchParams? searchParams = null);
     Task<List<ScheduleDto>> GetUpcomingSchedulesAsync(SearchParams? searchParams = null);
     Task<List<ScheduleDto>> GetSchedulesBySaintAsync(Guid saintId);
+    Task<List<ScheduleDto>> GetNearbySchedulesAsync(decimal latitude, decimal longitude, int radiusKm, bool currentOnly);
+    Task<List<ScheduleDto>> GetMatchingSchedulesAsync(IEnumerable<Guid> saintIds, SearchParams searchParams);
+    Task<List<ScheduleDto>> GetUnfinishedSchedulesAsync(SearchParams searchParams);
     Task<List<ScheduleDto>> CheckOverlapsAsync(Guid saintId, DateOnly startDate, DateOnly endDate, Guid? excludeScheduleId = null);
 }
\ No newline at end of file
@@ -0,0 +1,13 @@
+using JainMunis.API.Models.DTOs;
+
+namespace JainMunis.API.Services;
+
+public interface ISubscriptionService
+{
+    Task<SubscriptionDto?> GetSubscriptionByIdAsync(Guid id);
+    Task SendVerificationCodeAsync(string userIdentifier, CreateSubscriptionRequest? newSubscription);
+    Task<SubscriptionDto?> VerifyAsync(string userIdentifier, string code);
+    Task<SubscriptionDto?> UpdateSubscriptionAsync(Guid id, UpdateSubscriptionRequest request);
+    Task<SubscriptionDto?> SetPushSubscriptionAsync(Guid id, PushSubscriptionRequest? pushSubscription);
+    Task<bool> DeleteSubscriptionAsync(Guid id);
+}
\ No newline at end of file
@@ -0,0 +1,13 @@
+using JainMunis.API.Models.DTOs;
+
+namespace JainMunis.API.Services;
+
+public interface ITwoFactorService
+{
+    Task<TwoFactorStatusResponse?> GetStatusAsync(string userId);
+    Task<TwoFactorSetupResponse?> BeginSetupAsync(string userId);
+    Task<List<string>?> EnableAsync(string userId, string code);
+    Task<bool> DisableAsync(string userId, string password);
+    Task<List<string>?> RegenerateRecoveryCodesAsync(string userId, string code);
+    Task<bool> ResetAsync(string userId);
+}
\ No newline at end of file
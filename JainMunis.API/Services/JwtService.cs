@@ -7,6 +7,9 @@ namespace JainMunis.API.Services;
 
 public class JwtService : IJwtService
 {
+    // Checked on every request so changing the stamp cuts off tokens that have already been issued
+    public const string SecurityStampClaim = "security_stamp";
+
     private readonly IConfiguration _configuration;
     private readonly string _secretKey;
     private readonly string _issuer;
@@ -25,7 +28,9 @@ public class JwtService : IJwtService
         _expirationHours = int.Parse(_configuration.GetSection("JwtSettings:ExpirationHours").Value ?? "24");
     }
 
-    public string GenerateToken(string username, string userId, string email, string role)
+    public TimeSpan TokenLifetime => TimeSpan.FromHours(_expirationHours);
+
+    public string GenerateToken(string username, string userId, string email, string role, string securityStamp)
     {
         var tokenHandler = new JwtSecurityTokenHandler();
         var key = Encoding.UTF8.GetBytes(_secretKey);
@@ -36,6 +41,7 @@ public class JwtService : IJwtService
             new Claim(ClaimTypes.Name, username),
             new Claim(ClaimTypes.Email, email),
             new Claim(ClaimTypes.Role, role),
+            new Claim(SecurityStampClaim, securityStamp),
             new Claim(JwtRegisteredClaimNames.Sub, username),
             new Claim(JwtRegisteredClaimNames.Email, email),
             new Claim(JwtRegisteredClaimNames.Jti, Guid.NewGuid().ToString()),
@@ -45,7 +51,7 @@ public class JwtService : IJwtService
         var tokenDescriptor = new SecurityTokenDescriptor
         {
             Subject = new ClaimsIdentity(claims),
-            Expires = DateTime.UtcNow.AddHours(_expirationHours),
+            Expires = DateTime.UtcNow.Add(TokenLifetime),
             Issuer = _issuer,
             Audience = _audience,
             SigningCredentials = new SigningCredentials(new SymmetricSecurityKey(key), SecurityAlgorithms.HmacSha256Signature)
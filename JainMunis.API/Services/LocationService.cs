@@ -40,6 +40,12 @@ public class LocationService : ILocationService
             {
                 query = query.Where(l => l.State != null && l.State.ToLower() == searchParams.State.ToLower());
             }
+
+            if (searchParams.CreatedFrom.HasValue)
+            {
+                var createdFrom = searchParams.CreatedFrom.Value.ToUniversalTime();
+                query = query.Where(l => l.CreatedAt >= createdFrom);
+            }
         }
 
         // Get total count
@@ -96,6 +102,29 @@ public class LocationService : ILocationService
         _context.Locations.Add(location);
         await _context.SaveChangesAsync();
 
+        // Log activity
+        await _authService.LogActivityAsync(
+            null, // resolved from the current request
+            "CREATE_LOCATION",
+            "location",
+            location.Id,
+            null,
+            System.Text.Json.JsonSerializer.Serialize(new
+            {
+                location.Name,
+                location.Address,
+                location.City,
+                location.State,
+                location.PostalCode,
+                location.Country,
+                location.Latitude,
+                location.Longitude,
+                location.ContactPhone
+            }),
+            null,
+            null
+        );
+
         return await ConvertToDtoAsync(location);
     }
 
@@ -156,7 +185,7 @@ public class LocationService : ILocationService
 
         // Log activity
         await _authService.LogActivityAsync(
-            null, // TODO: Get current admin user ID
+            null, // resolved from the current request
             "UPDATE_LOCATION",
             "location",
             location.Id,
@@ -189,7 +218,7 @@ public class LocationService : ILocationService
 
         // Log activity
         await _authService.LogActivityAsync(
-            null, // TODO: Get current admin user ID
+            null, // resolved from the current request
             "DELETE_LOCATION",
             "location",
             location.Id,
@@ -202,9 +231,17 @@ public class LocationService : ILocationService
         return true;
     }
 
-    public async Task<List<string>> GetCitiesAsync(string? query = null)
+    public async Task<List<string>> GetCitiesAsync(string? query = null, string? state = null)
     {
-        var citiesQuery = _context.Locations.Select(l => l.City).Distinct();
+        var locationsQuery = _context.Locations.AsQueryable();
+
+        if (!string.IsNullOrWhiteSpace(state))
+        {
+            var stateName = state.ToLower();
+            locationsQuery = locationsQuery.Where(l => l.State != null && l.State.ToLower() == stateName);
+        }
+
+        var citiesQuery = locationsQuery.Select(l => l.City).Distinct();
 
         if (!string.IsNullOrWhiteSpace(query))
         {
@@ -215,6 +252,16 @@ public class LocationService : ILocationService
         return await citiesQuery.OrderBy(c => c).Take(50).ToListAsync();
     }
 
+    public async Task<List<string>> GetStatesAsync()
+    {
+        return await _context.Locations
+            .Where(l => l.State != null && l.State != "")
+            .Select(l => l.State!)
+            .Distinct()
+            .OrderBy(s => s)
+            .ToListAsync();
+    }
+
     public async Task<List<LocationDto>> GetLocationsByCityAsync(string city)
     {
         var locations = await _context.Locations
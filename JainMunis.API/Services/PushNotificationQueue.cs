@@ -0,0 +1,30 @@
+using System.Threading.Channels;
+using JainMunis.API.Models.DTOs;
+
+namespace JainMunis.API.Services;
+
+// Schedule saves hand their pushes to PushNotificationWorker instead of waiting on devotees' endpoints
+public class PushNotificationQueue : IPushNotificationQueue
+{
+    private const int Capacity = 500;
+
+    private readonly Channel<ScheduleChangeNotification> _channel = Channel.CreateBounded<ScheduleChangeNotification>(
+        new BoundedChannelOptions(Capacity) { FullMode = BoundedChannelFullMode.DropWrite, SingleReader = true });
+    private readonly ILogger<PushNotificationQueue> _logger;
+
+    public PushNotificationQueue(ILogger<PushNotificationQueue> logger)
+    {
+        _logger = logger;
+    }
+
+    public void QueueScheduleChanged(ScheduleDto schedule, bool isNewSchedule)
+    {
+        if (!_channel.Writer.TryWrite(new ScheduleChangeNotification(schedule, isNewSchedule)))
+        {
+            _logger.LogWarning("Push queue is full; skipping notifications for schedule {ScheduleId}", schedule.Id);
+        }
+    }
+
+    public IAsyncEnumerable<ScheduleChangeNotification> ReadAllAsync(CancellationToken cancellationToken) =>
+        _channel.Reader.ReadAllAsync(cancellationToken);
+}
\ No newline at end of file
@@ -0,0 +1,216 @@
+using System.Net;
+using System.Net.Sockets;
+using System.Text.Json;
+using Microsoft.EntityFrameworkCore;
+using WebPush;
+using JainMunis.API.Data;
+using JainMunis.API.Models.DTOs;
+
+namespace JainMunis.API.Services;
+
+public class PushNotificationService : IPushNotificationService
+{
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    private readonly ApplicationDbContext _context;
+    private readonly ILogger<PushNotificationService> _logger;
+    private readonly WebPushClient _webPushClient;
+    private readonly VapidDetails? _vapidDetails;
+    private readonly bool _allowInsecureEndpoints;
+
+    public PushNotificationService(
+        ApplicationDbContext context,
+        IConfiguration configuration,
+        IHttpClientFactory httpClientFactory,
+        ILogger<PushNotificationService> logger)
+    {
+        _context = context;
+        _logger = logger;
+        _webPushClient = new WebPushClient(httpClientFactory.CreateClient("WebPush"));
+        _allowInsecureEndpoints = AllowInsecureEndpoints(configuration);
+
+        // Without VAPID keys push is simply switched off; schedules still save normally
+        var publicKey = configuration.GetSection("PushNotifications:PublicKey").Value;
+        var privateKey = configuration.GetSection("PushNotifications:PrivateKey").Value;
+        if (!string.IsNullOrEmpty(publicKey) && !string.IsNullOrEmpty(privateKey))
+        {
+            var subject = configuration.GetSection("PushNotifications:Subject").Value ?? "mailto:noreply@jainmunis.app";
+            _vapidDetails = new VapidDetails(subject, publicKey, privateKey);
+        }
+    }
+
+    public string? PublicKey => _vapidDetails?.PublicKey;
+
+    // Devotees register these URLs anonymously and the server POSTs to them, so outside development
+    // only https push services on their standard port are accepted, never a bare IP or localhost
+    public bool IsAllowedEndpoint(string? endpoint)
+    {
+        if (!Uri.TryCreate(endpoint, UriKind.Absolute, out var uri))
+        {
+            return false;
+        }
+
+        if (_allowInsecureEndpoints)
+        {
+            return uri.Scheme == Uri.UriSchemeHttps || uri.Scheme == Uri.UriSchemeHttp;
+        }
+
+        return uri.Scheme == Uri.UriSchemeHttps &&
+               uri.IsDefaultPort &&
+               uri.HostNameType == UriHostNameType.Dns &&
+               !uri.IsLoopback &&
+               !uri.Host.EndsWith(".local", StringComparison.OrdinalIgnoreCase) &&
+               !uri.Host.EndsWith(".internal", StringComparison.OrdinalIgnoreCase);
+    }
+
+    public async Task NotifyScheduleChangedAsync(ScheduleDto schedule, bool isNewSchedule)
+    {
+        if (_vapidDetails == null)
+        {
+            return;
+        }
+
+        // FollowedSaints is a JSON array of ids, so a substring match narrows the candidates in SQL
+        var saintId = schedule.SaintId.ToString();
+        var followers = await _context.NotificationSubscriptions
+            .Where(ns => ns.PushEnabled && ns.PushEndpoint != null && ns.FollowedSaints != null && ns.FollowedSaints.Contains(saintId))
+            .ToListAsync();
+
+        followers = followers.Where(ns => WantsScheduleChanges(ns.NotificationTypes)).ToList();
+        if (followers.Count == 0)
+        {
+            return;
+        }
+
+        var payload = JsonSerializer.Serialize(BuildPayload(schedule, isNewSchedule), JsonOptions);
+        var expired = false;
+
+        foreach (var follower in followers)
+        {
+            try
+            {
+                var pushSubscription = JsonSerializer.Deserialize<PushSubscriptionRequest>(follower.PushEndpoint!, JsonOptions);
+                // Subscriptions saved before endpoints were restricted are skipped rather than trusted
+                if (pushSubscription == null || !IsAllowedEndpoint(pushSubscription.Endpoint))
+                {
+                    continue;
+                }
+
+                await _webPushClient.SendNotificationAsync(
+                    new PushSubscription(pushSubscription.Endpoint, pushSubscription.Keys.P256dh, pushSubscription.Keys.Auth),
+                    payload,
+                    _vapidDetails);
+            }
+            catch (WebPushException ex) when (ex.StatusCode == HttpStatusCode.Gone || ex.StatusCode == HttpStatusCode.NotFound)
+            {
+                // The browser revoked this subscription; stop trying until the devotee enables push again
+                follower.PushEndpoint = null;
+                follower.PushEnabled = false;
+                follower.UpdatedAt = DateTime.UtcNow;
+                expired = true;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error sending push notification to subscription {SubscriptionId}", follower.Id);
+            }
+        }
+
+        if (expired)
+        {
+            await _context.SaveChangesAsync();
+        }
+    }
+
+    public static bool AllowInsecureEndpoints(IConfiguration configuration) =>
+        bool.Parse(configuration.GetSection("PushNotifications:AllowInsecureEndpoints").Value ?? "false");
+
+    // A host name can still resolve to an internal address, so the connection itself is checked too.
+    // Redirects are refused for the same reason.
+    public static SocketsHttpHandler CreateHttpHandler(bool allowPrivateAddresses) => new()
+    {
+        AllowAutoRedirect = false,
+        ConnectTimeout = TimeSpan.FromSeconds(5),
+        ConnectCallback = async (context, cancellationToken) =>
+        {
+            var addresses = await Dns.GetHostAddressesAsync(context.DnsEndPoint.Host, cancellationToken);
+            var address = addresses.FirstOrDefault(candidate => allowPrivateAddresses || IsPublicAddress(candidate))
+                ?? throw new HttpRequestException($"Push endpoint host {context.DnsEndPoint.Host} does not resolve to a public address");
+
+            var socket = new Socket(SocketType.Stream, ProtocolType.Tcp) { NoDelay = true };
+            try
+            {
+                await socket.ConnectAsync(new IPEndPoint(address, context.DnsEndPoint.Port), cancellationToken);
+                return new NetworkStream(socket, ownsSocket: true);
+            }
+            catch
+            {
+                socket.Dispose();
+                throw;
+            }
+        }
+    };
+
+    private static bool IsPublicAddress(IPAddress address)
+    {
+        if (address.IsIPv4MappedToIPv6)
+        {
+            address = address.MapToIPv4();
+        }
+
+        if (IPAddress.IsLoopback(address) || address.IsIPv6LinkLocal || address.IsIPv6SiteLocal || address.IsIPv6UniqueLocal)
+        {
+            return false;
+        }
+
+        if (address.AddressFamily != AddressFamily.InterNetwork)
+        {
+            return true;
+        }
+
+        // 0/8, 10/8, 100.64/10, 127/8, 169.254/16 (cloud metadata), 172.16/12 and 192.168/16
+        var bytes = address.GetAddressBytes();
+        return !(bytes[0] == 0 || bytes[0] == 10 || bytes[0] == 127 ||
+                 (bytes[0] == 100 && bytes[1] >= 64 && bytes[1] <= 127) ||
+                 (bytes[0] == 169 && bytes[1] == 254) ||
+                 (bytes[0] == 172 && bytes[1] >= 16 && bytes[1] <= 31) ||
+                 (bytes[0] == 192 && bytes[1] == 168));
+    }
+
+    // An empty list means the devotee never narrowed their preferences
+    private static bool WantsScheduleChanges(string? notificationTypes)
+    {
+        if (string.IsNullOrWhiteSpace(notificationTypes))
+        {
+            return true;
+        }
+
+        try
+        {
+            var types = JsonSerializer.Deserialize<List<string>>(notificationTypes);
+            return types == null || types.Count == 0 || types.Contains("schedule_change");
+        }
+        catch (JsonException)
+        {
+            return true;
+        }
+    }
+
+    // Read by the service worker in frontend/public/sw.js
+    private static object BuildPayload(ScheduleDto schedule, bool isNewSchedule)
+    {
+        var saintName = schedule.Saint != null
+            ? $"{(string.IsNullOrEmpty(schedule.Saint.Title) ? "" : $"{schedule.Saint.Title} ")}{schedule.Saint.Name}"
+            : "A saint you follow";
+        var place = schedule.Location != null ? $"{schedule.Location.Name}, {schedule.Location.City}" : "a new place";
+        var dates = $"{schedule.StartDate:d MMM} – {schedule.EndDate:d MMM yyyy}";
+
+        return new
+        {
+            title = isNewSchedule ? $"{saintName} has a new stay" : $"{saintName}'s schedule changed",
+            body = $"{place} · {dates}",
+            saintId = schedule.SaintId,
+            url = $"/saints/{schedule.SaintId}",
+            tag = $"schedule-{schedule.Id}"
+        };
+    }
+}
\ No newline at end of file
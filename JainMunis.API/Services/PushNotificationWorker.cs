@@ -0,0 +1,34 @@
+namespace JainMunis.API.Services;
+
+// Sends queued schedule pushes after the admin's request has returned
+public class PushNotificationWorker : BackgroundService
+{
+    private readonly IPushNotificationQueue _queue;
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly ILogger<PushNotificationWorker> _logger;
+
+    public PushNotificationWorker(IPushNotificationQueue queue, IServiceScopeFactory scopeFactory, ILogger<PushNotificationWorker> logger)
+    {
+        _queue = queue;
+        _scopeFactory = scopeFactory;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        await foreach (var notification in _queue.ReadAllAsync(stoppingToken))
+        {
+            try
+            {
+                // PushNotificationService uses the scoped DbContext, so each batch gets its own scope
+                using var scope = _scopeFactory.CreateScope();
+                var pushNotificationService = scope.ServiceProvider.GetRequiredService<IPushNotificationService>();
+                await pushNotificationService.NotifyScheduleChangedAsync(notification.Schedule, notification.IsNewSchedule);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error sending push notifications for schedule {ScheduleId}", notification.Schedule.Id);
+            }
+        }
+    }
+}
\ No newline at end of file
@@ -31,10 +31,29 @@ public class SaintService : ISaintService
                                        (s.SpiritualLineage != null && s.SpiritualLineage.ToLower().Contains(searchTerm)));
             }
 
+            if (!string.IsNullOrWhiteSpace(searchParams.Lineage))
+            {
+                var lineage = searchParams.Lineage.ToLower();
+                query = query.Where(s => s.SpiritualLineage != null && s.SpiritualLineage.ToLower().Contains(lineage));
+            }
+
             if (searchParams.IsActive.HasValue)
             {
                 query = query.Where(s => s.IsActive == searchParams.IsActive.Value);
             }
+
+            if (searchParams.CreatedFrom.HasValue)
+            {
+                var createdFrom = searchParams.CreatedFrom.Value.ToUniversalTime();
+                query = query.Where(s => s.CreatedAt >= createdFrom);
+            }
+
+            // Place and date facets match saints with at least one qualifying stay
+            if (ScheduleFilters.HasScheduleFacets(searchParams))
+            {
+                var matchingSchedules = ScheduleFilters.ApplyFacets(_context.Schedules.AsQueryable(), searchParams);
+                query = query.Where(s => matchingSchedules.Any(sc => sc.SaintId == s.Id));
+            }
         }
 
         // Get total count
@@ -89,6 +108,27 @@ public class SaintService : ISaintService
         _context.Saints.Add(saint);
         await _context.SaveChangesAsync();
 
+        // Log activity
+        await _authService.LogActivityAsync(
+            null, // resolved from the current request
+            "CREATE_SAINT",
+            "saint",
+            saint.Id,
+            null,
+            System.Text.Json.JsonSerializer.Serialize(new
+            {
+                saint.Name,
+                saint.Title,
+                saint.SpiritualLineage,
+                saint.Bio,
+                saint.Phone,
+                saint.Email,
+                saint.IsActive
+            }),
+            null,
+            null
+        );
+
         return await ConvertToDtoAsync(saint);
     }
 
@@ -143,7 +183,7 @@ public class SaintService : ISaintService
 
         // Log activity
         await _authService.LogActivityAsync(
-            null, // TODO: Get current admin user ID
+            null, // resolved from the current request
             "UPDATE_SAINT",
             "saint",
             saint.Id,
@@ -171,7 +211,7 @@ public class SaintService : ISaintService
 
         // Log activity
         await _authService.LogActivityAsync(
-            null, // TODO: Get current admin user ID
+            null, // resolved from the current request
             "DELETE_SAINT",
             "saint",
             saint.Id,
@@ -212,10 +252,48 @@ public class SaintService : ISaintService
 
     public async Task<List<SaintDto>> GetNearbySaintsAsync(decimal latitude, decimal longitude, int radiusKm)
     {
-        await Task.CompletedTask;
-        // TODO: Implement geospatial query
-        // For now, return empty list
-        return new List<SaintDto>();
+        var today = DateOnly.FromDateTime(DateTime.UtcNow);
+        var (minLat, maxLat, minLng, maxLng) = GeoDistance.BoundingBox(latitude, longitude, radiusKm);
+
+        // Saints are located by where they are staying today
+        var schedules = await _context.Schedules
+            .Where(sc => sc.StartDate <= today && sc.EndDate >= today && sc.Saint.IsActive)
+            .Where(sc => sc.Location.Latitude != null && sc.Location.Longitude != null)
+            .Where(sc => sc.Location.Latitude >= minLat && sc.Location.Latitude <= maxLat &&
+                         sc.Location.Longitude >= minLng && sc.Location.Longitude <= maxLng)
+            .Include(sc => sc.Saint)
+            .Include(sc => sc.Location)
+            .ToListAsync();
+
+        var nearbySaints = schedules
+            .Select(sc => new
+            {
+                sc.Saint,
+                Distance = GeoDistance.Kilometers(latitude, longitude, sc.Location.Latitude!.Value, sc.Location.Longitude!.Value)
+            })
+            .Where(x => x.Distance <= radiusKm)
+            .OrderBy(x => x.Distance)
+            .Select(x => x.Saint)
+            .DistinctBy(saint => saint.Id)
+            .ToList();
+
+        var saintDtos = new List<SaintDto>();
+        foreach (var saint in nearbySaints)
+        {
+            saintDtos.Add(await ConvertToDtoAsync(saint));
+        }
+
+        return saintDtos;
+    }
+
+    public async Task<List<string>> GetLineagesAsync()
+    {
+        return await _context.Saints
+            .Where(s => s.IsActive && s.SpiritualLineage != null && s.SpiritualLineage != "")
+            .Select(s => s.SpiritualLineage!)
+            .Distinct()
+            .OrderBy(l => l)
+            .ToListAsync();
     }
 
     private async Task<SaintDto> ConvertToDtoAsync(Saint saint)
@@ -268,7 +346,9 @@ public class SaintService : ISaintService
                 Address = schedule.Location.Address,
                 City = schedule.Location.City,
                 State = schedule.Location.State,
-                Country = schedule.Location.Country
+                Country = schedule.Location.Country,
+                Latitude = schedule.Location.Latitude,
+                Longitude = schedule.Location.Longitude
             },
             StartDate = schedule.StartDate,
             EndDate = schedule.EndDate,
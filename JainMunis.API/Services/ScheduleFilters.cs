@@ -0,0 +1,52 @@
+using JainMunis.API.Models.DTOs;
+using JainMunis.API.Models.Entities;
+
+namespace JainMunis.API.Services;
+
+public static class ScheduleFilters
+{
+    // True when any of the place, date range or currently-present facets are set
+    public static bool HasScheduleFacets(SearchParams searchParams) =>
+        !string.IsNullOrWhiteSpace(searchParams.City) ||
+        !string.IsNullOrWhiteSpace(searchParams.State) ||
+        searchParams.DateFrom.HasValue ||
+        searchParams.DateTo.HasValue ||
+        searchParams.CurrentOnly == true;
+
+    // Narrows schedules to the place, overlapping date range and currently-present facets
+    public static IQueryable<Schedule> ApplyFacets(IQueryable<Schedule> query, SearchParams searchParams)
+    {
+        if (!string.IsNullOrWhiteSpace(searchParams.City))
+        {
+            var city = searchParams.City.ToLower();
+            query = query.Where(sc => sc.Location.City.ToLower() == city);
+        }
+
+        if (!string.IsNullOrWhiteSpace(searchParams.State))
+        {
+            var state = searchParams.State.ToLower();
+            query = query.Where(sc => sc.Location.State != null && sc.Location.State.ToLower() == state);
+        }
+
+        // A stay matches when it overlaps the requested range at all
+        if (searchParams.DateFrom.HasValue)
+        {
+            var dateFrom = DateOnly.FromDateTime(searchParams.DateFrom.Value);
+            query = query.Where(sc => sc.EndDate >= dateFrom);
+        }
+
+        if (searchParams.DateTo.HasValue)
+        {
+            var dateTo = DateOnly.FromDateTime(searchParams.DateTo.Value);
+            query = query.Where(sc => sc.StartDate <= dateTo);
+        }
+
+        if (searchParams.CurrentOnly == true)
+        {
+            var today = DateOnly.FromDateTime(DateTime.UtcNow);
+            query = query.Where(sc => sc.StartDate <= today && sc.EndDate >= today);
+        }
+
+        return query;
+    }
+}
\ No newline at end of file
@@ -9,11 +9,13 @@ public class ScheduleService : IScheduleService
 {
     private readonly ApplicationDbContext _context;
     private readonly IAuthService _authService;
+    private readonly IPushNotificationQueue _pushNotificationQueue;
 
-    public ScheduleService(ApplicationDbContext context, IAuthService authService)
+    public ScheduleService(ApplicationDbContext context, IAuthService authService, IPushNotificationQueue pushNotificationQueue)
     {
         _context = context;
         _authService = authService;
+        _pushNotificationQueue = pushNotificationQueue;
     }
 
     public async Task<(List<ScheduleDto> schedules, int total)> GetSchedulesAsync(int page, int limit, SearchParams? searchParams = null)
@@ -36,16 +38,27 @@ public class ScheduleService : IScheduleService
                 query = query.Where(sc => sc.Location.City.ToLower() == searchParams.City.ToLower());
             }
 
-            if (searchParams.DateFrom.HasValue)
+            if (searchParams.Overlapping == true)
             {
-                var dateFrom = DateOnly.FromDateTime(searchParams.DateFrom.Value);
-                query = query.Where(sc => sc.StartDate >= dateFrom);
+                query = ScheduleFilters.ApplyFacets(query, new SearchParams
+                {
+                    DateFrom = searchParams.DateFrom,
+                    DateTo = searchParams.DateTo
+                });
             }
-
-            if (searchParams.DateTo.HasValue)
+            else
             {
-                var dateTo = DateOnly.FromDateTime(searchParams.DateTo.Value);
-                query = query.Where(sc => sc.EndDate <= dateTo);
+                if (searchParams.DateFrom.HasValue)
+                {
+                    var dateFrom = DateOnly.FromDateTime(searchParams.DateFrom.Value);
+                    query = query.Where(sc => sc.StartDate >= dateFrom);
+                }
+
+                if (searchParams.DateTo.HasValue)
+                {
+                    var dateTo = DateOnly.FromDateTime(searchParams.DateTo.Value);
+                    query = query.Where(sc => sc.EndDate <= dateTo);
+                }
             }
         }
 
@@ -76,10 +89,13 @@ public class ScheduleService : IScheduleService
     public async Task<ScheduleDto> CreateScheduleAsync(CreateScheduleRequest request, string? createdBy)
     {
         // Check for overlapping schedules
-        var overlaps = await CheckOverlapsAsync(request.SaintId, request.StartDate, request.EndDate);
-        if (overlaps.Any())
+        if (!request.AllowOverlap)
         {
-            throw new InvalidOperationException("Schedule conflicts with existing schedules for this saint.");
+            var overlaps = await CheckOverlapsAsync(request.SaintId, request.StartDate, request.EndDate);
+            if (overlaps.Any())
+            {
+                throw new InvalidOperationException("Schedule conflicts with existing schedules for this saint.");
+            }
         }
 
         var schedule = new Schedule
@@ -120,7 +136,10 @@ public class ScheduleService : IScheduleService
             null
         );
 
-        return await GetScheduleByIdAsync(schedule.Id) ?? throw new InvalidOperationException("Failed to create schedule");
+        var created = await GetScheduleByIdAsync(schedule.Id) ?? throw new InvalidOperationException("Failed to create schedule");
+        _pushNotificationQueue.QueueScheduleChanged(created, isNewSchedule: true);
+
+        return created;
     }
 
     public async Task<ScheduleDto?> UpdateScheduleAsync(Guid id, UpdateScheduleRequest request, string? updatedBy)
@@ -148,10 +167,13 @@ public class ScheduleService : IScheduleService
         var endDate = request.EndDate ?? schedule.EndDate;
         var saintId = request.SaintId ?? schedule.SaintId;
 
-        var overlaps = await CheckOverlapsAsync(saintId, startDate, endDate, id);
-        if (overlaps.Any())
+        if (!request.AllowOverlap)
         {
-            throw new InvalidOperationException("Schedule conflicts with existing schedules for this saint.");
+            var overlaps = await CheckOverlapsAsync(saintId, startDate, endDate, id);
+            if (overlaps.Any())
+            {
+                throw new InvalidOperationException("Schedule conflicts with existing schedules for this saint.");
+            }
         }
 
         if (request.SaintId.HasValue)
@@ -200,7 +222,13 @@ public class ScheduleService : IScheduleService
             null
         );
 
-        return await GetScheduleByIdAsync(schedule.Id);
+        var updated = await GetScheduleByIdAsync(schedule.Id);
+        if (updated != null)
+        {
+            _pushNotificationQueue.QueueScheduleChanged(updated, isNewSchedule: false);
+        }
+
+        return updated;
     }
 
     public async Task<bool> DeleteScheduleAsync(Guid id)
@@ -225,7 +253,7 @@ public class ScheduleService : IScheduleService
 
         // Log activity
         await _authService.LogActivityAsync(
-            null, // TODO: Get current admin user ID
+            null, // resolved from the current request
             "DELETE_SCHEDULE",
             "schedule",
             schedule.Id,
@@ -311,6 +339,49 @@ public class ScheduleService : IScheduleService
         return schedules.Select(ConvertToDto).ToList();
     }
 
+    public async Task<List<ScheduleDto>> GetMatchingSchedulesAsync(IEnumerable<Guid> saintIds, SearchParams searchParams)
+    {
+        var ids = saintIds.ToList();
+        var query = _context.Schedules
+            .Where(sc => ids.Contains(sc.SaintId))
+            .Include(sc => sc.Saint)
+            .Include(sc => sc.Location)
+            .AsQueryable();
+
+        var schedules = await ScheduleFilters.ApplyFacets(query, searchParams)
+            .OrderBy(sc => sc.StartDate)
+            .ToListAsync();
+
+        return schedules.Select(ConvertToDto).ToList();
+    }
+
+    // Current and upcoming stays, for calendar feeds that should only carry what is still ahead
+    public async Task<List<ScheduleDto>> GetUnfinishedSchedulesAsync(SearchParams searchParams)
+    {
+        var query = _context.Schedules
+            .Include(sc => sc.Saint)
+            .Include(sc => sc.Location)
+            .AsQueryable();
+
+        if (searchParams.SaintId.HasValue)
+        {
+            query = query.Where(sc => sc.SaintId == searchParams.SaintId.Value);
+        }
+
+        var facets = new SearchParams
+        {
+            City = searchParams.City,
+            State = searchParams.State,
+            DateFrom = DateTime.UtcNow.Date
+        };
+
+        var schedules = await ScheduleFilters.ApplyFacets(query, facets)
+            .OrderBy(sc => sc.StartDate)
+            .ToListAsync();
+
+        return schedules.Select(ConvertToDto).ToList();
+    }
+
     public async Task<List<ScheduleDto>> CheckOverlapsAsync(Guid saintId, DateOnly startDate, DateOnly endDate, Guid? excludeScheduleId = null)
     {
         var query = _context.Schedules
@@ -332,6 +403,40 @@ public class ScheduleService : IScheduleService
         return overlappingSchedules.Select(ConvertToDto).ToList();
     }
 
+    public async Task<List<ScheduleDto>> GetNearbySchedulesAsync(decimal latitude, decimal longitude, int radiusKm, bool currentOnly)
+    {
+        var today = DateOnly.FromDateTime(DateTime.UtcNow);
+        var (minLat, maxLat, minLng, maxLng) = GeoDistance.BoundingBox(latitude, longitude, radiusKm);
+
+        var query = _context.Schedules
+            .Where(sc => sc.EndDate >= today)
+            .Where(sc => sc.Location.Latitude != null && sc.Location.Longitude != null)
+            .Where(sc => sc.Location.Latitude >= minLat && sc.Location.Latitude <= maxLat &&
+                         sc.Location.Longitude >= minLng && sc.Location.Longitude <= maxLng)
+            .Include(sc => sc.Saint)
+            .Include(sc => sc.Location)
+            .AsQueryable();
+
+        if (currentOnly)
+        {
+            query = query.Where(sc => sc.StartDate <= today);
+        }
+
+        var schedules = await query.ToListAsync();
+
+        // The bounding box over-selects at the corners, so finish with the exact distance
+        return schedules
+            .Select(sc => new
+            {
+                Schedule = sc,
+                Distance = GeoDistance.Kilometers(latitude, longitude, sc.Location.Latitude!.Value, sc.Location.Longitude!.Value)
+            })
+            .Where(x => x.Distance <= radiusKm)
+            .OrderBy(x => x.Distance)
+            .Select(x => ConvertToDto(x.Schedule))
+            .ToList();
+    }
+
     private ScheduleDto ConvertToDto(Schedule schedule)
     {
         return new ScheduleDto
@@ -353,7 +458,9 @@ public class ScheduleService : IScheduleService
                 Address = schedule.Location.Address,
                 City = schedule.Location.City,
                 State = schedule.Location.State,
-                Country = schedule.Location.Country
+                Country = schedule.Location.Country,
+                Latitude = schedule.Location.Latitude,
+                Longitude = schedule.Location.Longitude
             } : null,
             StartDate = schedule.StartDate,
             EndDate = schedule.EndDate,
@@ -0,0 +1,239 @@
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.Json;
+using Microsoft.EntityFrameworkCore;
+using JainMunis.API.Data;
+using JainMunis.API.Models.DTOs;
+using JainMunis.API.Models.Entities;
+
+namespace JainMunis.API.Services;
+
+public class SubscriptionService : ISubscriptionService
+{
+    private const int MaxVerificationAttempts = 5;
+    private static readonly TimeSpan VerificationCodeLifetime = TimeSpan.FromMinutes(15);
+    private static readonly TimeSpan VerificationCodeInterval = TimeSpan.FromMinutes(1);
+
+    private readonly ApplicationDbContext _context;
+    private readonly IEmailService _emailService;
+    private readonly ILogger<SubscriptionService> _logger;
+
+    public SubscriptionService(ApplicationDbContext context, IEmailService emailService, ILogger<SubscriptionService> logger)
+    {
+        _context = context;
+        _emailService = emailService;
+        _logger = logger;
+    }
+
+    public async Task<SubscriptionDto?> GetSubscriptionByIdAsync(Guid id)
+    {
+        var subscription = await _context.NotificationSubscriptions.FindAsync(id);
+        return subscription != null ? ConvertToDto(subscription) : null;
+    }
+
+    // Signing up and recovering look the same from outside: a new identifier gets an unverified
+    // subscription, a known one keeps its preferences, and either way the code goes to the identifier
+    public async Task SendVerificationCodeAsync(string userIdentifier, CreateSubscriptionRequest? newSubscription)
+    {
+        var identifier = NormalizeIdentifier(userIdentifier);
+        var subscription = await _context.NotificationSubscriptions.FirstOrDefaultAsync(ns => ns.UserIdentifier == identifier);
+
+        if (subscription == null)
+        {
+            if (newSubscription == null)
+            {
+                return;
+            }
+
+            subscription = new NotificationSubscription
+            {
+                UserIdentifier = identifier,
+                EmailEnabled = newSubscription.EmailEnabled,
+                WhatsAppEnabled = newSubscription.WhatsAppEnabled,
+                PushEnabled = newSubscription.PushEnabled,
+                PreferredCities = SerializeList(newSubscription.PreferredCities),
+                FollowedSaints = SerializeList(newSubscription.FollowedSaints),
+                NotificationTypes = SerializeList(newSubscription.NotificationTypes)
+            };
+            _context.NotificationSubscriptions.Add(subscription);
+        }
+        else if (subscription.VerificationCodeExpiresAt.HasValue &&
+                 subscription.VerificationCodeExpiresAt.Value - VerificationCodeLifetime + VerificationCodeInterval > DateTime.UtcNow)
+        {
+            // Keeps the form from being used to flood someone's inbox
+            return;
+        }
+
+        var code = RandomNumberGenerator.GetInt32(0, 1_000_000).ToString("D6");
+        subscription.VerificationCodeHash = HashVerificationCode(code);
+        subscription.VerificationCodeExpiresAt = DateTime.UtcNow.Add(VerificationCodeLifetime);
+        subscription.VerificationAttempts = 0;
+        subscription.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        if (identifier.Contains('@'))
+        {
+            await _emailService.SendSubscriptionCodeEmailAsync(identifier, code);
+        }
+        else
+        {
+            _logger.LogWarning("WhatsApp delivery is not set up, so the code for subscription {SubscriptionId} was not sent", subscription.Id);
+        }
+    }
+
+    // The subscription id is only handed out here, to whoever can read the code sent to the identifier
+    public async Task<SubscriptionDto?> VerifyAsync(string userIdentifier, string code)
+    {
+        var identifier = NormalizeIdentifier(userIdentifier);
+        var subscription = await _context.NotificationSubscriptions.FirstOrDefaultAsync(ns => ns.UserIdentifier == identifier);
+        if (subscription?.VerificationCodeHash == null ||
+            subscription.VerificationCodeExpiresAt < DateTime.UtcNow)
+        {
+            return null;
+        }
+
+        if (!CryptographicOperations.FixedTimeEquals(
+                Encoding.UTF8.GetBytes(subscription.VerificationCodeHash),
+                Encoding.UTF8.GetBytes(HashVerificationCode(code.Trim()))))
+        {
+            // Six digits fall to guessing, so a few wrong tries use up the code
+            subscription.VerificationAttempts++;
+            if (subscription.VerificationAttempts >= MaxVerificationAttempts)
+            {
+                subscription.VerificationCodeHash = null;
+            }
+            await _context.SaveChangesAsync();
+            return null;
+        }
+
+        subscription.IsVerified = true;
+        subscription.VerificationCodeHash = null;
+        subscription.VerificationCodeExpiresAt = null;
+        subscription.VerificationAttempts = 0;
+        subscription.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        return ConvertToDto(subscription);
+    }
+
+    public async Task<SubscriptionDto?> UpdateSubscriptionAsync(Guid id, UpdateSubscriptionRequest request)
+    {
+        var subscription = await _context.NotificationSubscriptions.FindAsync(id);
+        if (subscription == null)
+        {
+            return null;
+        }
+
+        if (request.EmailEnabled.HasValue)
+            subscription.EmailEnabled = request.EmailEnabled.Value;
+
+        if (request.WhatsAppEnabled.HasValue)
+            subscription.WhatsAppEnabled = request.WhatsAppEnabled.Value;
+
+        if (request.PushEnabled.HasValue)
+            subscription.PushEnabled = request.PushEnabled.Value;
+
+        if (request.PreferredCities != null)
+            subscription.PreferredCities = SerializeList(request.PreferredCities);
+
+        if (request.FollowedSaints != null)
+            subscription.FollowedSaints = SerializeList(request.FollowedSaints);
+
+        if (request.NotificationTypes != null)
+            subscription.NotificationTypes = SerializeList(request.NotificationTypes);
+
+        subscription.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        return ConvertToDto(subscription);
+    }
+
+    // Passing null forgets the browser; push stays enabled only while an endpoint is stored
+    public async Task<SubscriptionDto?> SetPushSubscriptionAsync(Guid id, PushSubscriptionRequest? pushSubscription)
+    {
+        var subscription = await _context.NotificationSubscriptions.FindAsync(id);
+        if (subscription == null)
+        {
+            return null;
+        }
+
+        subscription.PushEndpoint = pushSubscription != null ? JsonSerializer.Serialize(pushSubscription, new JsonSerializerOptions(JsonSerializerDefaults.Web)) : null;
+        subscription.PushEnabled = pushSubscription != null;
+        subscription.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        return ConvertToDto(subscription);
+    }
+
+    public async Task<bool> DeleteSubscriptionAsync(Guid id)
+    {
+        var subscription = await _context.NotificationSubscriptions.FindAsync(id);
+        if (subscription == null)
+        {
+            return false;
+        }
+
+        _context.NotificationSubscriptions.Remove(subscription);
+        await _context.SaveChangesAsync();
+        return true;
+    }
+
+    // Emails are matched case-insensitively; phone numbers keep only digits and a leading +
+    private static string NormalizeIdentifier(string userIdentifier)
+    {
+        var trimmed = userIdentifier.Trim();
+        if (trimmed.Contains('@'))
+        {
+            return trimmed.ToLowerInvariant();
+        }
+
+        var digits = new string(trimmed.Where(char.IsDigit).ToArray());
+        return trimmed.StartsWith('+') ? $"+{digits}" : digits;
+    }
+
+    private static string HashVerificationCode(string code)
+    {
+        return Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(code)));
+    }
+
+    // The entity stores each list as a JSON array string
+    private static string? SerializeList<T>(List<T>? values)
+    {
+        return values == null || values.Count == 0 ? null : JsonSerializer.Serialize(values.Distinct());
+    }
+
+    private static List<T> DeserializeList<T>(string? json)
+    {
+        if (string.IsNullOrWhiteSpace(json))
+        {
+            return new List<T>();
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<List<T>>(json) ?? new List<T>();
+        }
+        catch (JsonException)
+        {
+            return new List<T>();
+        }
+    }
+
+    private static SubscriptionDto ConvertToDto(NotificationSubscription subscription)
+    {
+        return new SubscriptionDto
+        {
+            Id = subscription.Id,
+            UserIdentifier = subscription.UserIdentifier,
+            EmailEnabled = subscription.EmailEnabled,
+            WhatsAppEnabled = subscription.WhatsAppEnabled,
+            PushEnabled = subscription.PushEnabled,
+            IsVerified = subscription.IsVerified,
+            PreferredCities = DeserializeList<string>(subscription.PreferredCities),
+            FollowedSaints = DeserializeList<Guid>(subscription.FollowedSaints),
+            NotificationTypes = DeserializeList<string>(subscription.NotificationTypes),
+            CreatedAt = subscription.CreatedAt,
+            UpdatedAt = subscription.UpdatedAt
+        };
+    }
+}
\ No newline at end of file
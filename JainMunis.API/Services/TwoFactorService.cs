@@ -0,0 +1,152 @@
+using System.Text;
+using Microsoft.AspNetCore.Identity;
+using JainMunis.API.Models.DTOs;
+using JainMunis.API.Models.Entities;
+using QRCoder;
+
+namespace JainMunis.API.Services;
+
+// Enrollment for authenticator apps; the login step itself lives in AuthService
+public class TwoFactorService : ITwoFactorService
+{
+    private const int RecoveryCodeCount = 10;
+
+    private readonly UserManager<AdminUser> _userManager;
+    private readonly string _issuer;
+
+    public TwoFactorService(UserManager<AdminUser> userManager, IConfiguration configuration)
+    {
+        _userManager = userManager;
+        _issuer = configuration.GetSection("App:Name").Value ?? "Jain Munis App";
+    }
+
+    public async Task<TwoFactorStatusResponse?> GetStatusAsync(string userId)
+    {
+        var user = await _userManager.FindByIdAsync(userId);
+        if (user == null)
+        {
+            return null;
+        }
+
+        return new TwoFactorStatusResponse
+        {
+            Enabled = user.TwoFactorEnabled,
+            RecoveryCodesLeft = user.TwoFactorEnabled ? await _userManager.CountRecoveryCodesAsync(user) : 0
+        };
+    }
+
+    // A fresh key every time, so an abandoned enrollment never leaves a usable secret behind
+    public async Task<TwoFactorSetupResponse?> BeginSetupAsync(string userId)
+    {
+        var user = await _userManager.FindByIdAsync(userId);
+        if (user == null || user.TwoFactorEnabled)
+        {
+            return null;
+        }
+
+        await _userManager.ResetAuthenticatorKeyAsync(user);
+        var key = await _userManager.GetAuthenticatorKeyAsync(user);
+        if (string.IsNullOrEmpty(key))
+        {
+            return null;
+        }
+
+        var account = user.Email ?? user.UserName!;
+        var uri = $"otpauth://totp/{Uri.EscapeDataString(_issuer)}:{Uri.EscapeDataString(account)}" +
+                  $"?secret={key}&issuer={Uri.EscapeDataString(_issuer)}&digits=6";
+
+        return new TwoFactorSetupResponse
+        {
+            SharedKey = FormatKey(key),
+            AuthenticatorUri = uri,
+            QrCodeImage = RenderQrCode(uri)
+        };
+    }
+
+    // Only a code from the new key turns two-factor on, so a mistyped scan cannot lock anyone out
+    public async Task<List<string>?> EnableAsync(string userId, string code)
+    {
+        var user = await _userManager.FindByIdAsync(userId);
+        if (user == null || user.TwoFactorEnabled || !await VerifyAuthenticatorCodeAsync(user, code))
+        {
+            return null;
+        }
+
+        await _userManager.SetTwoFactorEnabledAsync(user, true);
+        var recoveryCodes = await _userManager.GenerateNewTwoFactorRecoveryCodesAsync(user, RecoveryCodeCount);
+        return recoveryCodes?.ToList();
+    }
+
+    public async Task<bool> DisableAsync(string userId, string password)
+    {
+        var user = await _userManager.FindByIdAsync(userId);
+        if (user == null || !user.TwoFactorEnabled || !await _userManager.CheckPasswordAsync(user, password))
+        {
+            return false;
+        }
+
+        return await ResetAsync(user);
+    }
+
+    public async Task<List<string>?> RegenerateRecoveryCodesAsync(string userId, string code)
+    {
+        var user = await _userManager.FindByIdAsync(userId);
+        if (user == null || !user.TwoFactorEnabled || !await VerifyAuthenticatorCodeAsync(user, code))
+        {
+            return null;
+        }
+
+        var recoveryCodes = await _userManager.GenerateNewTwoFactorRecoveryCodesAsync(user, RecoveryCodeCount);
+        return recoveryCodes?.ToList();
+    }
+
+    // For a super admin helping someone who lost both their phone and their recovery codes
+    public async Task<bool> ResetAsync(string userId)
+    {
+        var user = await _userManager.FindByIdAsync(userId);
+        return user != null && await ResetAsync(user);
+    }
+
+    private async Task<bool> ResetAsync(AdminUser user)
+    {
+        var result = await _userManager.SetTwoFactorEnabledAsync(user, false);
+        if (!result.Succeeded)
+        {
+            return false;
+        }
+
+        // The old key and recovery codes must not work if two-factor is turned back on
+        await _userManager.ResetAuthenticatorKeyAsync(user);
+        await _userManager.GenerateNewTwoFactorRecoveryCodesAsync(user, 0);
+        return true;
+    }
+
+    private Task<bool> VerifyAuthenticatorCodeAsync(AdminUser user, string code) =>
+        _userManager.VerifyTwoFactorTokenAsync(
+            user,
+            _userManager.Options.Tokens.AuthenticatorTokenProvider,
+            code.Replace(" ", string.Empty).Replace("-", string.Empty));
+
+    // "abcd efgh ijkl ..." is easier to type into an app than one long run of letters
+    private static string FormatKey(string key)
+    {
+        var formatted = new StringBuilder();
+        for (var i = 0; i < key.Length; i += 4)
+        {
+            if (i > 0)
+            {
+                formatted.Append(' ');
+            }
+            formatted.Append(key.AsSpan(i, Math.Min(4, key.Length - i)));
+        }
+        return formatted.ToString().ToLowerInvariant();
+    }
+
+    private static string RenderQrCode(string text)
+    {
+        using var generator = new QRCodeGenerator();
+        using var data = generator.CreateQrCode(text, QRCodeGenerator.ECCLevel.Q);
+        var png = new PngByteQRCode(data).GetGraphic(6);
+        return $"data:image/png;base64,{Convert.ToBase64String(png)}";
+    }
+}
\ No newline at end of file
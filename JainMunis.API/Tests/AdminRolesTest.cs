@@ -0,0 +1,50 @@
+using JainMunis.API.Services;
+using System.Collections.Generic;
+using Xunit;
+
+namespace JainMunis.API.Tests;
+
+public class AdminRolesTest
+{
+    private static readonly List<string> MumbaiOnly = AdminRoles.GetCities("{\"cities\":[\"Mumbai\"]}");
+
+    [Fact]
+    public void CanManageCity_CoordinatorInOwnCity_ReturnsTrue()
+    {
+        Assert.True(AdminRoles.CanManageCity(AdminRoles.CityCoordinator, MumbaiOnly, "Mumbai"));
+    }
+
+    [Fact]
+    public void CanManageCity_CoordinatorMatchesCityIgnoringCaseAndSpaces()
+    {
+        Assert.True(AdminRoles.CanManageCity(AdminRoles.CityCoordinator, MumbaiOnly, " mumbai "));
+    }
+
+    [Fact]
+    public void CanManageCity_CoordinatorInOtherCity_ReturnsFalse()
+    {
+        Assert.False(AdminRoles.CanManageCity(AdminRoles.CityCoordinator, MumbaiOnly, "Pune"));
+    }
+
+    [Fact]
+    public void CanManageCity_CoordinatorWithoutCity_ReturnsFalse()
+    {
+        Assert.False(AdminRoles.CanManageCity(AdminRoles.CityCoordinator, MumbaiOnly, null));
+        Assert.False(AdminRoles.CanManageCity(AdminRoles.CityCoordinator, new List<string>(), "Mumbai"));
+    }
+
+    [Theory]
+    [InlineData(AdminRoles.SuperAdmin)]
+    [InlineData(AdminRoles.Editor)]
+    [InlineData(AdminRoles.Admin)]
+    public void CanManageCity_OtherWritingRoles_AreNotLimitedByCity(string role)
+    {
+        Assert.True(AdminRoles.CanManageCity(role, new List<string>(), "Pune"));
+    }
+
+    [Fact]
+    public void GetCities_FreeFormPermissions_ReturnsNoCities()
+    {
+        Assert.Empty(AdminRoles.GetCities("legacy-permissions"));
+    }
+}
\ No newline at end of file
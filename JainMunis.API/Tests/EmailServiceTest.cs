@@ -129,4 +129,25 @@ public class EmailServiceTest
             Assert.True(true);
         }
     }
+
+    [Fact]
+    public async Task SendSubscriptionCodeEmailAsync_ValidParameters_CreatesCorrectContent()
+    {
+        // Arrange
+        var emailService = CreateEmailService();
+        var to = "devotee@example.com";
+        var code = "042195";
+
+        // Act & Assert
+        try
+        {
+            var result = await emailService.SendSubscriptionCodeEmailAsync(to, code);
+            Assert.IsType<bool>(result);
+        }
+        catch (InvalidOperationException ex) when (ex.Message.Contains("SendGrid API key"))
+        {
+            // Expected behavior with test configuration
+            Assert.True(true);
+        }
+    }
 }
\ No newline at end of file
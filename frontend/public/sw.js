@@ -0,0 +1,40 @@
+// Service worker for Web Push. Payloads come from PushNotificationService on the API:
+// { title, body, saintId, url, tag }
+
+self.addEventListener('push', (event) => {
+  let payload = {}
+  try {
+    payload = event.data ? event.data.json() : {}
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' }
+  }
+
+  const url = payload.url || (payload.saintId ? `/saints/${payload.saintId}` : '/')
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'Jain Munis', {
+      body: payload.body,
+      tag: payload.tag,
+      data: { url },
+    })
+  )
+})
+
+// Reuse an open tab of the app when there is one, otherwise open a new window
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const target = new URL(event.notification.data?.url || '/', self.location.origin).href
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin)
+      if (existing) {
+        // navigate() only works on pages this worker controls
+        return existing.focus()
+          .then((client) => client.navigate(target))
+          .catch(() => self.clients.openWindow(target))
+      }
+      return self.clients.openWindow(target)
+    })
+  )
+})
\ No newline at end of file
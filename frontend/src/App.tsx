@@ -5,9 +5,23 @@ import HomePage from '@/pages/HomePage'
 import SaintsPage from '@/pages/SaintsPage'
 import SaintProfilePage from '@/pages/SaintProfilePage'
 import LocationsPage from '@/pages/LocationsPage'
+import CityPage from '@/pages/CityPage'
 import MapPage from '@/pages/MapPage'
+import NearMePage from '@/pages/NearMePage'
+import SearchPage from '@/pages/SearchPage'
+import CalendarPage from '@/pages/CalendarPage'
+import NotificationPreferencesPage from '@/pages/NotificationPreferencesPage'
 import AdminLoginPage from '@/pages/admin/AdminLoginPage'
 import AdminDashboardPage from '@/pages/admin/AdminDashboardPage'
+import AdminSaintsPage from '@/pages/admin/AdminSaintsPage'
+import AdminSaintFormPage from '@/pages/admin/AdminSaintFormPage'
+import AdminSchedulesPage from '@/pages/admin/AdminSchedulesPage'
+import AdminScheduleFormPage from '@/pages/admin/AdminScheduleFormPage'
+import AdminLocationsPage from '@/pages/admin/AdminLocationsPage'
+import AdminLocationFormPage from '@/pages/admin/AdminLocationFormPage'
+import AdminActivityLogsPage from '@/pages/admin/AdminActivityLogsPage'
+import AdminUsersPage from '@/pages/admin/AdminUsersPage'
+import AdminProfilePage from '@/pages/admin/AdminProfilePage'
 import ProtectedRoute from '@/components/auth/ProtectedRoute'
 import { AuthProvider } from '@/contexts/AuthContext'
 import { ToastContainer } from '@/components/ui/Toast'
@@ -24,8 +38,12 @@ function App() {
             <Route path="/saints" element={<SaintsPage />} />
             <Route path="/saints/:id" element={<SaintProfilePage />} />
             <Route path="/locations" element={<LocationsPage />} />
-            <Route path="/locations/:city" element={<LocationsPage />} />
+            <Route path="/locations/:city" element={<CityPage />} />
             <Route path="/map" element={<MapPage />} />
+            <Route path="/near-me" element={<NearMePage />} />
+            <Route path="/search" element={<SearchPage />} />
+            <Route path="/calendar" element={<CalendarPage />} />
+            <Route path="/notifications" element={<NotificationPreferencesPage />} />
 
             {/* Admin routes */}
             <Route path="/admin/login" element={<AdminLoginPage />} />
@@ -37,6 +55,102 @@ function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/admin/saints"
+              element={
+                <ProtectedRoute requiredPermission="saint:view">
+                  <AdminSaintsPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/saints/new"
+              element={
+                <ProtectedRoute requiredPermission="saint:create">
+                  <AdminSaintFormPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/saints/:id/edit"
+              element={
+                <ProtectedRoute requiredPermission="saint:edit">
+                  <AdminSaintFormPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/schedules"
+              element={
+                <ProtectedRoute requiredPermission="schedule:view">
+                  <AdminSchedulesPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/schedules/new"
+              element={
+                <ProtectedRoute requiredPermission="schedule:create">
+                  <AdminScheduleFormPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/schedules/:id/edit"
+              element={
+                <ProtectedRoute requiredPermission="schedule:edit">
+                  <AdminScheduleFormPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/locations"
+              element={
+                <ProtectedRoute requiredPermission="location:view">
+                  <AdminLocationsPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/locations/new"
+              element={
+                <ProtectedRoute requiredPermission="location:create">
+                  <AdminLocationFormPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/locations/:id/edit"
+              element={
+                <ProtectedRoute requiredPermission="location:edit">
+                  <AdminLocationFormPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/logs"
+              element={
+                <ProtectedRoute requiredPermission="activity:view">
+                  <AdminActivityLogsPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/users"
+              element={
+                <ProtectedRoute requiredPermission="user:view">
+                  <AdminUsersPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/profile"
+              element={
+                <ProtectedRoute>
+                  <AdminProfilePage />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/admin/*"
               element={
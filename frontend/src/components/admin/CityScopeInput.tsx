@@ -0,0 +1,72 @@
+import React, { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { X } from 'lucide-react'
+import { locationsApi } from '@/services/api'
+import Button from '@/components/ui/Button'
+
+interface CityScopeInputProps {
+  cities: string[]
+  onChange: (cities: string[]) => void
+  error?: string
+}
+
+// Picks the cities a city coordinator may manage, from the cities that already have locations
+const CityScopeInput: React.FC<CityScopeInputProps> = ({ cities, onChange, error }) => {
+  const [cityToAdd, setCityToAdd] = useState('')
+
+  const { data: citiesResponse } = useQuery({
+    queryKey: ['cities', '', ''],
+    queryFn: () => locationsApi.getCities(),
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const availableCities = (citiesResponse?.data || []).filter((city) => !cities.includes(city))
+
+  const addCity = () => {
+    if (!cityToAdd) return
+    onChange([...cities, cityToAdd])
+    setCityToAdd('')
+  }
+
+  return (
+    <div className="space-y-2">
+      <span className="text-sm font-medium text-gray-700">Cities</span>
+      {cities.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {cities.map((city) => (
+            <span key={city} className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-primary-50 text-primary-700 text-sm">
+              {city}
+              <button
+                type="button"
+                onClick={() => onChange(cities.filter((c) => c !== city))}
+                className="hover:text-primary-900"
+                aria-label={`Remove ${city}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <select
+          value={cityToAdd}
+          onChange={(e) => setCityToAdd(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          aria-label="City to add"
+        >
+          <option value="">Choose a city...</option>
+          {availableCities.map((city) => (
+            <option key={city} value={city}>{city}</option>
+          ))}
+        </select>
+        <Button type="button" variant="outline" onClick={addCity} disabled={!cityToAdd}>
+          Add
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
+
+export default CityScopeInput
\ No newline at end of file
@@ -0,0 +1,82 @@
+import React from 'react'
+import { cn } from '@/lib/utils'
+
+interface JsonDiffProps {
+  oldValues?: string
+  newValues?: string
+  className?: string
+}
+
+const parseValues = (json?: string): Record<string, unknown> | null => {
+  if (!json) return null
+  try {
+    const parsed = JSON.parse(json)
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? parsed
+      : { value: parsed }
+  } catch {
+    // Older log entries may hold plain text rather than JSON
+    return { value: json }
+  }
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—'
+  if (typeof value === 'object') return JSON.stringify(value, null, 2)
+  return String(value)
+}
+
+const JsonDiff: React.FC<JsonDiffProps> = ({ oldValues, newValues, className }) => {
+  const before = parseValues(oldValues)
+  const after = parseValues(newValues)
+
+  if (!before && !after) {
+    return <p className="text-sm text-gray-500">No values were recorded for this change</p>
+  }
+
+  const keys = Array.from(new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]))
+
+  return (
+    <div className={cn('overflow-x-auto', className)}>
+      <table className="min-w-full text-sm border border-gray-200 rounded-lg">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-1/5">Field</th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Before</th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">After</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {keys.map((key) => {
+            const oldValue = formatValue(before?.[key])
+            const newValue = formatValue(after?.[key])
+            const changed = oldValue !== newValue
+
+            return (
+              <tr key={key}>
+                <td className="px-3 py-2 font-medium text-gray-700 align-top">{key}</td>
+                <td className={cn(
+                  'px-3 py-2 align-top whitespace-pre-wrap break-all font-mono text-xs',
+                  changed && before ? 'bg-red-50 text-red-800' : 'text-gray-600'
+                )}>
+                  {before ? oldValue : '—'}
+                </td>
+                <td className={cn(
+                  'px-3 py-2 align-top whitespace-pre-wrap break-all font-mono text-xs',
+                  changed && after ? 'bg-green-50 text-green-800' : 'text-gray-600'
+                )}>
+                  {after ? newValue : '—'}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default JsonDiff
\ No newline at end of file
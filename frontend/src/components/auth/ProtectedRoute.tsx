@@ -2,15 +2,19 @@ import React from 'react'
 import { Navigate, useLocation } from 'react-router-dom'
 import { useAuth } from '@/contexts/AuthContext'
 import { PageLoading } from '@/components/ui/Loading'
+import { AdminRole } from '@/types/api'
+import { hasPermission, Permission } from '@/lib/permissions'
 
 interface ProtectedRouteProps {
   children: React.ReactNode
-  requiredRole?: string
+  requiredRole?: AdminRole
+  requiredPermission?: Permission
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   children,
-  requiredRole
+  requiredRole,
+  requiredPermission
 }) => {
   const { isAuthenticated, isLoading, user } = useAuth()
   const location = useLocation()
@@ -21,11 +25,12 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
 
   if (!isAuthenticated) {
     // Redirect to login page with return URL
-    return <Navigate to={`/admin/login?returnUrl=${encodeURIComponent(location.pathname)}`} replace />
+    return <Navigate to={`/admin/login?returnUrl=${encodeURIComponent(location.pathname + location.search)}`} replace />
   }
 
-  // Check if user has required role (if specified)
-  if (requiredRole && user?.role !== requiredRole && user?.role !== 'super_admin') {
+  // Check if user has required role or permission (if specified)
+  const hasRole = !requiredRole || user?.role === requiredRole || user?.role === 'super_admin'
+  if (!hasRole || (requiredPermission && !hasPermission(user, requiredPermission))) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
         <div className="text-center">
@@ -0,0 +1,81 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { CalendarPlus, Download, Link as LinkIcon, Rss } from 'lucide-react'
+import Button from '@/components/ui/Button'
+import { useToast } from '@/components/ui/Toast'
+import { calendarApi } from '@/services/api'
+
+interface CalendarExportMenuProps {
+  url: string
+  // Single stays only make sense as a download; saint and city exports can also be subscribed to
+  subscribable?: boolean
+}
+
+const CalendarExportMenu: React.FC<CalendarExportMenuProps> = ({ url, subscribable = false }) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const { addToast } = useToast()
+  const feedUrl = calendarApi.toFeedUrl(url)
+
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [])
+
+  const handleCopy = async () => {
+    setIsOpen(false)
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      addToast({ type: 'success', title: 'Feed URL copied', message: 'Add it to your calendar app as a subscription' })
+    } catch {
+      addToast({ type: 'error', title: 'Could not copy feed URL', message: feedUrl })
+    }
+  }
+
+  if (!subscribable) {
+    return (
+      <a
+        href={url}
+        download
+        className="inline-flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700"
+      >
+        <CalendarPlus className="w-4 h-4" />
+        Add to calendar
+      </a>
+    )
+  }
+
+  const itemClassName = 'flex w-full items-center gap-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50'
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(!isOpen)} aria-expanded={isOpen}>
+        <CalendarPlus className="w-4 h-4 mr-1" />
+        Calendar
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-60 rounded-lg border border-gray-200 bg-white py-1 shadow-lg">
+          <a href={url} download className={itemClassName} onClick={() => setIsOpen(false)}>
+            <Download className="w-4 h-4 text-gray-500" />
+            Download .ics
+          </a>
+          <a href={feedUrl} className={itemClassName} onClick={() => setIsOpen(false)}>
+            <Rss className="w-4 h-4 text-gray-500" />
+            Subscribe in calendar app
+          </a>
+          <button type="button" className={itemClassName} onClick={handleCopy}>
+            <LinkIcon className="w-4 h-4 text-gray-500" />
+            Copy feed URL
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CalendarExportMenu
\ No newline at end of file
@@ -0,0 +1,172 @@
+import React from 'react'
+import { CalendarBar, CalendarRange, CalendarWeek, addDays, parseDay } from '@/lib/calendarGrid'
+import { cn } from '@/lib/utils'
+
+interface CalendarWeekRowProps {
+  week: CalendarWeek
+  // Lanes beyond this collapse into a "+N more" link per day
+  maxLanes?: number
+  currentMonth?: string
+  today: string
+  canDrag: boolean
+  // Narrows canDrag per stay, e.g. to the cities a coordinator manages
+  canDragBar?: (bar: CalendarBar) => boolean
+  movingId: string | null
+  preview: CalendarRange | null
+  onBarClick: (bar: CalendarBar) => void
+  onBarDragStart: (bar: CalendarBar, grabbedDay: string) => void
+  onDragOverDay: (day: string) => void
+  onDropDay: (day: string) => void
+  onDragEnd: () => void
+  onShowMore?: (day: string) => void
+}
+
+const BAR_COLORS = [
+  'bg-primary-100 text-primary-900 border-primary-300',
+  'bg-blue-100 text-blue-900 border-blue-300',
+  'bg-green-100 text-green-900 border-green-300',
+  'bg-purple-100 text-purple-900 border-purple-300',
+  'bg-amber-100 text-amber-900 border-amber-300',
+  'bg-rose-100 text-rose-900 border-rose-300',
+  'bg-teal-100 text-teal-900 border-teal-300',
+]
+
+// The same saint keeps the same colour across weeks and visits
+const colorFor = (saintId: string) => {
+  let hash = 0
+  for (const char of saintId) hash = (hash * 31 + char.charCodeAt(0)) | 0
+  return BAR_COLORS[Math.abs(hash) % BAR_COLORS.length]
+}
+
+const CalendarWeekRow: React.FC<CalendarWeekRowProps> = ({
+  week,
+  maxLanes,
+  currentMonth,
+  today,
+  canDrag,
+  canDragBar,
+  movingId,
+  preview,
+  onBarClick,
+  onBarDragStart,
+  onDragOverDay,
+  onDropDay,
+  onDragEnd,
+  onShowMore,
+}) => {
+  const visibleBars = maxLanes === undefined ? week.bars : week.bars.filter((bar) => bar.lane < maxLanes)
+  const hiddenCounts = week.days.map((_, column) =>
+    week.bars.filter((bar) =>
+      maxLanes !== undefined &&
+      bar.lane >= maxLanes &&
+      column >= bar.startColumn &&
+      column < bar.startColumn + bar.span
+    ).length
+  )
+
+  // Bars sit on top of the day cells, so the drop day comes from the pointer's column
+  const dayAt = (e: React.DragEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const column = Math.min(6, Math.max(0, Math.floor(((e.clientX - rect.left) / rect.width) * 7)))
+    return addDays(week.start, column)
+  }
+
+  const handleDragStart = (e: React.DragEvent<HTMLButtonElement>, bar: CalendarBar) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const offset = Math.min(bar.span - 1, Math.floor(((e.clientX - rect.left) / rect.width) * bar.span))
+    e.dataTransfer.effectAllowed = 'move'
+    e.dataTransfer.setData('text/plain', bar.schedule.id)
+    onBarDragStart(bar, addDays(week.start, bar.startColumn + offset))
+  }
+
+  const barLabel = (bar: CalendarBar) => {
+    const saint = bar.schedule.saint
+    const name = saint ? `${saint.title ? `${saint.title} ` : ''}${saint.name}` : 'Unknown saint'
+    return maxLanes === undefined
+      ? `${name} · ${bar.schedule.location?.name || ''}${bar.schedule.location?.city ? `, ${bar.schedule.location.city}` : ''}`
+      : `${name}${bar.schedule.location?.city ? ` · ${bar.schedule.location.city}` : ''}`
+  }
+
+  return (
+    <div
+      className={cn('relative border-b border-gray-200 last:border-b-0', maxLanes === undefined ? 'min-h-[24rem]' : 'min-h-[7rem]')}
+      onDragOver={(e) => {
+        if (!canDrag) return
+        e.preventDefault()
+        onDragOverDay(dayAt(e))
+      }}
+      onDrop={(e) => {
+        if (!canDrag) return
+        e.preventDefault()
+        onDropDay(dayAt(e))
+      }}
+    >
+      {/* Day backgrounds */}
+      <div className="absolute inset-0 grid grid-cols-7">
+        {week.days.map((day) => (
+          <div
+            key={day}
+            className={cn(
+              'border-r border-gray-100 last:border-r-0',
+              currentMonth && !day.startsWith(currentMonth) && 'bg-gray-50',
+              preview && day >= preview.start && day <= preview.end && 'bg-primary-50'
+            )}
+          />
+        ))}
+      </div>
+
+      <div className="relative grid grid-cols-7 gap-y-1 pb-2">
+        {week.days.map((day, column) => (
+          <div key={day} style={{ gridColumn: column + 1, gridRow: 1 }} className="px-2 pt-1">
+            <span
+              className={cn(
+                'inline-flex items-center justify-center w-6 h-6 text-sm rounded-full',
+                day === today ? 'bg-primary-600 text-white font-semibold' : 'text-gray-700',
+                currentMonth && !day.startsWith(currentMonth) && day !== today && 'text-gray-400'
+              )}
+            >
+              {parseDay(day).getUTCDate()}
+            </span>
+          </div>
+        ))}
+
+        {visibleBars.map((bar) => (
+          <button
+            key={bar.schedule.id}
+            type="button"
+            draggable={canDrag && (canDragBar?.(bar) ?? true)}
+            onDragStart={(e) => handleDragStart(e, bar)}
+            onDragEnd={onDragEnd}
+            onClick={() => onBarClick(bar)}
+            title={barLabel(bar)}
+            style={{ gridColumn: `${bar.startColumn + 1} / span ${bar.span}`, gridRow: bar.lane + 2 }}
+            className={cn(
+              'mx-1 truncate border px-2 py-0.5 text-left text-xs font-medium hover:brightness-95',
+              colorFor(bar.schedule.saintId),
+              bar.continuesBefore ? 'rounded-l-none border-l-0 ml-0' : 'rounded-l-md',
+              bar.continuesAfter ? 'rounded-r-none border-r-0 mr-0' : 'rounded-r-md',
+              canDrag && (canDragBar?.(bar) ?? true) && 'cursor-grab active:cursor-grabbing',
+              movingId === bar.schedule.id && 'opacity-50'
+            )}
+          >
+            {barLabel(bar)}
+          </button>
+        ))}
+
+        {maxLanes !== undefined && hiddenCounts.map((count, column) => count > 0 && (
+          <button
+            key={`more-${column}`}
+            type="button"
+            onClick={() => onShowMore?.(week.days[column])}
+            style={{ gridColumn: column + 1, gridRow: maxLanes + 2 }}
+            className="px-2 text-left text-xs text-gray-500 hover:text-primary-600"
+          >
+            +{count} more
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default CalendarWeekRow
\ No newline at end of file
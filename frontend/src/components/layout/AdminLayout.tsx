@@ -0,0 +1,122 @@
+import React from 'react'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
+import { LogOut, Home, LayoutDashboard, Users, Calendar, MapPin, Activity, UserCog, UserCircle } from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+import Button from '@/components/ui/Button'
+import { usePermissions } from '@/hooks/usePermission'
+import { Permission, ROLE_LABELS } from '@/lib/permissions'
+
+interface AdminLayoutProps {
+  title: string
+  description?: string
+  actions?: React.ReactNode
+  children: React.ReactNode
+}
+
+const AdminLayout: React.FC<AdminLayoutProps> = ({ title, description, actions, children }) => {
+  const { user, logout } = useAuth()
+  const navigate = useNavigate()
+  const location = useLocation()
+  const can = usePermissions()
+
+  const sections: { name: string; href: string; icon: typeof Users; permission?: Permission }[] = [
+    { name: 'Dashboard', href: '/admin/dashboard', icon: LayoutDashboard },
+    { name: 'Saints', href: '/admin/saints', icon: Users, permission: 'saint:view' },
+    { name: 'Schedules', href: '/admin/schedules', icon: Calendar, permission: 'schedule:view' },
+    { name: 'Locations', href: '/admin/locations', icon: MapPin, permission: 'location:view' },
+    { name: 'Activity Logs', href: '/admin/logs', icon: Activity, permission: 'activity:view' },
+    { name: 'Admin Users', href: '/admin/users', icon: UserCog, permission: 'user:view' },
+    { name: 'My Account', href: '/admin/profile', icon: UserCircle },
+  ]
+  const navigation = sections.filter((item) => !item.permission || can(item.permission))
+
+  const handleLogout = () => {
+    logout()
+    navigate('/admin/login')
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Link to="/admin/dashboard" className="flex items-center space-x-2">
+                <div className="w-8 h-8 bg-primary-600 rounded-lg flex items-center justify-center">
+                  <span className="text-white font-bold text-lg">JM</span>
+                </div>
+                <span className="text-xl font-bold text-gray-900">Admin Panel</span>
+              </Link>
+            </div>
+
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">
+                Welcome, {user?.username}
+                {user && (
+                  <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-700">
+                    {ROLE_LABELS[user.role] || user.role}
+                    {user.role === 'city_coordinator' && user.cities?.length > 0 && ` · ${user.cities.join(', ')}`}
+                  </span>
+                )}
+              </span>
+              <Button
+                variant="outline"
+                onClick={() => navigate('/')}
+                className="flex items-center gap-2"
+              >
+                <Home className="w-4 h-4" />
+                Main Site
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleLogout}
+                className="flex items-center gap-2"
+              >
+                <LogOut className="w-4 h-4" />
+                Logout
+              </Button>
+            </div>
+          </div>
+
+          {/* Section Navigation */}
+          <nav className="flex space-x-2 overflow-x-auto pb-2">
+            {navigation.map((item) => (
+              <Link
+                key={item.name}
+                to={item.href}
+                className={`flex items-center space-x-1 px-3 py-2 rounded-md text-sm font-medium whitespace-nowrap transition-colors ${
+                  location.pathname.startsWith(item.href)
+                    ? 'text-primary-600 bg-primary-50'
+                    : 'text-gray-700 hover:text-primary-600 hover:bg-gray-50'
+                }`}
+              >
+                <item.icon className="w-4 h-4" />
+                <span>{item.name}</span>
+              </Link>
+            ))}
+          </nav>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Page Header */}
+        <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{title}</h1>
+            {description && (
+              <p className="text-gray-600">{description}</p>
+            )}
+          </div>
+          {actions && (
+            <div className="flex items-center gap-2">{actions}</div>
+          )}
+        </div>
+
+        {children}
+      </main>
+    </div>
+  )
+}
+
+export default AdminLayout
\ No newline at end of file
@@ -1,18 +1,33 @@
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { Link, useLocation } from 'react-router-dom'
-import { Search, Menu, X, User, MapPin, Calendar, Users } from 'lucide-react'
+import { Search, Menu, X, User, MapPin, Calendar, Users, Navigation, Bell } from 'lucide-react'
+import GlobalSearch from '@/components/search/GlobalSearch'
 
 const Header: React.FC = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false)
   const [isSearchOpen, setIsSearchOpen] = useState(false)
-  const [searchQuery, setSearchQuery] = useState('')
   const location = useLocation()
 
+  // Ctrl/Cmd+K opens the search palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        setIsSearchOpen(true)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
   const navigation = [
     { name: 'Home', href: '/', icon: null },
     { name: 'All Saints', href: '/saints', icon: Users },
     { name: 'By Location', href: '/locations', icon: MapPin },
     { name: 'Map View', href: '/map', icon: MapPin },
+    { name: 'Near Me', href: '/near-me', icon: Navigation },
+    { name: 'Calendar', href: '/calendar', icon: Calendar },
   ]
 
   const isActive = (href: string) => {
@@ -22,16 +37,8 @@ const Header: React.FC = () => {
     return location.pathname.startsWith(href)
   }
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault()
-    if (searchQuery.trim()) {
-      // Navigate to search results
-      window.location.href = `/saints?search=${encodeURIComponent(searchQuery.trim())}`
-    }
-  }
-
   return (
-    <header className="bg-white shadow-sm border-b border-gray-200 sticky top-0 z-40">
+    <header className="bg-white shadow-sm border-b border-gray-200 sticky top-0 z-40 print:hidden">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center h-16">
           {/* Logo */}
@@ -66,10 +73,22 @@ const Header: React.FC = () => {
             <button
               onClick={() => setIsSearchOpen(true)}
               className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md"
+              title="Search (Ctrl+K)"
+              aria-label="Search"
             >
               <Search className="w-5 h-5" />
             </button>
 
+            {/* Notification Preferences */}
+            <Link
+              to="/notifications"
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md"
+              title="Notification preferences"
+              aria-label="Notification preferences"
+            >
+              <Bell className="w-5 h-5" />
+            </Link>
+
             {/* Admin Login */}
             <Link
               to="/admin/login"
@@ -121,51 +140,8 @@ const Header: React.FC = () => {
         </div>
       )}
 
-      {/* Search Overlay */}
-      {isSearchOpen && (
-        <div className="fixed inset-0 z-50 bg-black bg-opacity-50">
-          <div className="bg-white border-b border-gray-200">
-            <div className="max-w-3xl mx-auto p-4">
-              <form onSubmit={handleSearch} className="flex items-center space-x-2">
-                <div className="flex-1 relative">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                  <input
-                    type="text"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    placeholder="Search for saints, locations, or cities..."
-                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                    autoFocus
-                  />
-                </div>
-                <button
-                  type="submit"
-                  className="px-6 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
-                >
-                  Search
-                </button>
-                <button
-                  type="button"
-                  onClick={() => {
-                    setIsSearchOpen(false)
-                    setSearchQuery('')
-                  }}
-                  className="p-3 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg"
-                >
-                  <X className="w-5 h-5" />
-                </button>
-              </form>
-            </div>
-          </div>
-          <div
-            className="flex-1"
-            onClick={() => {
-              setIsSearchOpen(false)
-              setSearchQuery('')
-            }}
-          />
-        </div>
-      )}
+      {/* Search Palette */}
+      <GlobalSearch isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} />
     </header>
   )
 }
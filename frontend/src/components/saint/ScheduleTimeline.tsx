@@ -0,0 +1,69 @@
+import React from 'react'
+import { Link } from 'react-router-dom'
+import { TimelineYear } from '@/lib/viharTimeline'
+import { cn, formatDateRange } from '@/lib/utils'
+
+interface ScheduleTimelineProps {
+  years: TimelineYear[]
+}
+
+const ScheduleTimeline: React.FC<ScheduleTimelineProps> = ({ years }) => {
+  return (
+    <div className="space-y-8">
+      {years.map(({ year, seasons }) => (
+        <section key={year}>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">{year}</h3>
+          <div className="space-y-6">
+            {seasons.map(({ season, label, stays }) => (
+              <div key={season}>
+                <h4
+                  className={cn(
+                    'text-xs font-medium uppercase tracking-wider mb-3',
+                    season === 'chaturmas' ? 'text-primary-700' : 'text-gray-500'
+                  )}
+                >
+                  {label}
+                </h4>
+                <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4">
+                  {stays.map((stay) => (
+                    <li key={stay.id} className="ml-6">
+                      <span
+                        className={cn(
+                          'absolute -left-[9px] w-4 h-4 rounded-full border-2 border-white',
+                          stay.isCurrent ? 'bg-green-500' : stay.isUpcoming ? 'bg-yellow-500' : 'bg-gray-400'
+                        )}
+                      />
+                      <div className="flex flex-wrap items-baseline justify-between gap-x-4">
+                        <p className="font-medium text-gray-900">{stay.location?.name}</p>
+                        <p className="text-sm text-gray-500">{formatDateRange(stay.startDate, stay.endDate)}</p>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {stay.location?.city && (
+                          <Link
+                            to={`/locations/${encodeURIComponent(stay.location.city)}`}
+                            className="hover:text-primary-600"
+                          >
+                            {stay.location.city}
+                          </Link>
+                        )}
+                        {stay.location?.state && `, ${stay.location.state}`}
+                        {stay.purpose && <span className="text-gray-500"> · {stay.purpose}</span>}
+                      </p>
+                      {stay.isCurrent && (
+                        <span className="inline-block mt-1 text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-800">
+                          Here now
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  )
+}
+
+export default ScheduleTimeline
\ No newline at end of file
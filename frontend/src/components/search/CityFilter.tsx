@@ -0,0 +1,211 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { MapPin, X, ChevronDown } from 'lucide-react'
+import { locationsApi, schedulesApi } from '@/services/api'
+import { LoadingSpinner } from '@/components/ui/Loading'
+import { cn, debounce } from '@/lib/utils'
+
+interface CityFilterProps {
+  city: string
+  state: string
+  onCityChange: (city: string) => void
+  onStateChange: (state: string) => void
+}
+
+const CityFilter: React.FC<CityFilterProps> = ({ city, state, onCityChange, onStateChange }) => {
+  const [inputValue, setInputValue] = useState(city)
+  const [cityQuery, setCityQuery] = useState('')
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const updateCityQuery = useMemo(() => debounce((value: string) => setCityQuery(value), 250), [])
+
+  useEffect(() => {
+    setInputValue(city)
+  }, [city])
+
+  // Close when focus or clicks move elsewhere on the page
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+        setInputValue(city)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [city])
+
+  const { data: statesResponse } = useQuery({
+    queryKey: ['states'],
+    queryFn: () => locationsApi.getStates(),
+    staleTime: 10 * 60 * 1000,
+  })
+
+  const { data: citiesResponse, isFetching } = useQuery({
+    queryKey: ['cities', cityQuery, state],
+    queryFn: () => locationsApi.getCities(cityQuery || undefined, state || undefined),
+    enabled: isOpen,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const { data: currentResponse } = useQuery({
+    queryKey: ['schedules', 'current'],
+    queryFn: () => schedulesApi.getCurrent(),
+    staleTime: 5 * 60 * 1000,
+  })
+
+  // Distinct saints staying in each city today, keyed case-insensitively
+  const currentCounts = useMemo(() => {
+    const saintsByCity = new Map<string, Set<string>>()
+    ;(currentResponse?.data || []).forEach((schedule) => {
+      const key = schedule.location?.city?.toLowerCase()
+      if (!key) return
+      if (!saintsByCity.has(key)) saintsByCity.set(key, new Set())
+      saintsByCity.get(key)!.add(schedule.saintId)
+    })
+    return saintsByCity
+  }, [currentResponse])
+
+  const cities = citiesResponse?.data || []
+  const states = statesResponse?.data || []
+
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [cities.length, cityQuery])
+
+  const selectCity = (value: string) => {
+    onCityChange(value)
+    setInputValue(value)
+    setIsOpen(false)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setIsOpen(true)
+        setActiveIndex(prev => (cities.length === 0 ? 0 : Math.min(prev + 1, cities.length - 1)))
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setActiveIndex(prev => Math.max(prev - 1, 0))
+        break
+      case 'Enter':
+        e.preventDefault()
+        if (isOpen && cities[activeIndex]) {
+          selectCity(cities[activeIndex])
+        }
+        break
+      case 'Escape':
+        setIsOpen(false)
+        setInputValue(city)
+        break
+    }
+  }
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-4">
+      {/* State grouping */}
+      <div className="sm:w-56">
+        <label htmlFor="state-filter" className="block text-sm font-medium text-gray-700 mb-2">State</label>
+        <select
+          id="state-filter"
+          value={state}
+          onChange={(e) => onStateChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        >
+          <option value="">All states</option>
+          {states.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* City combobox */}
+      <div ref={containerRef} className="flex-1 relative">
+        <label htmlFor="city-filter" className="block text-sm font-medium text-gray-700 mb-2">City</label>
+        <div className="relative">
+          <MapPin className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+          <input
+            id="city-filter"
+            type="text"
+            value={inputValue}
+            onChange={(e) => {
+              setInputValue(e.target.value)
+              updateCityQuery(e.target.value.trim())
+              setIsOpen(true)
+            }}
+            onFocus={() => setIsOpen(true)}
+            onKeyDown={handleKeyDown}
+            placeholder={state ? `Any city in ${state}` : 'Any city'}
+            className="w-full pl-9 pr-16 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            role="combobox"
+            aria-expanded={isOpen}
+            aria-controls="city-filter-options"
+            autoComplete="off"
+          />
+          <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex items-center gap-1">
+            {city && (
+              <button
+                type="button"
+                onClick={() => selectCity('')}
+                className="p-1 text-gray-400 hover:text-gray-600"
+                aria-label="Clear city"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+            <ChevronDown className="w-4 h-4 text-gray-400" />
+          </div>
+        </div>
+
+        {isOpen && (
+          <ul
+            id="city-filter-options"
+            role="listbox"
+            className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg py-1"
+          >
+            {isFetching && cities.length === 0 && (
+              <li className="flex justify-center py-3">
+                <LoadingSpinner size="sm" />
+              </li>
+            )}
+            {!isFetching && cities.length === 0 && (
+              <li className="px-3 py-2 text-sm text-gray-500">No matching cities</li>
+            )}
+            {cities.map((name, index) => {
+              const count = currentCounts.get(name.toLowerCase())?.size || 0
+              return (
+                <li
+                  key={name}
+                  role="option"
+                  aria-selected={name === city}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => selectCity(name)}
+                  className={cn(
+                    'flex items-center justify-between px-3 py-2 text-sm cursor-pointer',
+                    index === activeIndex ? 'bg-primary-50 text-primary-700' : 'text-gray-700',
+                    name === city && 'font-medium'
+                  )}
+                >
+                  <span>{name}</span>
+                  {count > 0 && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-800">
+                      {count} {count === 1 ? 'saint' : 'saints'} now
+                    </span>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default CityFilter
\ No newline at end of file
@@ -0,0 +1,257 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { Search, X, User, MapPin, Building2, Clock, ArrowRight } from 'lucide-react'
+import { searchApi } from '@/services/api'
+import { LoadingSpinner } from '@/components/ui/Loading'
+import { cn, debounce } from '@/lib/utils'
+
+type SuggestionType = 'saint' | 'location' | 'city' | 'query'
+
+interface Suggestion {
+  id: string
+  type: SuggestionType
+  label: string
+  detail?: string
+  href: string
+}
+
+interface GlobalSearchProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const RECENT_SEARCHES_KEY = 'recentSearches'
+const MAX_RECENT_SEARCHES = 5
+const MIN_QUERY_LENGTH = 2
+
+const SUGGESTION_ICONS: Record<SuggestionType, React.ElementType> = {
+  saint: User,
+  location: Building2,
+  city: MapPin,
+  query: Search,
+}
+
+const loadRecentSearches = (): Suggestion[] => {
+  try {
+    const stored = localStorage.getItem(RECENT_SEARCHES_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+const saveRecentSearch = (suggestion: Suggestion) => {
+  const recent = loadRecentSearches().filter((item) => item.href !== suggestion.href)
+  localStorage.setItem(
+    RECENT_SEARCHES_KEY,
+    JSON.stringify([suggestion, ...recent].slice(0, MAX_RECENT_SEARCHES))
+  )
+}
+
+const GlobalSearch: React.FC<GlobalSearchProps> = ({ isOpen, onClose }) => {
+  const [query, setQuery] = useState('')
+  const [debouncedQuery, setDebouncedQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [recentSearches, setRecentSearches] = useState<Suggestion[]>([])
+  const inputRef = useRef<HTMLInputElement>(null)
+  const navigate = useNavigate()
+
+  const updateDebouncedQuery = useMemo(() => debounce((value: string) => setDebouncedQuery(value), 250), [])
+
+  useEffect(() => {
+    if (isOpen) {
+      setRecentSearches(loadRecentSearches())
+      inputRef.current?.focus()
+    } else {
+      setQuery('')
+      setDebouncedQuery('')
+    }
+  }, [isOpen])
+
+  const trimmedQuery = debouncedQuery.trim()
+  const { data: response, isFetching } = useQuery({
+    queryKey: ['search-suggestions', trimmedQuery],
+    queryFn: () => searchApi.getSuggestions(trimmedQuery),
+    enabled: isOpen && trimmedQuery.length >= MIN_QUERY_LENGTH,
+    staleTime: 30 * 1000,
+  })
+
+  const suggestions = useMemo<Suggestion[]>(() => {
+    const typed = query.trim()
+    if (typed.length < MIN_QUERY_LENGTH) return recentSearches
+
+    const data = response?.data
+    const items: Suggestion[] = [
+      ...(data?.saints || []).map((saint) => ({
+        id: `saint-${saint.id}`,
+        type: 'saint' as const,
+        label: `${saint.title ? `${saint.title} ` : ''}${saint.name}`,
+        detail: saint.currentSchedule?.location?.city
+          ? `Currently in ${saint.currentSchedule.location.city}`
+          : saint.spiritualLineage,
+        href: `/saints/${saint.id}`,
+      })),
+      ...(data?.locations || []).map((location) => ({
+        id: `location-${location.id}`,
+        type: 'location' as const,
+        label: location.name,
+        detail: `${location.city}${location.state ? `, ${location.state}` : ''}`,
+        href: `/locations/${encodeURIComponent(location.city)}`,
+      })),
+      ...(data?.cities || []).map((city) => ({
+        id: `city-${city}`,
+        type: 'city' as const,
+        label: city,
+        detail: 'City',
+        href: `/locations/${encodeURIComponent(city)}`,
+      })),
+    ]
+
+    // Always offer the full search page as the last option
+    items.push({
+      id: 'query',
+      type: 'query',
+      label: `See all results for "${typed}"`,
+      href: `/search?q=${encodeURIComponent(typed)}`,
+    })
+
+    return items
+  }, [query, response, recentSearches])
+
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [suggestions])
+
+  const selectSuggestion = (suggestion: Suggestion) => {
+    saveRecentSearch(suggestion)
+    onClose()
+    navigate(suggestion.href)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setActiveIndex(prev => (suggestions.length === 0 ? 0 : (prev + 1) % suggestions.length))
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setActiveIndex(prev => (suggestions.length === 0 ? 0 : (prev - 1 + suggestions.length) % suggestions.length))
+        break
+      case 'Enter':
+        e.preventDefault()
+        if (suggestions[activeIndex]) {
+          selectSuggestion(suggestions[activeIndex])
+        }
+        break
+      case 'Escape':
+        e.preventDefault()
+        onClose()
+        break
+    }
+  }
+
+  const clearRecentSearches = () => {
+    localStorage.removeItem(RECENT_SEARCHES_KEY)
+    setRecentSearches([])
+  }
+
+  if (!isOpen) return null
+
+  const showingRecent = query.trim().length < MIN_QUERY_LENGTH
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-start justify-center pt-20 px-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl bg-white rounded-lg shadow-xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Search"
+      >
+        <div className="flex items-center gap-2 border-b border-gray-200 px-4">
+          <Search className="text-gray-400 w-5 h-5 flex-shrink-0" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value)
+              updateDebouncedQuery(e.target.value)
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Search for saints, locations, or cities..."
+            className="flex-1 py-4 text-base outline-none"
+            role="combobox"
+            aria-expanded={suggestions.length > 0}
+            aria-controls="global-search-results"
+            aria-activedescendant={suggestions[activeIndex] ? `global-search-${suggestions[activeIndex].id}` : undefined}
+          />
+          {isFetching && <LoadingSpinner size="sm" />}
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md"
+            aria-label="Close search"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {showingRecent && recentSearches.length > 0 && (
+          <div className="flex items-center justify-between px-4 pt-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <span>Recent searches</span>
+            <button type="button" onClick={clearRecentSearches} className="normal-case hover:text-gray-700">
+              Clear
+            </button>
+          </div>
+        )}
+
+        {showingRecent && recentSearches.length === 0 && (
+          <p className="px-4 py-6 text-sm text-gray-500 text-center">
+            Type at least {MIN_QUERY_LENGTH} characters to search
+          </p>
+        )}
+
+        {suggestions.length > 0 && (
+          <ul id="global-search-results" role="listbox" className="max-h-96 overflow-y-auto py-2">
+            {suggestions.map((suggestion, index) => {
+              const Icon = showingRecent ? Clock : SUGGESTION_ICONS[suggestion.type]
+              return (
+                <li
+                  key={suggestion.id}
+                  id={`global-search-${suggestion.id}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => selectSuggestion(suggestion)}
+                  className={cn(
+                    'flex items-center gap-3 px-4 py-2 cursor-pointer',
+                    index === activeIndex ? 'bg-primary-50 text-primary-700' : 'text-gray-700'
+                  )}
+                >
+                  <Icon className="w-4 h-4 flex-shrink-0 text-gray-400" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{suggestion.label}</p>
+                    {suggestion.detail && (
+                      <p className="text-xs text-gray-500 truncate">{suggestion.detail}</p>
+                    )}
+                  </div>
+                  {index === activeIndex && <ArrowRight className="w-4 h-4 flex-shrink-0" />}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        <div className="flex gap-4 px-4 py-2 border-t border-gray-200 bg-gray-50 text-xs text-gray-500">
+          <span><kbd className="font-sans">↑</kbd> <kbd className="font-sans">↓</kbd> to navigate</span>
+          <span><kbd className="font-sans">Enter</kbd> to open</span>
+          <span><kbd className="font-sans">Esc</kbd> to close</span>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default GlobalSearch
\ No newline at end of file
@@ -0,0 +1,80 @@
+import React, { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Bell, BellOff } from 'lucide-react'
+import Button from '@/components/ui/Button'
+import { useToast } from '@/components/ui/Toast'
+import { useSubscription } from '@/hooks/useSubscription'
+import { getErrorMessage } from '@/lib/utils'
+
+type FollowButtonProps =
+  | { saintId: string; saintName: string; city?: never }
+  | { city: string; saintId?: never; saintName?: never }
+
+const FollowButton: React.FC<FollowButtonProps> = ({ saintId, saintName, city }) => {
+  const { subscriptionId, subscription, isLoading, updateSubscription } = useSubscription()
+  const [isSaving, setIsSaving] = useState(false)
+  const navigate = useNavigate()
+  const { addToast } = useToast()
+
+  const label = saintId ? saintName : city
+  const isFollowing = saintId
+    ? !!subscription?.followedSaints.includes(saintId)
+    : !!subscription?.preferredCities.some((preferred) => preferred.toLowerCase() === city!.toLowerCase())
+
+  const handleClick = async () => {
+    // First-time followers need to say how they want to be notified
+    if (!subscriptionId) {
+      const params = new URLSearchParams(saintId ? { followSaint: saintId } : { followCity: city! })
+      navigate(`/notifications?${params.toString()}`)
+      return
+    }
+
+    if (!subscription) return
+
+    setIsSaving(true)
+    try {
+      if (saintId) {
+        await updateSubscription({
+          followedSaints: isFollowing
+            ? subscription.followedSaints.filter((id) => id !== saintId)
+            : [...subscription.followedSaints, saintId],
+        })
+      } else {
+        await updateSubscription({
+          preferredCities: isFollowing
+            ? subscription.preferredCities.filter((preferred) => preferred.toLowerCase() !== city!.toLowerCase())
+            : [...subscription.preferredCities, city!],
+        })
+      }
+
+      addToast({
+        type: 'success',
+        title: isFollowing ? `Unfollowed ${label}` : `Following ${label}`,
+        message: isFollowing ? undefined : 'You will be notified based on your preferences',
+      })
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Could not update follow',
+        message: getErrorMessage(error),
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Button
+      variant={isFollowing ? 'outline' : 'primary'}
+      size="sm"
+      onClick={handleClick}
+      loading={isSaving}
+      disabled={isLoading}
+    >
+      {!isSaving && (isFollowing ? <BellOff className="w-4 h-4 mr-1" /> : <Bell className="w-4 h-4 mr-1" />)}
+      {isFollowing ? 'Following' : 'Follow'}
+    </Button>
+  )
+}
+
+export default FollowButton
\ No newline at end of file
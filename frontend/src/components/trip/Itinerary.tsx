@@ -0,0 +1,107 @@
+import React from 'react'
+import { Printer, X, Phone, User } from 'lucide-react'
+import { Schedule } from '@/types/api'
+import { PlannedRoute } from '@/lib/routePlanner'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import Button from '@/components/ui/Button'
+import { formatDateRange, formatPhoneNumber } from '@/lib/utils'
+
+interface ItineraryStop {
+  position: [number, number]
+  schedule: Schedule
+}
+
+interface ItineraryProps {
+  startLabel: string
+  route: PlannedRoute<ItineraryStop>
+  onRemove: (scheduleId: string) => void
+  onClear: () => void
+}
+
+const formatKm = (distanceKm: number) => `${distanceKm.toFixed(1)} km`
+
+const Itinerary: React.FC<ItineraryProps> = ({ startLabel, route, onRemove, onClear }) => {
+  return (
+    <Card className="print:border-0 print:shadow-none">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Your Trip Itinerary</CardTitle>
+            <p className="text-sm text-gray-600 mt-1">
+              {route.stops.length} {route.stops.length === 1 ? 'stop' : 'stops'} · {formatKm(route.totalDistance)} in a straight line from {startLabel}
+            </p>
+          </div>
+          <div className="flex gap-2 print:hidden">
+            <Button variant="outline" size="sm" onClick={() => window.print()}>
+              <Printer className="w-4 h-4 mr-1" />
+              Print
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onClear}>
+              Clear
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-4">
+          {route.stops.map(({ schedule }, index) => {
+            const contactPhone = schedule.contactPhone || schedule.location?.contactPhone
+            return (
+              <li key={schedule.id} className="flex gap-4 pb-4 border-b border-gray-100 last:border-0 break-inside-avoid">
+                <div className="w-8 h-8 rounded-full bg-primary-600 text-white flex items-center justify-center font-semibold flex-shrink-0">
+                  {index + 1}
+                </div>
+                <div className="flex-1">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-semibold text-gray-900">
+                        {schedule.saint?.title ? `${schedule.saint.title} ` : ''}{schedule.saint?.name}
+                      </p>
+                      <p className="text-sm text-gray-700">{schedule.location?.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {schedule.location?.address}, {schedule.location?.city}
+                        {schedule.location?.state && `, ${schedule.location.state}`}
+                        {schedule.location?.postalCode && ` ${schedule.location.postalCode}`}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => onRemove(schedule.id)}
+                      className="p-1 text-gray-400 hover:text-gray-600 print:hidden"
+                      aria-label="Remove stop"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap gap-x-6 gap-y-1 mt-2 text-sm text-gray-600">
+                    {schedule.contactPerson && (
+                      <span className="flex items-center gap-1">
+                        <User className="w-4 h-4" />
+                        {schedule.contactPerson}
+                      </span>
+                    )}
+                    {contactPhone && (
+                      <span className="flex items-center gap-1">
+                        <Phone className="w-4 h-4" />
+                        {formatPhoneNumber(contactPhone)}
+                      </span>
+                    )}
+                    {!schedule.contactPerson && !contactPhone && (
+                      <span className="text-gray-400">No contact details</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Staying {formatDateRange(schedule.startDate, schedule.endDate)} · {formatKm(route.legDistances[index])} from {index === 0 ? 'start' : 'previous stop'}
+                  </p>
+                </div>
+              </li>
+            )
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default Itinerary
+export type { ItineraryStop }
\ No newline at end of file
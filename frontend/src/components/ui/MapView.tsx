@@ -1,7 +1,11 @@
 import React, { useEffect, useRef, useState } from 'react'
 import { LoadingSpinner } from './Loading'
 import Button from './Button'
-import MapService, { type MapMarker, type MapConfig } from '@/services/mapService'
+import MapService, { defaultMapConfig, type MapMarker } from '@/services/mapService'
+import { Location, Schedule } from '@/types/api'
+import 'leaflet/dist/leaflet.css'
+
+const INDIA_CENTER: [number, number] = [20.5937, 78.9629]
 
 interface MapViewProps {
   saints?: Array<{
@@ -35,6 +39,75 @@ interface MapViewProps {
   zoom?: number
   showUserLocation?: boolean
   userLocation?: { lat: number; lng: number }
+  pin?: [number, number] | null
+  onPinMove?: (position: [number, number]) => void
+  route?: RouteStop[]
+  routeStart?: [number, number]
+  temples?: Location[]
+}
+
+interface RouteStop {
+  id: string
+  position: [number, number]
+  title: string
+  description?: string
+  type?: MapMarker['type']
+  // Planned stops come last and are joined by a dashed line
+  planned?: boolean
+}
+
+type MapSaint = NonNullable<MapViewProps['saints']>[number]
+
+const hasCoordinates = (schedule: Schedule) =>
+  schedule.location?.latitude !== undefined && schedule.location?.latitude !== null &&
+  schedule.location?.longitude !== undefined && schedule.location?.longitude !== null
+
+// MapView groups markers per saint, so fold flat schedule lists into that shape
+const buildMapSaints = (current: Schedule[], upcoming: Schedule[]): MapSaint[] => {
+  const saints = new Map<string, MapSaint>()
+
+  const getSaint = (schedule: Schedule) => {
+    let saint = saints.get(schedule.saintId)
+    if (!saint) {
+      saint = {
+        id: schedule.saintId,
+        name: schedule.saint?.name || 'Unknown saint',
+        title: schedule.saint?.title,
+        upcomingSchedules: [],
+      }
+      saints.set(schedule.saintId, saint)
+    }
+    return saint
+  }
+
+  current.filter(hasCoordinates).forEach((schedule) => {
+    const location = schedule.location!
+    getSaint(schedule).currentLocation = {
+      name: location.name,
+      address: location.address,
+      city: location.city,
+      state: location.state,
+      latitude: location.latitude!,
+      longitude: location.longitude!,
+    }
+  })
+
+  upcoming.filter(hasCoordinates).forEach((schedule) => {
+    const location = schedule.location!
+    getSaint(schedule).upcomingSchedules!.push({
+      location: {
+        name: location.name,
+        city: location.city,
+        state: location.state,
+        latitude: location.latitude!,
+        longitude: location.longitude!,
+      },
+      startDate: schedule.startDate,
+      endDate: schedule.endDate,
+    })
+  })
+
+  return Array.from(saints.values())
 }
 
 const MapView: React.FC<MapViewProps> = ({
@@ -42,86 +115,195 @@ const MapView: React.FC<MapViewProps> = ({
   onMarkerClick,
   className = '',
   height = '400px',
-  center = [20.5937, 78.9629], // India center
+  center = INDIA_CENTER,
   zoom = 5,
   showUserLocation = false,
-  userLocation
+  userLocation,
+  pin,
+  onPinMove,
+  route,
+  routeStart,
+  temples
 }) => {
   const mapRef = useRef<HTMLDivElement>(null)
   const mapServiceRef = useRef<MapService | null>(null)
+  const saintMarkerIdsRef = useRef<string[]>([])
+  const routeMarkerIdsRef = useRef<string[]>([])
+  const templeMarkerIdsRef = useRef<string[]>([])
+  const onPinMoveRef = useRef(onPinMove)
+  const [isReady, setIsReady] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  // Mapbox configuration - you should get this from environment variables
-  const mapConfig: MapConfig = {
-    accessToken: 'pk.eyJ1IjoiMzI5OTQzNjYwZDUwYTZiIjoiYWZkY2UyMDEzNzUyNDRlNWNhMSIsImEiOiJjYTVjOTc0OTgwYzUwMDAwN2I2In0.NFEd3YjJLc0QxMTdDM3MXZ4MnJ2OTg',
-    styleId: 'mapbox/streets-v12',
-    center,
-    zoom
-  }
+  onPinMoveRef.current = onPinMove
 
+  // Create the map once; later prop changes are applied by the effects below
   useEffect(() => {
-    if (!mapRef.current) return
+    const container = mapRef.current
+    if (!container) return
 
-    const initializeMap = async () => {
-      try {
-        setIsLoading(true)
-        setError(null)
+    let cancelled = false
+    const mapService = new MapService({ ...defaultMapConfig, center, zoom })
+    mapServiceRef.current = mapService
 
-        const L = await import('leaflet')
+    mapService.initializeMap(container)
+      .then(() => {
+        if (cancelled) return
+        setIsReady(true)
+        setIsLoading(false)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        console.error('Failed to initialize map:', err)
+        setError('Failed to load map. Please try again later.')
+        setIsLoading(false)
+      })
 
-        // Load Leaflet CSS
-        const link = document.createElement('link')
-        link.rel = 'stylesheet'
-        link.href = 'https://unpkg.com/leaflet@1.9.4/dist/leaflet.css'
-        document.head.appendChild(link)
+    // Cleanup
+    return () => {
+      cancelled = true
+      mapService.destroy()
+      mapServiceRef.current = null
+      saintMarkerIdsRef.current = []
+      routeMarkerIdsRef.current = []
+      templeMarkerIdsRef.current = []
+      setIsReady(false)
+    }
+  }, [])
 
-        // Initialize map service
-        const mapService = new MapService(mapConfig)
-        mapServiceRef.current = mapService
+  // Recenter when the requested view changes
+  useEffect(() => {
+    if (isReady && mapServiceRef.current) {
+      mapServiceRef.current.setView(center, zoom)
+    }
+  }, [isReady, center[0], center[1], zoom])
 
-        // Initialize map
-        const map = await mapService.initializeMap(mapRef.current)
+  // Update markers when saints data changes
+  useEffect(() => {
+    const mapService = mapServiceRef.current
+    if (!isReady || !mapService) return
 
-        // Add markers for saints
-        addSaintMarkers(mapService, saints)
+    saintMarkerIdsRef.current.forEach((markerId) => mapService.removeMarker(markerId))
+    saintMarkerIdsRef.current = addSaintMarkers(mapService, saints)
+  }, [isReady, saints])
 
-        // Add user location marker if provided
-        if (showUserLocation && userLocation) {
-          addUserLocationMarker(mapService, userLocation)
-        }
+  // Temples are drawn whether or not anyone is staying there
+  useEffect(() => {
+    const mapService = mapServiceRef.current
+    if (!isReady || !mapService) return
 
-        setIsLoading(false)
-      } catch (err) {
-        console.error('Failed to initialize map:', err)
-        setError('Failed to load map. Please try again later.')
-        setIsLoading(false)
-      }
+    templeMarkerIdsRef.current.forEach((markerId) => mapService.removeMarker(markerId))
+    templeMarkerIdsRef.current = []
+
+    temples?.forEach((temple) => {
+      if (temple.latitude == null || temple.longitude == null) return
+
+      const markerId = `temple-${temple.id}`
+      templeMarkerIdsRef.current.push(markerId)
+      mapService.addMarker({
+        id: markerId,
+        position: [temple.latitude, temple.longitude],
+        title: temple.name,
+        description: `
+          <strong>Address:</strong> ${temple.address}<br>
+          <strong>City:</strong> ${temple.city}${temple.state ? `, ${temple.state}` : ''}
+        `,
+        type: 'temple',
+        data: temple
+      })
+    })
+  }, [isReady, temples])
+
+  useEffect(() => {
+    const mapService = mapServiceRef.current
+    if (!isReady || !mapService) return
+
+    mapService.removeMarker('user-location')
+    if (showUserLocation && userLocation) {
+      addUserLocationMarker(mapService, userLocation)
     }
+  }, [isReady, showUserLocation, userLocation])
 
-    initializeMap()
+  // Draggable pin used for picking coordinates
+  useEffect(() => {
+    const mapService = mapServiceRef.current
+    if (!isReady || !mapService) return
 
-    // Cleanup
-    return () => {
-      if (mapServiceRef.current) {
-        mapServiceRef.current.destroy()
-        mapServiceRef.current = null
-      }
+    mapService.removeMarker('pin')
+    if (pin) {
+      mapService.addDraggableMarker(
+        {
+          id: 'pin',
+          position: pin,
+          title: 'Drag to adjust the location',
+          type: 'temple'
+        },
+        (position) => onPinMoveRef.current?.(position)
+      )
     }
-  }, [saints, center, zoom, showUserLocation, userLocation])
+  }, [isReady, pin?.[0], pin?.[1]])
 
-  // Update markers when saints data changes
+  // Numbered stops joined by a line, framed to fit the whole trip
   useEffect(() => {
-    if (mapServiceRef.current && saints) {
-      mapServiceRef.current.clearAllMarkers()
-      addSaintMarkers(mapServiceRef.current, saints)
+    const mapService = mapServiceRef.current
+    if (!isReady || !mapService) return
+
+    routeMarkerIdsRef.current.forEach((markerId) => mapService.removeMarker(markerId))
+    routeMarkerIdsRef.current = []
+    mapService.removePolyline('route')
+    mapService.removePolyline('route-planned')
+
+    if (!route || route.length === 0) return
+
+    route.forEach((stop, index) => {
+      const markerId = `route-${stop.id}`
+      routeMarkerIdsRef.current.push(markerId)
+      mapService.addMarker({
+        id: markerId,
+        position: stop.position,
+        title: stop.title,
+        description: stop.description,
+        type: stop.type || 'current',
+        label: String(index + 1),
+        clusterable: false
+      })
+    })
+
+    const path = routeStart ? [routeStart, ...route.map((stop) => stop.position)] : route.map((stop) => stop.position)
+    const firstPlanned = route.findIndex((stop) => stop.planned)
+    if (firstPlanned === -1) {
+      mapService.addPolyline('route', path)
+    } else {
+      // The dashed part starts from the last stop already reached
+      const split = firstPlanned + (routeStart ? 1 : 0)
+      if (split > 1) mapService.addPolyline('route', path.slice(0, split))
+      mapService.addPolyline('route-planned', path.slice(Math.max(split - 1, 0)), { dashed: true })
     }
-  }, [saints])
 
-  const addSaintMarkers = (mapService: MapService, saints: MapViewProps['saints']) => {
+    const lats = path.map((position) => position[0])
+    const lngs = path.map((position) => position[1])
+    mapService.fitBounds([
+      [Math.min(...lats), Math.min(...lngs)],
+      [Math.max(...lats), Math.max(...lngs)]
+    ])
+  }, [isReady, route, routeStart?.[0], routeStart?.[1]])
+
+  // Clicking the map drops the pin when coordinates can be picked
+  const canPickLocation = !!onPinMove
+  useEffect(() => {
+    const mapService = mapServiceRef.current
+    if (!isReady || !mapService || !canPickLocation) return
+
+    return mapService.onMapClick((position) => onPinMoveRef.current?.(position))
+  }, [isReady, canPickLocation])
+
+  const addSaintMarkers = (mapService: MapService, saints: NonNullable<MapViewProps['saints']>): string[] => {
+    const markerIds: string[] = []
+
     saints.forEach((saint) => {
       if (saint.currentLocation) {
         const markerId = `current-${saint.id}`
+        markerIds.push(markerId)
         mapService.addMarker({
           id: markerId,
           position: [saint.currentLocation.latitude, saint.currentLocation.longitude],
@@ -139,6 +321,7 @@ const MapView: React.FC<MapViewProps> = ({
       // Add markers for upcoming schedules
       saint.upcomingSchedules?.forEach((schedule, index) => {
         const markerId = `upcoming-${saint.id}-${index}`
+        markerIds.push(markerId)
         mapService.addMarker({
           id: markerId,
           position: [schedule.location.latitude, schedule.location.longitude],
@@ -153,6 +336,8 @@ const MapView: React.FC<MapViewProps> = ({
         })
       })
     })
+
+    return markerIds
   }
 
   const addUserLocationMarker = (mapService: MapService, location: { lat: number; lng: number }) => {
@@ -161,7 +346,8 @@ const MapView: React.FC<MapViewProps> = ({
       position: [location.lat, location.lng],
       title: 'Your Location',
       description: 'This is your current location',
-      type: 'temple'
+      type: 'temple',
+      clusterable: false
     })
   }
 
@@ -178,7 +364,7 @@ const MapView: React.FC<MapViewProps> = ({
         addUserLocationMarker(mapServiceRef.current, userLocation)
       } else {
         // Fallback to India center if geolocation fails
-        mapServiceRef.current.setView([20.5937, 78.9629], 5)
+        mapServiceRef.current.setView(INDIA_CENTER, 5)
       }
     } catch (error) {
       console.error('Failed to get user location:', error)
@@ -186,15 +372,15 @@ const MapView: React.FC<MapViewProps> = ({
   }
 
   return (
-    <div className={`map-container ${className}`} style={{ height }}>
+    <div className={`map-container relative ${className}`} style={{ height }}>
       {isLoading && (
-        <div className="flex items-center justify-center h-full bg-gray-100">
+        <div className="absolute inset-0 z-[1000] flex items-center justify-center bg-gray-100">
           <LoadingSpinner size="lg" />
         </div>
       )}
 
       {error && (
-        <div className="flex items-center justify-center h-full bg-red-50">
+        <div className="absolute inset-0 z-[1000] flex items-center justify-center bg-red-50">
           <div className="text-center p-6">
             <h3 className="text-lg font-medium text-red-900 mb-2">Map Error</h3>
             <p className="text-red-600 mb-4">{error}</p>
@@ -208,7 +394,7 @@ const MapView: React.FC<MapViewProps> = ({
       <div ref={mapRef} className="w-full h-full" />
 
       {showUserLocation && (
-        <div className="absolute top-4 right-4 z-10">
+        <div className="absolute top-4 right-4 z-[1000]">
           <Button
             onClick={handleLocateMe}
             size="sm"
@@ -223,4 +409,6 @@ const MapView: React.FC<MapViewProps> = ({
   )
 }
 
-export default MapView
\ No newline at end of file
+export default MapView
+export { buildMapSaints, hasCoordinates }
+export type { MapSaint, RouteStop }
\ No newline at end of file
@@ -0,0 +1,49 @@
+import React from 'react'
+import { cn } from '@/lib/utils'
+
+interface SelectProps extends React.SelectHTMLAttributes<HTMLSelectElement> {
+  label?: string
+  error?: string
+  helperText?: string
+}
+
+const Select = React.forwardRef<HTMLSelectElement, SelectProps>(
+  ({ className, label, error, helperText, id, children, ...props }, ref) => {
+    const selectId = id || `select-${Math.random().toString(36).substring(7)}`
+
+    return (
+      <div className="space-y-2">
+        {label && (
+          <label
+            htmlFor={selectId}
+            className="text-sm font-medium text-gray-700 leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+          >
+            {label}
+          </label>
+        )}
+        <select
+          id={selectId}
+          className={cn(
+            "flex h-10 w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50",
+            error && "border-red-500 focus-visible:ring-red-500",
+            className
+          )}
+          ref={ref}
+          {...props}
+        >
+          {children}
+        </select>
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+        {helperText && !error && (
+          <p className="text-sm text-gray-500">{helperText}</p>
+        )}
+      </div>
+    )
+  }
+)
+
+Select.displayName = "Select"
+
+export default Select
\ No newline at end of file
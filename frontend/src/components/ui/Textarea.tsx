@@ -0,0 +1,48 @@
+import React from 'react'
+import { cn } from '@/lib/utils'
+
+interface TextareaProps extends React.TextareaHTMLAttributes<HTMLTextAreaElement> {
+  label?: string
+  error?: string
+  helperText?: string
+}
+
+const Textarea = React.forwardRef<HTMLTextAreaElement, TextareaProps>(
+  ({ className, label, error, helperText, id, rows = 4, ...props }, ref) => {
+    const textareaId = id || `textarea-${Math.random().toString(36).substring(7)}`
+
+    return (
+      <div className="space-y-2">
+        {label && (
+          <label
+            htmlFor={textareaId}
+            className="text-sm font-medium text-gray-700 leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+          >
+            {label}
+          </label>
+        )}
+        <textarea
+          id={textareaId}
+          rows={rows}
+          className={cn(
+            "flex w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm ring-offset-background placeholder:text-gray-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50",
+            error && "border-red-500 focus-visible:ring-red-500",
+            className
+          )}
+          ref={ref}
+          {...props}
+        />
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+        {helperText && !error && (
+          <p className="text-sm text-gray-500">{helperText}</p>
+        )}
+      </div>
+    )
+  }
+)
+
+Textarea.displayName = "Textarea"
+
+export default Textarea
\ No newline at end of file
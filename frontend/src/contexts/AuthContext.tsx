@@ -1,13 +1,23 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react'
-import { User, LoginRequest } from '@/types/api'
-import { authApi } from '@/services/api'
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react'
+import { User, LoginRequest, LoginResponse, ApiResponse } from '@/types/api'
+import { authApi, endSession, refreshSession } from '@/services/api'
+import * as authStorage from '@/lib/authStorage'
 import { useToast } from '@/components/ui/Toast'
+import { getErrorMessage } from '@/lib/utils'
+
+// Renew quietly a few minutes early; only warn if that fails
+const REFRESH_BEFORE_EXPIRY_MS = 5 * 60 * 1000
+
+// 'twoFactorRequired' means the password was right and verifyTwoFactor should follow
+export type LoginResult = 'success' | 'twoFactorRequired' | 'failed'
 
 interface AuthContextType {
   user: User | null
   isAuthenticated: boolean
   isLoading: boolean
-  login: (credentials: LoginRequest) => Promise<boolean>
+  login: (credentials: LoginRequest) => Promise<LoginResult>
+  verifyTwoFactor: (code: string) => Promise<boolean>
+  cancelTwoFactor: () => void
   logout: () => void
 }
 
@@ -27,81 +37,168 @@ interface AuthProviderProps {
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null)
+  const [expiresAt, setExpiresAt] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  // Held between the password and code steps; never stored, so a reload starts over
+  const challengeTokenRef = useRef<string | null>(null)
   const { addToast } = useToast()
 
   const isAuthenticated = !!user
 
   useEffect(() => {
-    // Check for existing auth token and user on mount
-    const token = localStorage.getItem('authToken')
-    const savedUser = localStorage.getItem('user')
+    // Check for an existing session on mount
+    const stored = authStorage.getStoredSession()
+    if (!stored) {
+      setIsLoading(false)
+      return
+    }
 
-    if (token && savedUser) {
-      try {
-        const parsedUser = JSON.parse(savedUser)
-        setUser(parsedUser)
-      } catch (error) {
-        // Invalid user data, clear localStorage
-        localStorage.removeItem('authToken')
-        localStorage.removeItem('user')
-      }
+    if (authStorage.getToken()) {
+      setUser(stored.user)
+      setExpiresAt(stored.expiresAt)
+      setIsLoading(false)
+      return
     }
 
-    setIsLoading(false)
+    // Cookie mode keeps no token across reloads, so trade the refresh cookie for a new one
+    refreshSession()
+      .catch(() => endSession())
+      .finally(() => setIsLoading(false))
   }, [])
 
-  const login = async (credentials: LoginRequest): Promise<boolean> => {
-    try {
-      const response = await authApi.login(credentials)
-
-      if (response.success && response.data) {
-        const { token, user: userData } = response.data
-
-        // Store token and user data
-        localStorage.setItem('authToken', token)
-        localStorage.setItem('user', JSON.stringify(userData))
+  // Logins, refreshes and sign-outs arrive here from this tab's API layer and from other tabs
+  useEffect(() => {
+    return authStorage.subscribe((change) => {
+      if (change.type === 'session') {
+        setUser(change.session.user)
+        setExpiresAt(change.session.expiresAt)
+        return
+      }
 
-        setUser(userData)
+      setUser(null)
+      setExpiresAt(null)
 
+      if (change.reason === 'expired') {
         addToast({
-          type: 'success',
-          title: 'Login successful',
-          message: `Welcome back, ${userData.username}!`
+          type: 'warning',
+          title: 'Session expired',
+          message: 'Please sign in again to continue'
         })
+      } else if (change.fromOtherTab) {
+        addToast({
+          type: 'info',
+          title: 'Logged out',
+          message: 'You logged out in another tab'
+        })
+      }
+    })
+  }, [addToast])
+
+  // Refresh shortly before the token runs out; a successful refresh moves expiresAt and re-arms this
+  useEffect(() => {
+    if (!user || !expiresAt) return
+
+    const msLeft = new Date(expiresAt).getTime() - Date.now()
 
-        return true
-      } else {
+    const refreshTimer = window.setTimeout(async () => {
+      try {
+        await refreshSession()
+      } catch {
         addToast({
-          type: 'error',
-          title: 'Login failed',
-          message: response.error?.message || 'Invalid credentials'
+          type: 'warning',
+          title: 'Your session is about to expire',
+          message: `Save your work. You will be signed out at ${new Date(expiresAt).toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit' })}.`,
+          duration: 30000
         })
-        return false
       }
-    } catch (error: any) {
+    }, Math.max(0, msLeft - REFRESH_BEFORE_EXPIRY_MS))
+
+    const expiryTimer = window.setTimeout(endSession, Math.max(0, msLeft))
+
+    return () => {
+      window.clearTimeout(refreshTimer)
+      window.clearTimeout(expiryTimer)
+    }
+  }, [user, expiresAt, addToast])
+
+  const startSession = (response: ApiResponse<LoginResponse>): boolean => {
+    if (!response.success || !response.data) {
+      addToast({
+        type: 'error',
+        title: 'Login failed',
+        message: response.error?.message || 'Invalid credentials'
+      })
+      return false
+    }
+
+    authStorage.saveSession(response.data)
+
+    addToast({
+      type: 'success',
+      title: 'Login successful',
+      message: `Welcome back, ${response.data.user.username}!`
+    })
+
+    return true
+  }
+
+  const login = async (credentials: LoginRequest): Promise<LoginResult> => {
+    try {
+      const response = await authApi.login(credentials)
+
+      if (response.success && response.data?.requiresTwoFactor && response.data.challengeToken) {
+        challengeTokenRef.current = response.data.challengeToken
+        return 'twoFactorRequired'
+      }
+
+      return startSession(response) ? 'success' : 'failed'
+    } catch (error) {
       addToast({
         type: 'error',
         title: 'Login failed',
-        message: error.error?.message || 'An unexpected error occurred'
+        message: getErrorMessage(error)
+      })
+      return 'failed'
+    }
+  }
+
+  const verifyTwoFactor = async (code: string): Promise<boolean> => {
+    if (!challengeTokenRef.current) {
+      return false
+    }
+
+    try {
+      const response = await authApi.loginTwoFactor({ challengeToken: challengeTokenRef.current, code })
+      const signedIn = startSession(response)
+      if (signedIn) {
+        challengeTokenRef.current = null
+      }
+      return signedIn
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Verification failed',
+        message: getErrorMessage(error)
       })
       return false
     }
   }
 
+  const cancelTwoFactor = () => {
+    challengeTokenRef.current = null
+  }
+
   const logout = async () => {
     try {
-      // Call logout API (optional, as we're using JWT)
-      await authApi.logout()
+      // Revokes the refresh token so this session cannot be renewed
+      await authApi.logout(authStorage.getRefreshToken())
     } catch (error) {
       // Continue with logout even if API call fails
       console.error('Logout API call failed:', error)
     }
 
-    // Clear local storage and state
-    localStorage.removeItem('authToken')
-    localStorage.removeItem('user')
-    setUser(null)
+    // Clears this tab's state through the subscription and signs out the other tabs
+    authStorage.clearSession('logout')
 
     addToast({
       type: 'info',
@@ -115,6 +212,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isAuthenticated,
     isLoading,
     login,
+    verifyTwoFactor,
+    cancelTwoFactor,
     logout,
   }
 
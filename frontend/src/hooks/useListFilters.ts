@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { debounce } from '@/lib/utils'
+
+const SEARCH_DEBOUNCE_MS = 400
+
+type FilterChanges = Partial<Record<'search' | 'city' | 'state' | 'page', string | undefined>>
+
+// Keeps a list page's search text, place and page number in the query string, so
+// reloads, shared links and back/forward all land on the same results
+export function useListFilters() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const searchQuery = searchParams.get('search') || ''
+  const selectedCity = searchParams.get('city') || ''
+  const selectedState = searchParams.get('state') || ''
+  const currentPage = Math.max(1, Number(searchParams.get('page')) || 1)
+
+  // The text box updates on every keystroke; the URL only once typing pauses
+  const [searchInput, setSearchInputValue] = useState(searchQuery)
+
+  // Follows back/forward and links, but not our own writes: the URL holds the trimmed text,
+  // and copying it back would eat the space between words while someone is typing
+  useEffect(() => {
+    setSearchInputValue((current) => (current.trim() === searchQuery ? current : searchQuery))
+  }, [searchQuery])
+
+  const updateFilters = useCallback((changes: FilterChanges) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev)
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value)
+        } else {
+          next.delete(key)
+        }
+      })
+      // Changing what is shown starts again from the first page
+      if (!('page' in changes)) next.delete('page')
+      return next
+    })
+  }, [setSearchParams])
+
+  // Each settled search gets its own history entry, so Back returns to the previous one
+  const commitSearch = (value: string) => {
+    if (value.trim() !== searchQuery) {
+      updateFilters({ search: value.trim() || undefined })
+    }
+  }
+
+  // setSearchParams changes with every URL change; going through a ref keeps one debounce
+  // for the page's lifetime, so picking a city while typing does not drop the pending search
+  const commitSearchRef = useRef(commitSearch)
+  commitSearchRef.current = commitSearch
+
+  const debouncedCommitSearch = useMemo(
+    () => debounce((value: string) => commitSearchRef.current(value), SEARCH_DEBOUNCE_MS),
+    []
+  )
+
+  // A write still waiting would otherwise undo a clear or submit, or land after leaving the page
+  useEffect(() => debouncedCommitSearch.cancel, [debouncedCommitSearch])
+
+  const setSearchInput = (value: string) => {
+    setSearchInputValue(value)
+    debouncedCommitSearch(value)
+  }
+
+  return {
+    searchInput,
+    searchQuery,
+    selectedCity,
+    selectedState,
+    currentPage,
+    setSearchInput,
+    submitSearch: () => {
+      debouncedCommitSearch.cancel()
+      commitSearch(searchInput)
+    },
+    setSelectedCity: (city: string) => updateFilters({ city: city || undefined }),
+    // A different state makes the chosen city meaningless, so it is dropped too
+    setSelectedState: (state: string) => updateFilters({ state: state || undefined, city: undefined }),
+    setCurrentPage: (page: number) => updateFilters({ page: page > 1 ? page.toString() : undefined }),
+    clearFilters: () => {
+      debouncedCommitSearch.cancel()
+      updateFilters({ search: undefined, city: undefined, state: undefined })
+    },
+  }
+}
\ No newline at end of file
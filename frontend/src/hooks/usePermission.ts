@@ -0,0 +1,15 @@
+import { useCallback } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { hasPermission, Permission } from '@/lib/permissions'
+
+// e.g. usePermission('schedule:edit:Mumbai')
+export function usePermission(permission: Permission): boolean {
+  const { user } = useAuth()
+  return hasPermission(user, permission)
+}
+
+// For lists, where each row needs its own city-scoped check
+export function usePermissions() {
+  const { user } = useAuth()
+  return useCallback((permission: Permission) => hasPermission(user, permission), [user])
+}
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { subscriptionsApi } from '@/services/api'
+import { getPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from '@/lib/pushNotifications'
+
+// Push is per browser, so "enabled" means this device holds a push subscription the API knows about
+export function usePushNotifications(subscriptionId: string | null, pushEnabled: boolean) {
+  const [hasBrowserSubscription, setHasBrowserSubscription] = useState(false)
+  const [isUpdating, setIsUpdating] = useState(false)
+  const queryClient = useQueryClient()
+  const isSupported = isPushSupported()
+
+  useEffect(() => {
+    getPushSubscription()
+      .then((subscription) => setHasBrowserSubscription(!!subscription))
+      .catch(() => setHasBrowserSubscription(false))
+  }, [])
+
+  const enable = useCallback(async () => {
+    if (!subscriptionId) return
+
+    setIsUpdating(true)
+    try {
+      const keyResponse = await subscriptionsApi.getPushPublicKey()
+      if (!keyResponse.success || !keyResponse.data) {
+        throw keyResponse
+      }
+
+      const pushSubscription = await subscribeToPush(keyResponse.data.publicKey)
+      const result = await subscriptionsApi.savePushSubscription(subscriptionId, pushSubscription)
+      if (!result.success) {
+        throw result
+      }
+
+      queryClient.setQueryData(['subscription', subscriptionId], result)
+      setHasBrowserSubscription(true)
+    } finally {
+      setIsUpdating(false)
+    }
+  }, [subscriptionId, queryClient])
+
+  const disable = useCallback(async () => {
+    setIsUpdating(true)
+    try {
+      await unsubscribeFromPush()
+      setHasBrowserSubscription(false)
+
+      if (subscriptionId) {
+        const result = await subscriptionsApi.removePushSubscription(subscriptionId)
+        if (result.success) {
+          queryClient.setQueryData(['subscription', subscriptionId], result)
+        }
+      }
+    } finally {
+      setIsUpdating(false)
+    }
+  }, [subscriptionId, queryClient])
+
+  return {
+    isSupported,
+    isEnabled: pushEnabled && hasBrowserSubscription,
+    isUpdating,
+    enable,
+    disable,
+  }
+}
\ No newline at end of file
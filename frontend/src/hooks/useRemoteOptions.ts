@@ -0,0 +1,61 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+import { ApiResponse } from '@/types/api'
+import { debounce } from '@/lib/utils'
+
+const OPTION_LIMIT = 50
+const SEARCH_DEBOUNCE_MS = 250
+
+interface RemoteOptionsConfig<T> {
+  queryKey: string
+  fetchPage: (params: { search?: string; limit: number }) => Promise<ApiResponse<T[]>>
+  fetchById: (id: string) => Promise<ApiResponse<T>>
+  // The id currently chosen, if any; it stays in the options whatever the search
+  value?: string
+}
+
+// Options for a select over a table too large to load whole: the first page of matches for
+// what the admin typed, plus the chosen record even when the search or page size leaves it out
+export function useRemoteOptions<T extends { id: string }>({ queryKey, fetchPage, fetchById, value }: RemoteOptionsConfig<T>) {
+  const [search, setSearchValue] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const known = useRef(new Map<string, T>())
+
+  const updateDebouncedSearch = useMemo(() => debounce((next: string) => setDebouncedSearch(next.trim()), SEARCH_DEBOUNCE_MS), [])
+
+  useEffect(() => updateDebouncedSearch.cancel, [updateDebouncedSearch])
+
+  const { data: response } = useQuery({
+    queryKey: [queryKey, debouncedSearch],
+    queryFn: () => fetchPage({ search: debouncedSearch || undefined, limit: OPTION_LIMIT }),
+    placeholderData: keepPreviousData,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const results = response?.data || []
+  results.forEach((item) => known.current.set(item.id, item))
+
+  const { data: selectedResponse } = useQuery({
+    queryKey: [queryKey, 'selected', value],
+    queryFn: () => fetchById(value!),
+    enabled: !!value && !known.current.has(value),
+    staleTime: 5 * 60 * 1000,
+  })
+
+  if (selectedResponse?.data) {
+    known.current.set(selectedResponse.data.id, selectedResponse.data)
+  }
+
+  const selected = value ? known.current.get(value) : undefined
+
+  return {
+    search,
+    setSearch: (next: string) => {
+      setSearchValue(next)
+      updateDebouncedSearch(next)
+    },
+    results,
+    selected: selected && !results.some((item) => item.id === selected.id) ? selected : undefined,
+    hasMore: (response?.pagination?.total ?? 0) > results.length,
+  }
+}
\ No newline at end of file
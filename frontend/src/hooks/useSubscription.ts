@@ -0,0 +1,60 @@
+import { useCallback, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { subscriptionsApi } from '@/services/api'
+import { Subscription, UpdateSubscriptionRequest } from '@/types/api'
+import { getErrorCode } from '@/lib/utils'
+
+const SUBSCRIPTION_ID_KEY = 'subscriptionId'
+
+// Devotees have no account, so this browser remembers which subscription is theirs
+export function useSubscription() {
+  const [subscriptionId, setSubscriptionIdState] = useState<string | null>(
+    () => localStorage.getItem(SUBSCRIPTION_ID_KEY)
+  )
+  const queryClient = useQueryClient()
+
+  const setSubscriptionId = useCallback((id: string | null) => {
+    if (id) {
+      localStorage.setItem(SUBSCRIPTION_ID_KEY, id)
+    } else {
+      localStorage.removeItem(SUBSCRIPTION_ID_KEY)
+    }
+    setSubscriptionIdState(id)
+  }, [])
+
+  const { data: response, isLoading } = useQuery({
+    queryKey: ['subscription', subscriptionId],
+    queryFn: async () => {
+      try {
+        return await subscriptionsApi.getById(subscriptionId!)
+      } catch (error) {
+        // The subscription was removed elsewhere; forget it rather than failing every page
+        if (getErrorCode(error) === 'SUBSCRIPTION_NOT_FOUND') {
+          setSubscriptionId(null)
+        }
+        throw error
+      }
+    },
+    enabled: !!subscriptionId,
+    retry: false,
+  })
+
+  const subscription = subscriptionId ? response?.data : undefined
+
+  const updateSubscription = useCallback(async (changes: UpdateSubscriptionRequest): Promise<Subscription> => {
+    const result = await subscriptionsApi.update(subscriptionId!, changes)
+    if (!result.success || !result.data) {
+      throw result
+    }
+    queryClient.setQueryData(['subscription', subscriptionId], result)
+    return result.data
+  }, [subscriptionId, queryClient])
+
+  return {
+    subscriptionId,
+    subscription,
+    isLoading: !!subscriptionId && isLoading,
+    setSubscriptionId,
+    updateSubscription,
+  }
+}
\ No newline at end of file
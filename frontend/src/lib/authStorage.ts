@@ -0,0 +1,144 @@
+import { LoginResponse, User } from '@/types/api'
+
+// 'cookie' keeps the access token in memory only and leaves the refresh token to an
+// httpOnly cookie; the API must run with JwtSettings:RefreshTokenCookie turned on
+type AuthStorageMode = 'local' | 'cookie'
+
+export const AUTH_STORAGE_MODE: AuthStorageMode =
+  import.meta.env.VITE_AUTH_STORAGE === 'cookie' ? 'cookie' : 'local'
+
+const TOKEN_KEY = 'authToken'
+const REFRESH_TOKEN_KEY = 'refreshToken'
+const EXPIRES_AT_KEY = 'tokenExpiresAt'
+const USER_KEY = 'user'
+const SYNC_KEY = 'authSync'
+const CHANNEL_NAME = 'jainmunis-auth'
+const REFRESH_LOCK_NAME = 'jainmunis-auth-refresh'
+
+interface StoredSession {
+  user: User
+  expiresAt: string | null
+}
+
+type SignOutReason = 'expired' | 'logout'
+
+type AuthMessage =
+  | { type: 'session'; session: StoredSession; token?: string }
+  | { type: 'signedOut'; reason: SignOutReason }
+
+type AuthChange =
+  | { type: 'session'; session: StoredSession; fromOtherTab: boolean }
+  | { type: 'signedOut'; reason: SignOutReason; fromOtherTab: boolean }
+
+type AuthListener = (change: AuthChange) => void
+
+let memoryToken: string | null = null
+const listeners = new Set<AuthListener>()
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null
+
+export function getToken(): string | null {
+  return AUTH_STORAGE_MODE === 'cookie' ? memoryToken : localStorage.getItem(TOKEN_KEY)
+}
+
+// Always undefined in cookie mode, where the browser sends the refresh token itself
+export function getRefreshToken(): string | undefined {
+  return AUTH_STORAGE_MODE === 'cookie' ? undefined : localStorage.getItem(REFRESH_TOKEN_KEY) || undefined
+}
+
+// The signed-in admin as last saved by any tab; holds nothing secret
+export function getStoredSession(): StoredSession | null {
+  const savedUser = localStorage.getItem(USER_KEY)
+  if (!savedUser) return null
+
+  try {
+    return { user: JSON.parse(savedUser), expiresAt: localStorage.getItem(EXPIRES_AT_KEY) }
+  } catch {
+    removeStoredSession()
+    return null
+  }
+}
+
+export function saveSession(session: LoginResponse) {
+  memoryToken = session.token
+  if (AUTH_STORAGE_MODE === 'local') {
+    localStorage.setItem(TOKEN_KEY, session.token)
+    localStorage.setItem(REFRESH_TOKEN_KEY, session.refreshToken)
+  }
+  localStorage.setItem(EXPIRES_AT_KEY, session.expiresAt)
+  localStorage.setItem(USER_KEY, JSON.stringify(session.user))
+
+  const stored = { user: session.user, expiresAt: session.expiresAt }
+  // Other tabs in cookie mode cannot read the new token anywhere else
+  broadcast({ type: 'session', session: stored, token: AUTH_STORAGE_MODE === 'cookie' ? session.token : undefined })
+  notify({ type: 'session', session: stored, fromOtherTab: false })
+}
+
+// Signing out in one tab signs out every tab
+export function clearSession(reason: SignOutReason) {
+  removeStoredSession()
+  broadcast({ type: 'signedOut', reason })
+  notify({ type: 'signedOut', reason, fromOtherTab: false })
+}
+
+export function subscribe(listener: AuthListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Refresh tokens rotate on use, so tabs take turns instead of spending the same one twice
+export async function withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return task()
+  }
+  return navigator.locks.request(REFRESH_LOCK_NAME, task)
+}
+
+function removeStoredSession() {
+  memoryToken = null
+  localStorage.removeItem(TOKEN_KEY)
+  localStorage.removeItem(REFRESH_TOKEN_KEY)
+  localStorage.removeItem(EXPIRES_AT_KEY)
+  localStorage.removeItem(USER_KEY)
+}
+
+function notify(change: AuthChange) {
+  listeners.forEach((listener) => listener(change))
+}
+
+function broadcast(message: AuthMessage) {
+  if (channel) {
+    channel.postMessage(message)
+    return
+  }
+
+  // Older browsers: a storage write reaches the other tabs, so the token stays out of it
+  const { token: _token, ...withoutToken } = message as AuthMessage & { token?: string }
+  localStorage.setItem(SYNC_KEY, JSON.stringify({ ...withoutToken, sentAt: Date.now() }))
+  localStorage.removeItem(SYNC_KEY)
+}
+
+function receive(message: AuthMessage) {
+  if (message.type === 'session') {
+    if (message.token) {
+      memoryToken = message.token
+    }
+    notify({ type: 'session', session: message.session, fromOtherTab: true })
+  } else {
+    memoryToken = null
+    notify({ type: 'signedOut', reason: message.reason, fromOtherTab: true })
+  }
+}
+
+if (channel) {
+  channel.onmessage = (event: MessageEvent<AuthMessage>) => receive(event.data)
+} else if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key === SYNC_KEY && event.newValue) {
+      receive(JSON.parse(event.newValue))
+    }
+  })
+}
+
+export type { AuthStorageMode, StoredSession, SignOutReason, AuthChange }
\ No newline at end of file
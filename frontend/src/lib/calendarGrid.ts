@@ -0,0 +1,113 @@
+import { Schedule } from '@/types/api'
+
+type CalendarView = 'month' | 'week'
+
+interface CalendarRange {
+  start: string
+  end: string
+}
+
+// One stay's slice of a week row; long stays are cut at week boundaries
+interface CalendarBar {
+  schedule: Schedule
+  startColumn: number
+  span: number
+  lane: number
+  continuesBefore: boolean
+  continuesAfter: boolean
+}
+
+interface CalendarWeek {
+  start: string
+  days: string[]
+  bars: CalendarBar[]
+  laneCount: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Days are yyyy-MM-dd strings worked on in UTC, so adding days never drifts across timezones
+export const dayOf = (date: string) => date.slice(0, 10)
+export const parseDay = (day: string) => new Date(`${dayOf(day)}T00:00:00Z`)
+export const toDay = (date: Date) => date.toISOString().slice(0, 10)
+export const addDays = (day: string, days: number) => toDay(new Date(parseDay(day).getTime() + days * DAY_MS))
+export const daysBetween = (from: string, to: string) =>
+  Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / DAY_MS)
+
+export function today(): string {
+  const now = new Date()
+  return toDay(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())))
+}
+
+// Weeks start on Sunday
+export const startOfWeek = (day: string) => addDays(day, -parseDay(day).getUTCDay())
+export const startOfMonth = (day: string) => `${dayOf(day).slice(0, 8)}01`
+
+export function addMonths(day: string, months: number): string {
+  const date = parseDay(startOfMonth(day))
+  date.setUTCMonth(date.getUTCMonth() + months)
+  return toDay(date)
+}
+
+// A month renders whole weeks, including the days that spill over from its neighbours
+export function getVisibleRange(view: CalendarView, anchor: string): CalendarRange {
+  if (view === 'week') {
+    const start = startOfWeek(anchor)
+    return { start, end: addDays(start, 6) }
+  }
+
+  const first = startOfMonth(anchor)
+  const last = addDays(addMonths(first, 1), -1)
+  return { start: startOfWeek(first), end: addDays(startOfWeek(last), 6) }
+}
+
+export function layoutWeeks(range: CalendarRange, schedules: Schedule[]): CalendarWeek[] {
+  const weeks: CalendarWeek[] = []
+
+  for (let weekStart = range.start; weekStart <= range.end; weekStart = addDays(weekStart, 7)) {
+    const weekEnd = addDays(weekStart, 6)
+
+    // Earlier and then longer stays claim the top lanes, which keeps bars steady between rows
+    const inWeek = schedules
+      .filter((schedule) => dayOf(schedule.startDate) <= weekEnd && dayOf(schedule.endDate) >= weekStart)
+      .sort((a, b) =>
+        dayOf(a.startDate).localeCompare(dayOf(b.startDate)) || dayOf(b.endDate).localeCompare(dayOf(a.endDate))
+      )
+
+    const laneEnds: number[] = []
+    const bars = inWeek.map((schedule): CalendarBar => {
+      const start = dayOf(schedule.startDate)
+      const end = dayOf(schedule.endDate)
+      const startColumn = Math.max(0, daysBetween(weekStart, start))
+      const endColumn = Math.min(6, daysBetween(weekStart, end))
+
+      let lane = laneEnds.findIndex((laneEnd) => laneEnd < startColumn)
+      if (lane === -1) {
+        lane = laneEnds.length
+        laneEnds.push(endColumn)
+      } else {
+        laneEnds[lane] = endColumn
+      }
+
+      return {
+        schedule,
+        startColumn,
+        span: endColumn - startColumn + 1,
+        lane,
+        continuesBefore: start < weekStart,
+        continuesAfter: end > weekEnd,
+      }
+    })
+
+    weeks.push({
+      start: weekStart,
+      days: Array.from({ length: 7 }, (_, index) => addDays(weekStart, index)),
+      bars,
+      laneCount: laneEnds.length,
+    })
+  }
+
+  return weeks
+}
+
+export type { CalendarView, CalendarRange, CalendarBar, CalendarWeek }
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { AdminRole, User } from '@/types/api'
+
+type PermissionResource = 'saint' | 'schedule' | 'location' | 'activity' | 'user'
+type PermissionAction = 'view' | 'create' | 'edit' | 'delete'
+
+// "schedule:edit" asks whether the user can edit any schedule at all,
+// "schedule:edit:Mumbai" whether they can edit one in that city
+type Permission =
+  | `${PermissionResource}:${PermissionAction}`
+  | `${PermissionResource}:${PermissionAction}:${string}`
+
+const ALL_ACTIONS: PermissionAction[] = ['view', 'create', 'edit', 'delete']
+
+const allOf = (resource: PermissionResource) => ALL_ACTIONS.map((action): Permission => `${resource}:${action}`)
+
+const EDITOR_GRANTS: Permission[] = [...allOf('saint'), ...allOf('schedule'), ...allOf('location'), 'activity:view']
+
+const ROLE_GRANTS: Record<AdminRole, Permission[]> = {
+  super_admin: [...EDITOR_GRANTS, ...allOf('user')],
+  editor: EDITOR_GRANTS,
+  admin: EDITOR_GRANTS,
+  city_coordinator: ['saint:view', ...allOf('schedule'), ...allOf('location'), 'activity:view'],
+  view_only: ['saint:view', 'schedule:view', 'location:view', 'activity:view'],
+}
+
+// Resources a city coordinator may only change inside their own cities
+const CITY_SCOPED_RESOURCES: PermissionResource[] = ['schedule', 'location']
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  super_admin: 'Super Admin',
+  editor: 'Editor',
+  admin: 'Editor',
+  city_coordinator: 'City Coordinator',
+  view_only: 'Viewer',
+}
+
+export function hasPermission(user: User | null | undefined, permission: Permission): boolean {
+  if (!user) return false
+
+  const [resource, action, ...rest] = permission.split(':') as [PermissionResource, PermissionAction, ...string[]]
+  const city = rest.join(':')
+
+  // Unknown roles get nothing rather than guessing
+  if (!ROLE_GRANTS[user.role]?.includes(`${resource}:${action}`)) return false
+
+  if (user.role !== 'city_coordinator' || action === 'view' || !CITY_SCOPED_RESOURCES.includes(resource)) {
+    return true
+  }
+
+  const cities = user.cities || []
+  return city ? cities.some((allowed) => allowed.toLowerCase() === city.toLowerCase()) : cities.length > 0
+}
+
+export type { Permission, PermissionAction, PermissionResource }
\ No newline at end of file
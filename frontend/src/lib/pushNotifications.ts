@@ -0,0 +1,46 @@
+const SERVICE_WORKER_URL = '/sw.js'
+
+export const isPushSupported = () =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window
+
+// VAPID keys are URL-safe base64, but PushManager wants the raw bytes
+function urlBase64ToBuffer(base64String: string): ArrayBuffer {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4)
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/')
+  const raw = window.atob(base64)
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0)).buffer as ArrayBuffer
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL)
+  return registration ? registration.pushManager.getSubscription() : null
+}
+
+// Asks for permission, then returns the browser's subscription for the API to store
+export async function subscribeToPush(publicKey: string): Promise<PushSubscriptionJSON> {
+  if (!isPushSupported()) {
+    throw new Error('This browser does not support notifications')
+  }
+
+  const permission = await Notification.requestPermission()
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site')
+  }
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL)
+  await navigator.serviceWorker.ready
+
+  const existing = await registration.pushManager.getSubscription()
+  const subscription = existing || await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToBuffer(publicKey),
+  })
+
+  return subscription.toJSON()
+}
+
+export async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getPushSubscription()
+  await subscription?.unsubscribe()
+}
\ No newline at end of file
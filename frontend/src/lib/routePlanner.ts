@@ -0,0 +1,123 @@
+type Position = [number, number]
+
+interface RouteStop {
+  position: Position
+}
+
+interface PlannedRoute<T extends RouteStop> {
+  stops: T[]
+  legDistances: number[] // legDistances[i] is the distance travelled to reach stops[i]
+  totalDistance: number
+}
+
+type DistanceFn = (from: Position, to: Position) => number
+
+// Exhaustive search stays well under a frame up to this many stops (8! orderings)
+const EXACT_SEARCH_LIMIT = 8
+
+const pathLength = (start: Position, order: Position[], distance: DistanceFn) => {
+  let total = 0
+  let previous = start
+  order.forEach((position) => {
+    total += distance(previous, position)
+    previous = position
+  })
+  return total
+}
+
+const solveExact = (start: Position, positions: Position[], distance: DistanceFn): number[] => {
+  let bestOrder: number[] = positions.map((_, index) => index)
+  let bestLength = Infinity
+  const visited = new Array(positions.length).fill(false)
+  const order: number[] = []
+
+  const search = (from: Position, length: number) => {
+    if (length >= bestLength) return
+
+    if (order.length === positions.length) {
+      bestLength = length
+      bestOrder = [...order]
+      return
+    }
+
+    positions.forEach((position, index) => {
+      if (visited[index]) return
+      visited[index] = true
+      order.push(index)
+      search(position, length + distance(from, position))
+      order.pop()
+      visited[index] = false
+    })
+  }
+
+  search(start, 0)
+  return bestOrder
+}
+
+const solveHeuristic = (start: Position, positions: Position[], distance: DistanceFn): number[] => {
+  // Nearest neighbour gives a reasonable first tour...
+  const remaining = new Set(positions.map((_, index) => index))
+  const order: number[] = []
+  let current = start
+
+  while (remaining.size > 0) {
+    let nearest = -1
+    let nearestDistance = Infinity
+    remaining.forEach((index) => {
+      const d = distance(current, positions[index])
+      if (d < nearestDistance) {
+        nearest = index
+        nearestDistance = d
+      }
+    })
+    order.push(nearest)
+    remaining.delete(nearest)
+    current = positions[nearest]
+  }
+
+  // ...which 2-opt then untangles by reversing segments while that shortens the path
+  const lengthOf = (candidate: number[]) => pathLength(start, candidate.map((index) => positions[index]), distance)
+  let bestLength = lengthOf(order)
+  let improved = true
+
+  while (improved) {
+    improved = false
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)]
+        const candidateLength = lengthOf(candidate)
+        if (candidateLength < bestLength - 1e-9) {
+          order.splice(0, order.length, ...candidate)
+          bestLength = candidateLength
+          improved = true
+        }
+      }
+    }
+  }
+
+  return order
+}
+
+// Orders stops to minimise the total distance of a one-way trip from the start position
+export function planRoute<T extends RouteStop>(start: Position, stops: T[], distance: DistanceFn): PlannedRoute<T> {
+  const positions = stops.map((stop) => stop.position)
+  const order = stops.length <= EXACT_SEARCH_LIMIT
+    ? solveExact(start, positions, distance)
+    : solveHeuristic(start, positions, distance)
+
+  const ordered = order.map((index) => stops[index])
+  const legDistances: number[] = []
+  let previous = start
+  ordered.forEach((stop) => {
+    legDistances.push(distance(previous, stop.position))
+    previous = stop.position
+  })
+
+  return {
+    stops: ordered,
+    legDistances,
+    totalDistance: legDistances.reduce((sum, leg) => sum + leg, 0),
+  }
+}
+
+export type { RouteStop, PlannedRoute }
\ No newline at end of file
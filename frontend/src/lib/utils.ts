@@ -1,4 +1,5 @@
 import { type ClassValue, clsx } from "clsx"
+import type { ErrorDetail } from "@/types/api"
 
 export function cn(...inputs: ClassValue[]) {
   return clsx(inputs)
@@ -24,6 +25,19 @@ export function formatDateRange(startDate: Date | string, endDate: Date | string
   return `${start} - ${end}`
 }
 
+export function formatRelativeTime(date: Date | string): string {
+  const seconds = Math.floor((Date.now() - new Date(date).getTime()) / 1000)
+
+  if (seconds < 60) return 'just now'
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`
+  const days = Math.floor(hours / 24)
+  if (days < 7) return `${days} day${days === 1 ? '' : 's'} ago`
+  return formatDate(date)
+}
+
 export function formatPhoneNumber(phone: string): string {
   // Simple phone number formatting for Indian numbers
   const cleaned = phone.replace(/\D/g, '')
@@ -50,15 +64,43 @@ export function getInitials(name: string): string {
   return parts[0].charAt(0).toUpperCase() + parts[parts.length - 1].charAt(0).toUpperCase()
 }
 
+// API calls reject with the ErrorResponse body; anything else thrown is usually an Error
+export function getErrorMessage(error: unknown, fallback = 'An unexpected error occurred'): string {
+  const detail = typeof error === 'object' && error !== null ? (error as { error?: Partial<ErrorDetail> }).error : undefined
+  if (detail?.message) return detail.message
+  if (error instanceof Error && error.message) return error.message
+  return fallback
+}
+
+export function getErrorCode(error: unknown): string | undefined {
+  return typeof error === 'object' && error !== null ? (error as { error?: Partial<ErrorDetail> }).error?.code : undefined
+}
+
+// cancel() drops a call that is still waiting
 export function debounce<T extends (...args: any[]) => any>(
   func: T,
   wait: number
-): (...args: Parameters<T>) => void {
-  let timeout: NodeJS.Timeout
-  return (...args: Parameters<T>) => {
+): ((...args: Parameters<T>) => void) & { cancel: () => void } {
+  let timeout: ReturnType<typeof setTimeout> | undefined
+  const debounced = (...args: Parameters<T>) => {
     clearTimeout(timeout)
     timeout = setTimeout(() => func(...args), wait)
   }
+  return Object.assign(debounced, { cancel: () => clearTimeout(timeout) })
+}
+
+export function formatActivityAction(action: string): string {
+  // Actions are logged as VERB_ENTITY, e.g. UPDATE_SAINT -> "Updated saint"
+  const [verb, ...rest] = action.toLowerCase().split('_')
+  const pastTense: Record<string, string> = {
+    create: 'Created',
+    update: 'Updated',
+    delete: 'Deleted',
+    enable: 'Enabled',
+    disable: 'Disabled',
+  }
+  const label = pastTense[verb] || verb.charAt(0).toUpperCase() + verb.slice(1)
+  return rest.length > 0 ? `${label} ${rest.join(' ')}` : label
 }
 
 export function generateSlug(text: string): string {
@@ -0,0 +1,85 @@
+import { Schedule } from '@/types/api'
+
+type Season = 'before' | 'chaturmas' | 'after'
+
+interface TimelineSeason {
+  season: Season
+  label: string
+  stays: Schedule[]
+}
+
+interface TimelineYear {
+  year: number
+  seasons: TimelineSeason[]
+}
+
+const SEASON_LABELS: Record<Season, string> = {
+  before: 'Vihar before Chaturmas',
+  chaturmas: 'Chaturmas',
+  after: 'Vihar after Chaturmas',
+}
+
+// Chaturmas runs from Ashadh to Kartik; without a marked stay these dates approximate it
+const APPROX_CHATURMAS_START = '07-01'
+const APPROX_CHATURMAS_END = '11-15'
+
+const CHATURMAS_PATTERN = /chaturmas|chaumasa|chomasu/i
+
+// Dates arrive as yyyy-MM-dd, so string comparison orders them without timezone drift
+const dayOf = (date: string) => date.slice(0, 10)
+
+export const isChaturmasStay = (schedule: Schedule) => CHATURMAS_PATTERN.test(schedule.purpose || '')
+
+export const sortChronologically = (schedules: Schedule[]) =>
+  [...schedules].sort((a, b) => dayOf(a.startDate).localeCompare(dayOf(b.startDate)))
+
+// Groups stays by the year they began, then by where they fall around that year's Chaturmas
+export function groupTimeline(schedules: Schedule[]): TimelineYear[] {
+  const byYear = new Map<number, Schedule[]>()
+  sortChronologically(schedules).forEach((schedule) => {
+    const year = Number(dayOf(schedule.startDate).slice(0, 4))
+    if (!byYear.has(year)) byYear.set(year, [])
+    byYear.get(year)!.push(schedule)
+  })
+
+  return Array.from(byYear.entries()).map(([year, stays]) => {
+    // A stay marked as Chaturmas pins the season; otherwise fall back to the usual months
+    const marked = stays.filter(isChaturmasStay)
+    const seasonStart = marked.length > 0 ? dayOf(marked[0].startDate) : `${year}-${APPROX_CHATURMAS_START}`
+    const seasonEnd = marked.length > 0
+      ? marked.map((stay) => dayOf(stay.endDate)).sort().pop()!
+      : `${year}-${APPROX_CHATURMAS_END}`
+
+    const seasons: Record<Season, Schedule[]> = { before: [], chaturmas: [], after: [] }
+    stays.forEach((stay) => {
+      const start = dayOf(stay.startDate)
+      if (isChaturmasStay(stay) || (start >= seasonStart && start <= seasonEnd)) {
+        seasons.chaturmas.push(stay)
+      } else if (start < seasonStart) {
+        seasons.before.push(stay)
+      } else {
+        seasons.after.push(stay)
+      }
+    })
+
+    return {
+      year,
+      seasons: (['before', 'chaturmas', 'after'] as Season[])
+        .filter((season) => seasons[season].length > 0)
+        .map((season) => ({ season, label: SEASON_LABELS[season], stays: seasons[season] })),
+    }
+  })
+}
+
+// Consecutive stays at the same place collapse into one stop so the path only joins real moves
+export function buildViharPath(schedules: Schedule[]): Schedule[] {
+  const path: Schedule[] = []
+  sortChronologically(schedules).forEach((schedule) => {
+    if (schedule.location?.latitude == null || schedule.location?.longitude == null) return
+    if (path.length > 0 && path[path.length - 1].locationId === schedule.locationId) return
+    path.push(schedule)
+  })
+  return path
+}
+
+export type { Season, TimelineSeason, TimelineYear }
\ No newline at end of file
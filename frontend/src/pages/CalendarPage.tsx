@@ -0,0 +1,349 @@
+import React, { useMemo, useRef, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query'
+import { Calendar, ChevronLeft, ChevronRight } from 'lucide-react'
+import { locationsApi, saintsApi, schedulesApi } from '@/services/api'
+import { Schedule } from '@/types/api'
+import { Card } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/Loading'
+import Button from '@/components/ui/Button'
+import { useToast } from '@/components/ui/Toast'
+import { usePermissions } from '@/hooks/usePermission'
+import { useRemoteOptions } from '@/hooks/useRemoteOptions'
+import CalendarWeekRow from '@/components/calendar/CalendarWeekRow'
+import {
+  CalendarBar,
+  CalendarRange,
+  CalendarView,
+  addDays,
+  addMonths,
+  dayOf,
+  daysBetween,
+  getVisibleRange,
+  layoutWeeks,
+  parseDay,
+  today,
+} from '@/lib/calendarGrid'
+import { cn, formatDateRange, getErrorMessage } from '@/lib/utils'
+
+const PAGE_SIZE = 100
+const MONTH_LANES = 3
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// The API caps a page at 100 stays, so a busy month is gathered page by page
+const fetchRange = async (range: CalendarRange, city?: string, saintId?: string): Promise<Schedule[]> => {
+  const params = {
+    limit: PAGE_SIZE,
+    city,
+    saintId,
+    dateFrom: parseDay(range.start),
+    // One day of slack so the server's own timezone cannot clip the last row
+    dateTo: parseDay(addDays(range.end, 1)),
+    overlapping: true,
+  }
+
+  const first = await schedulesApi.getAll({ ...params, page: 1 })
+  const totalPages = first.pagination ? Math.ceil(first.pagination.total / PAGE_SIZE) : 1
+  const rest = await Promise.all(
+    Array.from({ length: Math.max(0, totalPages - 1) }, (_, index) => schedulesApi.getAll({ ...params, page: index + 2 }))
+  )
+
+  return [first, ...rest].flatMap((response) => response.data || [])
+}
+
+interface DragState {
+  schedule: Schedule
+  // Days between the stay's first day and the day the admin picked it up by
+  offset: number
+}
+
+const CalendarPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const { addToast } = useToast()
+  const can = usePermissions()
+  const canEditSchedules = can('schedule:edit')
+
+  const view: CalendarView = searchParams.get('view') === 'week' ? 'week' : 'month'
+  const anchor = searchParams.get('date') || today()
+  const city = searchParams.get('city') || undefined
+  const saintId = searchParams.get('saint') || undefined
+
+  const dragRef = useRef<DragState | null>(null)
+  const [preview, setPreview] = useState<CalendarRange | null>(null)
+  const [movingId, setMovingId] = useState<string | null>(null)
+
+  const range = useMemo(() => getVisibleRange(view, anchor), [view, anchor])
+
+  const {
+    data: schedules,
+    isLoading,
+    isFetching,
+    error,
+  } = useQuery({
+    queryKey: ['calendar-schedules', range.start, range.end, city, saintId],
+    queryFn: () => fetchRange(range, city, saintId),
+    placeholderData: keepPreviousData,
+  })
+
+  const { data: citiesResponse } = useQuery({
+    queryKey: ['cities', '', ''],
+    queryFn: () => locationsApi.getCities(),
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const saints = useRemoteOptions({
+    queryKey: 'calendar-saint-options',
+    fetchPage: saintsApi.getAll,
+    fetchById: saintsApi.getById,
+    value: saintId,
+  })
+  const saintOptions = saints.selected ? [saints.selected, ...saints.results] : saints.results
+
+  const weeks = useMemo(() => layoutWeeks(range, schedules || []), [range, schedules])
+
+  const updateParams = (changes: Record<string, string | undefined>) => {
+    const next = new URLSearchParams(searchParams)
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value)
+      } else {
+        next.delete(key)
+      }
+    })
+    setSearchParams(next)
+  }
+
+  const step = (direction: 1 | -1) => {
+    updateParams({ date: view === 'week' ? addDays(anchor, 7 * direction) : addMonths(anchor, direction) })
+  }
+
+  const title = view === 'month'
+    ? parseDay(anchor).toLocaleDateString('en-IN', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    : formatDateRange(range.start, range.end)
+
+  const handleBarDragStart = (bar: CalendarBar, grabbedDay: string) => {
+    dragRef.current = {
+      schedule: bar.schedule,
+      offset: daysBetween(dayOf(bar.schedule.startDate), grabbedDay),
+    }
+  }
+
+  // Where the stay would land if dropped on this day, keeping its length
+  const targetRange = (day: string): CalendarRange | null => {
+    const drag = dragRef.current
+    if (!drag) return null
+    const start = addDays(day, -drag.offset)
+    const length = daysBetween(dayOf(drag.schedule.startDate), dayOf(drag.schedule.endDate))
+    return { start, end: addDays(start, length) }
+  }
+
+  const handleDragOverDay = (day: string) => {
+    const next = targetRange(day)
+    if (next?.start !== preview?.start) {
+      setPreview(next)
+    }
+  }
+
+  const handleDragEnd = () => {
+    dragRef.current = null
+    setPreview(null)
+  }
+
+  const handleDropDay = async (day: string) => {
+    const drag = dragRef.current
+    const target = targetRange(day)
+    handleDragEnd()
+
+    if (!drag || !target || target.start === dayOf(drag.schedule.startDate)) {
+      return
+    }
+
+    setMovingId(drag.schedule.id)
+    try {
+      // Same overlap rules as the schedule form: conflicts need an explicit override
+      const conflictsResponse = await schedulesApi.checkConflicts({
+        saintId: drag.schedule.saintId,
+        startDate: target.start,
+        endDate: target.end,
+        excludeScheduleId: drag.schedule.id,
+      })
+      const conflicts = conflictsResponse.data || []
+
+      if (conflicts.length > 0) {
+        const places = conflicts
+          .map((conflict) => `${conflict.location?.name || 'Unknown location'} (${formatDateRange(conflict.startDate, conflict.endDate)})`)
+          .join('\n')
+        if (!window.confirm(`This overlaps with other stays for the same saint:\n${places}\n\nMove it anyway?`)) {
+          return
+        }
+      }
+
+      const result = await schedulesApi.update(drag.schedule.id, {
+        startDate: target.start,
+        endDate: target.end,
+        allowOverlap: conflicts.length > 0,
+      })
+      if (!result.success) {
+        throw result
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['calendar-schedules'] })
+      queryClient.invalidateQueries({ queryKey: ['schedules'] })
+      addToast({
+        type: 'success',
+        title: 'Schedule moved',
+        message: `${drag.schedule.location?.name || 'Stay'} is now ${formatDateRange(target.start, target.end)}`
+      })
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Could not move schedule',
+        message: getErrorMessage(error)
+      })
+    } finally {
+      setMovingId(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center gap-2">
+            <Calendar className="w-7 h-7 text-primary-600" />
+            Calendar
+          </h1>
+          <p className="text-gray-600">
+            Where every saint is staying, day by day
+            {canEditSchedules && ' · drag a stay to move it'}
+          </p>
+        </div>
+
+        {/* Toolbar */}
+        <div className="bg-white rounded-lg border border-gray-200 p-4 mb-6 flex flex-col lg:flex-row lg:items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => step(-1)} aria-label="Previous">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => updateParams({ date: undefined })}>
+              Today
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => step(1)} aria-label="Next">
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <h2 className="ml-2 text-lg font-semibold text-gray-900">{title}</h2>
+            {isFetching && !isLoading && <LoadingSpinner size="sm" />}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 lg:ml-auto">
+            <select
+              value={city || ''}
+              onChange={(e) => updateParams({ city: e.target.value || undefined })}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              aria-label="Filter by city"
+            >
+              <option value="">All cities</option>
+              {(citiesResponse?.data || []).map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+            <input
+              type="search"
+              value={saints.search}
+              onChange={(e) => saints.setSearch(e.target.value)}
+              placeholder="Find a saint..."
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              aria-label="Search saints"
+            />
+            <select
+              value={saintId || ''}
+              onChange={(e) => updateParams({ saint: e.target.value || undefined })}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              aria-label="Filter by saint"
+            >
+              <option value="">All saints</option>
+              {saintOptions.map((saint) => (
+                <option key={saint.id} value={saint.id}>
+                  {saint.title ? `${saint.title} ` : ''}{saint.name}
+                </option>
+              ))}
+            </select>
+            <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+              {(['month', 'week'] as CalendarView[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => updateParams({ view: option === 'month' ? undefined : option })}
+                  className={cn(
+                    'px-3 py-2 text-sm capitalize',
+                    view === option ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                  )}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Loading State */}
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )}
+
+        {/* Error State */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-8">
+            <h3 className="text-red-800 font-medium mb-2">Unable to load the calendar</h3>
+            <p className="text-red-600">
+              {getErrorMessage(error)}
+            </p>
+          </div>
+        )}
+
+        {!isLoading && !error && (
+          <Card className="overflow-hidden">
+            <div className="grid grid-cols-7 border-b border-gray-200 bg-gray-50">
+              {WEEKDAYS.map((weekday) => (
+                <div key={weekday} className="px-2 py-2 text-xs font-medium uppercase tracking-wider text-gray-500">
+                  {weekday}
+                </div>
+              ))}
+            </div>
+            {weeks.map((week) => (
+              <CalendarWeekRow
+                key={week.start}
+                week={week}
+                maxLanes={view === 'month' ? MONTH_LANES : undefined}
+                currentMonth={view === 'month' ? anchor.slice(0, 7) : undefined}
+                today={today()}
+                canDrag={canEditSchedules && !movingId}
+                canDragBar={(bar) => can(`schedule:edit:${bar.schedule.location?.city}`)}
+                movingId={movingId}
+                preview={preview}
+                onBarClick={(bar) => navigate(`/saints/${bar.schedule.saintId}`)}
+                onBarDragStart={handleBarDragStart}
+                onDragOverDay={handleDragOverDay}
+                onDropDay={handleDropDay}
+                onDragEnd={handleDragEnd}
+                onShowMore={(day) => updateParams({ view: 'week', date: day })}
+              />
+            ))}
+            {schedules && schedules.length === 0 && (
+              <p className="text-center text-sm text-gray-500 py-4 border-t border-gray-200">
+                No stays {city ? `in ${city} ` : ''}during this {view}
+              </p>
+            )}
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default CalendarPage
\ No newline at end of file
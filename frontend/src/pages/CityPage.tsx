@@ -0,0 +1,283 @@
+import React, { useMemo } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { ArrowLeft, MapPin, Calendar, Users, Building2, Phone } from 'lucide-react'
+import { calendarApi, locationsApi, saintsApi, schedulesApi } from '@/services/api'
+import { Schedule } from '@/types/api'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/Loading'
+import Button from '@/components/ui/Button'
+import MapView, { buildMapSaints } from '@/components/ui/MapView'
+import MapService, { defaultMapConfig } from '@/services/mapService'
+import FollowButton from '@/components/subscriptions/FollowButton'
+import CalendarExportMenu from '@/components/calendar/CalendarExportMenu'
+import { formatDate, formatDateRange, formatPhoneNumber, getErrorMessage } from '@/lib/utils'
+
+const UPCOMING_DAYS = 30
+
+const CityPage: React.FC = () => {
+  const { city = '' } = useParams<{ city: string }>()
+
+  const {
+    data: locationsResponse,
+    isLoading: locationsLoading,
+    error: locationsError,
+  } = useQuery({
+    queryKey: ['locations', 'city', city],
+    queryFn: () => locationsApi.getByCity(city),
+    enabled: !!city,
+  })
+
+  const { data: saintsResponse } = useQuery({
+    queryKey: ['saints', 'city', city],
+    queryFn: () => saintsApi.getByCity(city),
+    enabled: !!city,
+  })
+
+  const {
+    data: currentResponse,
+    isLoading: currentLoading,
+  } = useQuery({
+    queryKey: ['schedules', 'current', city],
+    queryFn: () => schedulesApi.getCurrent({ city }),
+    enabled: !!city,
+  })
+
+  const {
+    data: upcomingResponse,
+    isLoading: upcomingLoading,
+  } = useQuery({
+    queryKey: ['schedules', 'upcoming', city, UPCOMING_DAYS],
+    queryFn: () => schedulesApi.getUpcoming({ city, daysAhead: UPCOMING_DAYS }),
+    enabled: !!city,
+  })
+
+  // Stable references keep the map from redrawing its markers on every render
+  const locations = useMemo(() => locationsResponse?.data || [], [locationsResponse])
+  const current = useMemo(() => currentResponse?.data || [], [currentResponse])
+  const upcoming = useMemo(() => upcomingResponse?.data || [], [upcomingResponse])
+  const isLoading = locationsLoading || currentLoading || upcomingLoading
+
+  // Saint profiles carry photos and lineage that schedule summaries leave out
+  const saintProfiles = useMemo(
+    () => new Map((saintsResponse?.data || []).map((saint) => [saint.id, saint])),
+    [saintsResponse]
+  )
+
+  const cityName = locations[0]?.city || current[0]?.location?.city || city
+  const stateName = locations.find((location) => location.state)?.state
+
+  const mapSaints = useMemo(() => buildMapSaints(current, upcoming), [current, upcoming])
+
+  // Centre on the city's known temples; fall back to geocoding the city name
+  const mappedPoints = useMemo(() => {
+    const points: [number, number][] = []
+    locations.forEach((location) => {
+      if (location.latitude != null && location.longitude != null) {
+        points.push([location.latitude, location.longitude])
+      }
+    })
+    return points
+  }, [locations])
+
+  const { data: geocoded } = useQuery({
+    queryKey: ['geocode', cityName, stateName],
+    queryFn: () => new MapService(defaultMapConfig).geocodeAddress([cityName, stateName].filter(Boolean).join(', ')),
+    enabled: !locationsLoading && mappedPoints.length === 0 && !!cityName,
+    staleTime: Infinity,
+  })
+
+  const mapCenter = useMemo<[number, number] | null>(() => {
+    if (mappedPoints.length > 0) {
+      const lat = mappedPoints.reduce((sum, point) => sum + point[0], 0) / mappedPoints.length
+      const lng = mappedPoints.reduce((sum, point) => sum + point[1], 0) / mappedPoints.length
+      return [lat, lng]
+    }
+    return geocoded ? [geocoded.lat, geocoded.lng] : null
+  }, [mappedPoints, geocoded])
+
+  const renderStay = (schedule: Schedule, variant: 'current' | 'upcoming') => {
+    const saint = saintProfiles.get(schedule.saintId) || schedule.saint
+    return (
+      <li key={schedule.id} className="flex items-start gap-4 py-4 border-b border-gray-100 last:border-0">
+        <div className="w-12 h-12 bg-gray-200 rounded-full flex items-center justify-center flex-shrink-0">
+          {saint?.photoUrl ? (
+            <img src={saint.photoUrl} alt={saint.name} className="w-full h-full rounded-full object-cover" />
+          ) : (
+            <Users className="w-6 h-6 text-gray-400" />
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <Link to={`/saints/${schedule.saintId}`} className="font-semibold text-gray-900 hover:text-primary-600">
+            {saint?.title ? `${saint.title} ` : ''}{saint?.name || 'Unknown saint'}
+          </Link>
+          {saint?.spiritualLineage && (
+            <p className="text-sm text-gray-500">{saint.spiritualLineage}</p>
+          )}
+          <p className="text-sm text-gray-700 mt-1">
+            {schedule.location?.name}
+            {schedule.purpose && <span className="text-gray-500"> · {schedule.purpose}</span>}
+          </p>
+          <p className={`text-xs mt-1 ${variant === 'current' ? 'text-green-700' : 'text-yellow-700'}`}>
+            {variant === 'current'
+              ? `Here until ${formatDate(schedule.endDate)}`
+              : `Arrives ${formatDate(schedule.startDate)} · ${formatDateRange(schedule.startDate, schedule.endDate)}`}
+          </p>
+          <div className="mt-1">
+            <CalendarExportMenu url={calendarApi.scheduleUrl(schedule.id)} />
+          </div>
+        </div>
+      </li>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link to="/locations" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-primary-600 mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          All locations
+        </Link>
+
+        {/* Header */}
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">{cityName}</h1>
+            <p className="text-gray-600">
+              {stateName && `${stateName} · `}
+              {current.length} {current.length === 1 ? 'saint' : 'saints'} here now · {upcoming.length} arriving in the next {UPCOMING_DAYS} days · {locations.length} {locations.length === 1 ? 'temple' : 'temples'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <CalendarExportMenu url={calendarApi.cityUrl(cityName)} subscribable />
+            <FollowButton city={cityName} />
+          </div>
+        </div>
+
+        {/* Loading State */}
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        )}
+
+        {/* Error State */}
+        {locationsError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-8">
+            <h3 className="text-red-800 font-medium mb-2">Unable to load {cityName}</h3>
+            <p className="text-red-600">
+              {getErrorMessage(locationsError)}
+            </p>
+            <Button
+              onClick={() => window.location.reload()}
+              variant="outline"
+              className="mt-4"
+            >
+              Try Again
+            </Button>
+          </div>
+        )}
+
+        {!isLoading && !locationsError && (
+          <>
+            {/* City Map */}
+            {mapCenter && (
+              <Card className="mb-8 overflow-hidden">
+                <MapView
+                  saints={mapSaints}
+                  temples={locations}
+                  center={mapCenter}
+                  zoom={12}
+                  height="360px"
+                />
+              </Card>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+              {/* In the city now */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <MapPin className="w-5 h-5 text-green-600" />
+                    In {cityName} now
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {current.length > 0 ? (
+                    <ul>{current.map((schedule) => renderStay(schedule, 'current'))}</ul>
+                  ) : (
+                    <p className="text-sm text-gray-500">No saints are staying in {cityName} today.</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Arriving soon */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Calendar className="w-5 h-5 text-yellow-600" />
+                    Arriving in the next {UPCOMING_DAYS} days
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {upcoming.length > 0 ? (
+                    <ul>{upcoming.map((schedule) => renderStay(schedule, 'upcoming'))}</ul>
+                  ) : (
+                    <p className="text-sm text-gray-500">No visits are planned in the next {UPCOMING_DAYS} days.</p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Temples */}
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Temples and centres</h2>
+            {locations.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {locations.map((location) => {
+                  const staying = current.filter((schedule) => schedule.locationId === location.id)
+                  return (
+                    <Card key={location.id}>
+                      <CardHeader>
+                        <CardTitle className="flex items-center gap-2 text-base">
+                          <Building2 className="w-5 h-5 text-primary-600" />
+                          {location.name}
+                        </CardTitle>
+                        <p className="text-sm text-gray-600">
+                          {location.address}
+                          {location.postalCode && ` ${location.postalCode}`}
+                        </p>
+                      </CardHeader>
+                      <CardContent className="space-y-2">
+                        {location.contactPhone && (
+                          <p className="flex items-center gap-2 text-sm text-gray-600">
+                            <Phone className="w-4 h-4" />
+                            {formatPhoneNumber(location.contactPhone)}
+                          </p>
+                        )}
+                        {staying.length > 0 ? (
+                          <p className="text-sm text-green-700">
+                            Now hosting {staying.map((schedule) => schedule.saint?.name).filter(Boolean).join(', ')}
+                          </p>
+                        ) : (
+                          <p className="text-sm text-gray-500">No saints staying today</p>
+                        )}
+                      </CardContent>
+                    </Card>
+                  )
+                })}
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <MapPin className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No temples listed in {cityName}</h3>
+                <p className="text-gray-600">Check the spelling or browse all locations</p>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default CityPage
\ No newline at end of file
@@ -1,17 +1,79 @@
-import React, { useState } from 'react'
-import { Search, MapPin, Navigation } from 'lucide-react'
+import React, { useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Search, Navigation } from 'lucide-react'
+import { schedulesApi } from '@/services/api'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
 import { LoadingSpinner } from '@/components/ui/Loading'
 import Button from '@/components/ui/Button'
+import MapView, { buildMapSaints, hasCoordinates } from '@/components/ui/MapView'
+import MapService, { defaultMapConfig } from '@/services/mapService'
+import { getErrorMessage } from '@/lib/utils'
+
+const INDIA_CENTER: [number, number] = [20.5937, 78.9629]
 
 const MapPage: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('')
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null)
   const [isLocating, setIsLocating] = useState(false)
+  const [isSearching, setIsSearching] = useState(false)
+  const [searchError, setSearchError] = useState<string | null>(null)
+  const [view, setView] = useState<{ center: [number, number]; zoom: number }>({ center: INDIA_CENTER, zoom: 5 })
+
+  const geocoder = useMemo(() => new MapService(defaultMapConfig), [])
+
+  const {
+    data: currentResponse,
+    isLoading: currentLoading,
+    error: currentError,
+  } = useQuery({
+    queryKey: ['schedules', 'current'],
+    queryFn: () => schedulesApi.getCurrent(),
+  })
+
+  const {
+    data: upcomingResponse,
+    isLoading: upcomingLoading,
+    error: upcomingError,
+  } = useQuery({
+    queryKey: ['schedules', 'upcoming'],
+    queryFn: () => schedulesApi.getUpcoming(),
+  })
+
+  const isLoading = currentLoading || upcomingLoading
+  const error = currentError || upcomingError
 
-  const handleSearch = (e: React.FormEvent) => {
+  const { mapSaints, legend } = useMemo(() => {
+    const current = currentResponse?.data || []
+    const upcoming = upcomingResponse?.data || []
+    const mapped = [...current, ...upcoming].filter(hasCoordinates)
+
+    return {
+      mapSaints: buildMapSaints(current, upcoming),
+      legend: {
+        current: current.filter(hasCoordinates).length,
+        upcoming: upcoming.filter(hasCoordinates).length,
+        locations: new Set(mapped.map((schedule) => schedule.locationId)).size,
+        cities: new Set(mapped.map((schedule) => schedule.location!.city.toLowerCase())).size,
+        unmapped: current.length + upcoming.length - mapped.length,
+      },
+    }
+  }, [currentResponse, upcomingResponse])
+
+  const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault()
-    // TODO: Implement map search functionality
+    const query = searchQuery.trim()
+    if (!query) return
+
+    setIsSearching(true)
+    setSearchError(null)
+    const result = await geocoder.geocodeAddress(query)
+    setIsSearching(false)
+
+    if (result) {
+      setView({ center: [result.lat, result.lng], zoom: 12 })
+    } else {
+      setSearchError(`Could not find "${query}" on the map`)
+    }
   }
 
   const handleGetCurrentLocation = () => {
@@ -19,10 +81,12 @@ const MapPage: React.FC = () => {
       setIsLocating(true)
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          setUserLocation({
+          const location = {
             lat: position.coords.latitude,
             lng: position.coords.longitude
-          })
+          }
+          setUserLocation(location)
+          setView({ center: [location.lat, location.lng], zoom: 12 })
           setIsLocating(false)
         },
         (error) => {
@@ -64,9 +128,12 @@ const MapPage: React.FC = () => {
                     className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   />
                 </div>
-                <Button type="submit" className="w-full mt-2">
+                <Button type="submit" className="w-full mt-2" loading={isSearching}>
                   Search
                 </Button>
+                {searchError && (
+                  <p className="text-sm text-red-600 mt-2">{searchError}</p>
+                )}
               </form>
 
               {/* Current Location */}
@@ -98,17 +165,28 @@ const MapPage: React.FC = () => {
               <div className="space-y-2">
                 <div className="flex items-center gap-2">
                   <div className="w-4 h-4 bg-green-600 rounded-full"></div>
-                  <span className="text-sm text-gray-700">Saints currently here</span>
+                  <span className="text-sm text-gray-700 flex-1">Saints currently here</span>
+                  <span className="text-sm font-medium text-gray-900">{legend.current}</span>
                 </div>
                 <div className="flex items-center gap-2">
                   <div className="w-4 h-4 bg-blue-600 rounded-full"></div>
-                  <span className="text-sm text-gray-700">Upcoming visits</span>
+                  <span className="text-sm text-gray-700 flex-1">Upcoming visits</span>
+                  <span className="text-sm font-medium text-gray-900">{legend.upcoming}</span>
                 </div>
                 <div className="flex items-center gap-2">
                   <div className="w-4 h-4 bg-gray-400 rounded-full"></div>
-                  <span className="text-sm text-gray-700">All locations</span>
+                  <span className="text-sm text-gray-700 flex-1">All locations</span>
+                  <span className="text-sm font-medium text-gray-900">{legend.locations}</span>
                 </div>
               </div>
+              <p className="text-xs text-gray-500 mt-4">
+                Across {legend.cities} {legend.cities === 1 ? 'city' : 'cities'}
+              </p>
+              {legend.unmapped > 0 && (
+                <p className="text-xs text-orange-600 mt-1">
+                  {legend.unmapped} {legend.unmapped === 1 ? 'schedule is' : 'schedules are'} not shown because the location has no coordinates
+                </p>
+              )}
             </div>
           </div>
 
@@ -116,33 +194,33 @@ const MapPage: React.FC = () => {
           <div className="lg:col-span-3">
             <Card className="h-[600px]">
               <CardContent className="p-0 h-full">
-                {/* Placeholder for Map */}
-                <div className="w-full h-full bg-gray-100 flex items-center justify-center">
-                  <div className="text-center">
-                    <MapPin className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-                    <h3 className="text-lg font-semibold text-gray-900 mb-2">Interactive Map</h3>
-                    <p className="text-gray-600 mb-4">
-                      Map functionality will be implemented with a mapping service like Mapbox or Google Maps
-                    </p>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
-                      <div className="bg-white p-3 rounded-lg border border-gray-200">
-                        <div className="font-medium text-gray-900 mb-1">Current Locations</div>
-                        <div className="text-2xl font-bold text-green-600">12</div>
-                        <div className="text-gray-600">Saints available</div>
-                      </div>
-                      <div className="bg-white p-3 rounded-lg border border-gray-200">
-                        <div className="font-medium text-gray-900 mb-1">Total Locations</div>
-                        <div className="text-2xl font-bold text-blue-600">45</div>
-                        <div className="text-gray-600">Spiritual centers</div>
-                      </div>
-                      <div className="bg-white p-3 rounded-lg border border-gray-200">
-                        <div className="font-medium text-gray-900 mb-1">Cities Covered</div>
-                        <div className="text-2xl font-bold text-purple-600">28</div>
-                        <div className="text-gray-600">Across India</div>
-                      </div>
+                {isLoading && (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <LoadingSpinner size="lg" />
+                  </div>
+                )}
+
+                {error && (
+                  <div className="w-full h-full flex items-center justify-center bg-red-50">
+                    <div className="text-center p-6">
+                      <h3 className="text-red-800 font-medium mb-2">Unable to load schedules</h3>
+                      <p className="text-red-600">
+                        {getErrorMessage(error)}
+                      </p>
                     </div>
                   </div>
-                </div>
+                )}
+
+                {!isLoading && !error && (
+                  <MapView
+                    saints={mapSaints}
+                    center={view.center}
+                    zoom={view.zoom}
+                    height="100%"
+                    showUserLocation
+                    userLocation={userLocation || undefined}
+                  />
+                )}
               </CardContent>
             </Card>
           </div>
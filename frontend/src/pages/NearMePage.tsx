@@ -0,0 +1,394 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { Navigation, Search, MapPin, List, Map as MapIcon, Route } from 'lucide-react'
+import { searchApi } from '@/services/api'
+import { Schedule } from '@/types/api'
+import { Card, CardContent } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/Loading'
+import Button from '@/components/ui/Button'
+import MapView, { buildMapSaints, hasCoordinates, type RouteStop } from '@/components/ui/MapView'
+import Itinerary, { type ItineraryStop } from '@/components/trip/Itinerary'
+import MapService, { defaultMapConfig } from '@/services/mapService'
+import { formatDateRange, getErrorMessage } from '@/lib/utils'
+import { planRoute } from '@/lib/routePlanner'
+
+const RADIUS_OPTIONS = [5, 10, 25, 50, 100, 250]
+
+interface Origin {
+  lat: number
+  lng: number
+  label: string
+}
+
+// Pick a zoom level that roughly fits the search radius in the map viewport
+const zoomForRadius = (radiusKm: number) => {
+  if (radiusKm <= 5) return 12
+  if (radiusKm <= 10) return 11
+  if (radiusKm <= 25) return 10
+  if (radiusKm <= 50) return 9
+  if (radiusKm <= 100) return 8
+  return 7
+}
+
+const NearMePage: React.FC = () => {
+  const [origin, setOrigin] = useState<Origin | null>(null)
+  const [address, setAddress] = useState('')
+  const [radiusKm, setRadiusKm] = useState(25)
+  const [currentOnly, setCurrentOnly] = useState(true)
+  const [isLocating, setIsLocating] = useState(false)
+  const [locationError, setLocationError] = useState<string | null>(null)
+  const [mobileView, setMobileView] = useState<'list' | 'map'>('list')
+  const [tripIds, setTripIds] = useState<Set<string>>(new Set())
+
+  const mapService = useMemo(() => new MapService(defaultMapConfig), [])
+
+  const locateUser = async () => {
+    setIsLocating(true)
+    setLocationError(null)
+    const location = await mapService.getUserLocation()
+    setIsLocating(false)
+
+    if (location) {
+      setOrigin({ lat: location.lat, lng: location.lng, label: 'your location' })
+    } else {
+      setLocationError('We could not access your location. Enter an address instead.')
+    }
+  }
+
+  // Try the browser location first; the address form is the fallback
+  useEffect(() => {
+    locateUser()
+  }, [])
+
+  const handleAddressSearch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const query = address.trim()
+    if (!query) return
+
+    setIsLocating(true)
+    setLocationError(null)
+    const result = await mapService.geocodeAddress(query)
+    setIsLocating(false)
+
+    if (result) {
+      setOrigin({ lat: result.lat, lng: result.lng, label: result.display_name })
+    } else {
+      setLocationError(`Could not find "${query}". Try a city or area name.`)
+    }
+  }
+
+  const {
+    data: response,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['nearby', origin?.lat, origin?.lng, radiusKm, currentOnly],
+    queryFn: () => searchApi.getNearby({
+      latitude: origin!.lat,
+      longitude: origin!.lng,
+      radiusKm,
+      currentOnly,
+    }),
+    enabled: !!origin,
+  })
+
+  const results = useMemo(() => {
+    if (!origin) return []
+
+    return (response?.data || [])
+      .filter(hasCoordinates)
+      .map((schedule) => ({
+        schedule,
+        distanceKm: mapService.calculateDistance(
+          [origin.lat, origin.lng],
+          [schedule.location!.latitude!, schedule.location!.longitude!]
+        ),
+      }))
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+  }, [response, origin, mapService])
+
+  // Stops in the trip are re-ordered to keep the total distance as short as possible
+  const trip = useMemo(() => {
+    if (!origin) return null
+
+    const stops: ItineraryStop[] = results
+      .filter((result) => tripIds.has(result.schedule.id))
+      .map(({ schedule }) => ({
+        schedule,
+        position: [schedule.location!.latitude!, schedule.location!.longitude!],
+      }))
+
+    if (stops.length === 0) return null
+    return planRoute([origin.lat, origin.lng], stops, (from, to) => mapService.calculateDistance(from, to))
+  }, [results, tripIds, origin, mapService])
+
+  const routeStops = useMemo<RouteStop[] | undefined>(() => trip?.stops.map(({ schedule, position }) => ({
+    id: schedule.id,
+    position,
+    title: `${schedule.saint?.title ? `${schedule.saint.title} ` : ''}${schedule.saint?.name}`,
+    description: `${schedule.location?.name}<br>${schedule.location?.address}, ${schedule.location?.city}`,
+    type: schedule.isCurrent ? 'current' : 'upcoming',
+  })), [trip])
+
+  // Trip stops get numbered markers instead, so leave them out of the regular markers
+  const mapSaints = useMemo(() => {
+    const schedules = results
+      .map((result) => result.schedule)
+      .filter((schedule) => !tripIds.has(schedule.id))
+    return buildMapSaints(
+      schedules.filter((schedule) => schedule.isCurrent),
+      schedules.filter((schedule) => !schedule.isCurrent)
+    )
+  }, [results, tripIds])
+
+  const toggleTripStop = (scheduleId: string) => {
+    setTripIds(prev => {
+      const next = new Set(prev)
+      if (next.has(scheduleId)) next.delete(scheduleId)
+      else next.add(scheduleId)
+      return next
+    })
+  }
+
+  const formatDistance = (distanceKm: number) =>
+    distanceKm < 1 ? `${Math.round(distanceKm * 1000)} m` : `${distanceKm.toFixed(1)} km`
+
+  const renderResult = ({ schedule, distanceKm }: { schedule: Schedule; distanceKm: number }) => (
+    <Card key={schedule.id}>
+      <CardContent className="p-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Link
+              to={`/saints/${schedule.saintId}`}
+              className="font-semibold text-gray-900 hover:text-primary-600"
+            >
+              {schedule.saint?.title ? `${schedule.saint.title} ` : ''}{schedule.saint?.name}
+            </Link>
+            <p className="text-sm text-gray-700 mt-1">{schedule.location?.name}</p>
+            <p className="text-sm text-gray-500">
+              {schedule.location?.address}, {schedule.location?.city}
+            </p>
+            <p className="text-xs text-gray-500 mt-2">
+              {formatDateRange(schedule.startDate, schedule.endDate)}
+            </p>
+          </div>
+          <div className="text-right flex-shrink-0">
+            <p className="text-sm font-semibold text-primary-600">{formatDistance(distanceKm)}</p>
+            <span className={`inline-block mt-2 px-2 py-1 rounded-full text-xs font-medium ${
+              schedule.isCurrent ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+            }`}>
+              {schedule.isCurrent ? 'Here now' : 'Upcoming'}
+            </span>
+          </div>
+        </div>
+        <label className="flex items-center gap-2 mt-3 pt-3 border-t border-gray-100 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={tripIds.has(schedule.id)}
+            onChange={() => toggleTripStop(schedule.id)}
+            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          Add to my trip
+        </label>
+      </CardContent>
+    </Card>
+  )
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8 print:hidden">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Saints Near Me</h1>
+          <p className="text-gray-600">
+            Find saints staying close to you, nearest first
+          </p>
+        </div>
+
+        {/* Location and Filters */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6 mb-8 print:hidden">
+          <div className="flex flex-col lg:flex-row gap-4">
+            <form onSubmit={handleAddressSearch} className="flex-1 flex gap-2">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                <input
+                  type="text"
+                  value={address}
+                  onChange={(e) => setAddress(e.target.value)}
+                  placeholder="Enter an address, area or city..."
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+              </div>
+              <Button type="submit" disabled={isLocating}>
+                Search
+              </Button>
+            </form>
+
+            <Button variant="outline" onClick={locateUser} disabled={isLocating}>
+              {isLocating ? (
+                <>
+                  <LoadingSpinner size="sm" className="mr-2" />
+                  Locating...
+                </>
+              ) : (
+                <>
+                  <Navigation className="w-4 h-4 mr-2" />
+                  Use My Location
+                </>
+              )}
+            </Button>
+
+            <select
+              value={radiusKm}
+              onChange={(e) => setRadiusKm(Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              {RADIUS_OPTIONS.map((radius) => (
+                <option key={radius} value={radius}>Within {radius} km</option>
+              ))}
+            </select>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={currentOnly}
+                onChange={(e) => setCurrentOnly(e.target.checked)}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Staying now only
+            </label>
+          </div>
+
+          {locationError && (
+            <p className="text-sm text-red-600 mt-3">{locationError}</p>
+          )}
+          {origin && (
+            <p className="text-sm text-gray-500 mt-3">
+              Showing results near {origin.label}
+            </p>
+          )}
+        </div>
+
+        {/* No origin yet */}
+        {!origin && !isLocating && (
+          <Card>
+            <CardContent className="text-center py-12">
+              <MapPin className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Where are you?</h3>
+              <p className="text-gray-600">
+                Allow location access or enter an address to find saints nearby
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {origin && (
+          <>
+            {/* Trip Itinerary */}
+            {trip && (
+              <div className="mb-8">
+                <Itinerary
+                  startLabel={origin.label}
+                  route={trip}
+                  onRemove={toggleTripStop}
+                  onClear={() => setTripIds(new Set())}
+                />
+              </div>
+            )}
+
+            {!trip && results.length > 1 && (
+              <p className="flex items-center gap-2 text-sm text-gray-600 mb-4 print:hidden">
+                <Route className="w-4 h-4" />
+                Tick "Add to my trip" on several saints to plan the shortest visiting order
+              </p>
+            )}
+
+            {/* Mobile view switcher */}
+            <div className="flex gap-2 mb-4 lg:hidden print:hidden">
+              <Button
+                variant={mobileView === 'list' ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => setMobileView('list')}
+              >
+                <List className="w-4 h-4 mr-1" />
+                List
+              </Button>
+              <Button
+                variant={mobileView === 'map' ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => setMobileView('map')}
+              >
+                <MapIcon className="w-4 h-4 mr-1" />
+                Map
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 print:hidden">
+              {/* Results List */}
+              <div className={`space-y-4 ${mobileView === 'map' ? 'hidden lg:block' : ''}`}>
+                {isLoading && (
+                  <div className="flex justify-center py-12">
+                    <LoadingSpinner size="lg" />
+                  </div>
+                )}
+
+                {error && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+                    <h3 className="text-red-800 font-medium mb-2">Unable to search nearby</h3>
+                    <p className="text-red-600">
+                      {getErrorMessage(error)}
+                    </p>
+                  </div>
+                )}
+
+                {!isLoading && !error && results.length === 0 && (
+                  <Card>
+                    <CardContent className="text-center py-12">
+                      <MapPin className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                      <h3 className="text-lg font-medium text-gray-900 mb-2">No saints nearby</h3>
+                      <p className="text-gray-600">
+                        Try a larger radius{currentOnly ? ' or include upcoming visits' : ''}
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {!isLoading && !error && results.length > 0 && (
+                  <>
+                    <p className="text-sm text-gray-600">
+                      {results.length} {results.length === 1 ? 'result' : 'results'} within {radiusKm} km
+                    </p>
+                    {results.map(renderResult)}
+                  </>
+                )}
+              </div>
+
+              {/* Map */}
+              <div className={mobileView === 'list' ? 'hidden lg:block' : ''}>
+                <Card className="h-[600px] lg:sticky lg:top-24">
+                  <CardContent className="p-0 h-full">
+                    {/* Remount when revealed on mobile so Leaflet measures the visible container */}
+                    <MapView
+                      key={mobileView}
+                      saints={mapSaints}
+                      center={[origin.lat, origin.lng]}
+                      zoom={zoomForRadius(radiusKm)}
+                      height="100%"
+                      showUserLocation
+                      userLocation={origin}
+                      route={routeStops}
+                      routeStart={[origin.lat, origin.lng]}
+                    />
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default NearMePage
\ No newline at end of file
@@ -0,0 +1,562 @@
+import React, { useEffect, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { useQueries, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Bell, Mail, MessageCircle, X, Users, MapPin, Smartphone } from 'lucide-react'
+import { locationsApi, saintsApi, subscriptionsApi } from '@/services/api'
+import { NotificationType } from '@/types/api'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import { PageLoading } from '@/components/ui/Loading'
+import { useToast } from '@/components/ui/Toast'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import { useSubscription } from '@/hooks/useSubscription'
+import { usePushNotifications } from '@/hooks/usePushNotifications'
+import { unsubscribeFromPush } from '@/lib/pushNotifications'
+import { isValidEmail, isValidPhone, getErrorMessage } from '@/lib/utils'
+
+interface PreferencesFormData {
+  userIdentifier: string
+  emailEnabled: boolean
+  whatsAppEnabled: boolean
+  followedSaints: string[]
+  preferredCities: string[]
+  notificationTypes: NotificationType[]
+}
+
+// Mirrors the types accepted by SubscriptionsController
+const NOTIFICATION_TYPES: { value: NotificationType; label: string; description: string }[] = [
+  { value: 'arrival', label: 'Arrivals', description: 'A followed saint arrives in one of your cities' },
+  { value: 'departure', label: 'Departures', description: 'A followed saint is about to leave' },
+  { value: 'schedule_change', label: 'Schedule changes', description: 'Dates or places are updated' },
+  { value: 'chaturmas', label: 'Chaturmas announcements', description: 'Where followed saints will spend Chaturmas' },
+]
+
+const emptyForm: PreferencesFormData = {
+  userIdentifier: '',
+  emailEnabled: true,
+  whatsAppEnabled: false,
+  followedSaints: [],
+  preferredCities: [],
+  notificationTypes: ['arrival', 'schedule_change'],
+}
+
+const NotificationPreferencesPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { subscriptionId, subscription, isLoading, setSubscriptionId, updateSubscription } = useSubscription()
+  const [formData, setFormData] = useState<PreferencesFormData>(emptyForm)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [cityToAdd, setCityToAdd] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  // Set once a code has gone out; the subscription id only arrives when the code is entered
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null)
+  const [code, setCode] = useState('')
+  const [isVerifying, setIsVerifying] = useState(false)
+  const queryClient = useQueryClient()
+  const { addToast } = useToast()
+  const push = usePushNotifications(subscriptionId, !!subscription?.pushEnabled)
+
+  const isSubscribed = !!subscription
+
+  useEffect(() => {
+    if (subscription) {
+      setFormData({
+        userIdentifier: subscription.userIdentifier,
+        emailEnabled: subscription.emailEnabled,
+        whatsAppEnabled: subscription.whatsAppEnabled,
+        followedSaints: subscription.followedSaints,
+        preferredCities: subscription.preferredCities,
+        notificationTypes: subscription.notificationTypes,
+      })
+    }
+  }, [subscription])
+
+  // Follow buttons send first-time devotees here with what they wanted to follow
+  useEffect(() => {
+    const followSaint = searchParams.get('followSaint')
+    const followCity = searchParams.get('followCity')
+    if (!followSaint && !followCity) return
+
+    setFormData(prev => ({
+      ...prev,
+      followedSaints: followSaint && !prev.followedSaints.includes(followSaint)
+        ? [...prev.followedSaints, followSaint]
+        : prev.followedSaints,
+      preferredCities: followCity && !prev.preferredCities.includes(followCity)
+        ? [...prev.preferredCities, followCity]
+        : prev.preferredCities,
+    }))
+    setSearchParams({}, { replace: true })
+  }, [searchParams, setSearchParams])
+
+  const saintQueries = useQueries({
+    queries: formData.followedSaints.map((id) => ({
+      queryKey: ['saint', id],
+      queryFn: () => saintsApi.getById(id),
+      staleTime: 5 * 60 * 1000,
+    })),
+  })
+
+  const { data: citiesResponse } = useQuery({
+    queryKey: ['cities', '', ''],
+    queryFn: () => locationsApi.getCities(),
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const availableCities = (citiesResponse?.data || []).filter((city) => !formData.preferredCities.includes(city))
+
+  const validateIdentifier = (): string => {
+    const identifier = formData.userIdentifier.trim()
+    const isEmail = identifier.includes('@')
+
+    if (!identifier) {
+      return 'Enter an email address or phone number'
+    }
+    if (isEmail ? !isValidEmail(identifier) : !isValidPhone(identifier)) {
+      return isEmail ? 'Enter a valid email address' : 'Enter a valid phone number'
+    }
+    return ''
+  }
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {}
+    const identifier = formData.userIdentifier.trim()
+    const isEmail = identifier.includes('@')
+
+    const identifierError = validateIdentifier()
+    if (identifierError) {
+      newErrors.userIdentifier = identifierError
+    }
+
+    if (formData.emailEnabled && identifier && !isEmail) {
+      newErrors.channels = 'Email notifications need an email address'
+    } else if (formData.whatsAppEnabled && isEmail) {
+      newErrors.channels = 'WhatsApp notifications need a phone number'
+    } else if (!formData.emailEnabled && !formData.whatsAppEnabled && !push.isEnabled) {
+      newErrors.channels = 'Choose at least one way to be notified'
+    }
+
+    if (formData.notificationTypes.length === 0) {
+      newErrors.notificationTypes = 'Choose at least one kind of notification'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    setIsSaving(true)
+
+    const preferences = {
+      emailEnabled: formData.emailEnabled,
+      whatsAppEnabled: formData.whatsAppEnabled,
+      followedSaints: formData.followedSaints,
+      preferredCities: formData.preferredCities,
+      notificationTypes: formData.notificationTypes,
+    }
+
+    try {
+      if (isSubscribed) {
+        await updateSubscription(preferences)
+        addToast({
+          type: 'success',
+          title: 'Preferences saved',
+          message: `Notifications will go to ${formData.userIdentifier.trim()}`
+        })
+      } else {
+        const response = await subscriptionsApi.create({
+          ...preferences,
+          userIdentifier: formData.userIdentifier.trim(),
+          pushEnabled: false,
+        })
+
+        if (!response.success) {
+          throw response
+        }
+
+        setCodeSentTo(formData.userIdentifier.trim())
+        addToast({ type: 'info', title: 'Check for your code', message: response.data?.message })
+      }
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Save failed',
+        message: getErrorMessage(error)
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Devotees on a new browser get their subscription back the same way they first confirmed it
+  const handleSendCode = async () => {
+    const identifierError = validateIdentifier()
+    if (identifierError) {
+      setErrors(prev => ({ ...prev, userIdentifier: identifierError }))
+      return
+    }
+
+    try {
+      const response = await subscriptionsApi.recover(formData.userIdentifier.trim())
+      if (!response.success) {
+        throw response
+      }
+
+      setCodeSentTo(formData.userIdentifier.trim())
+      setCode('')
+      addToast({ type: 'info', title: 'Check for your code', message: response.data?.message })
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Could not send a code',
+        message: getErrorMessage(error)
+      })
+    }
+  }
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!codeSentTo || !code.trim()) return
+
+    setIsVerifying(true)
+    try {
+      const response = await subscriptionsApi.verify({ userIdentifier: codeSentTo, code: code.trim() })
+      if (!response.success || !response.data) {
+        throw response
+      }
+
+      queryClient.setQueryData(['subscription', response.data.id], response)
+      setSubscriptionId(response.data.id)
+      setCodeSentTo(null)
+      setCode('')
+      addToast({
+        type: 'success',
+        title: 'You are subscribed',
+        message: `Notifications will go to ${response.data.userIdentifier}`
+      })
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Code not accepted',
+        message: getErrorMessage(error)
+      })
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  const handleUnsubscribe = async () => {
+    if (!subscriptionId || !window.confirm('Stop all notifications and forget your preferences?')) {
+      return
+    }
+
+    try {
+      await unsubscribeFromPush()
+      await subscriptionsApi.delete(subscriptionId)
+      queryClient.removeQueries({ queryKey: ['subscription', subscriptionId] })
+      setSubscriptionId(null)
+      setFormData(emptyForm)
+      addToast({ type: 'success', title: 'Unsubscribed' })
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Unsubscribe failed',
+        message: getErrorMessage(error)
+      })
+    }
+  }
+
+  // Push needs a permission prompt, so it is saved straight away rather than with the form
+  const handlePushToggle = async () => {
+    try {
+      if (push.isEnabled) {
+        await push.disable()
+        addToast({ type: 'success', title: 'Browser notifications turned off' })
+      } else {
+        await push.enable()
+        setErrors(prev => ({ ...prev, channels: '' }))
+        addToast({
+          type: 'success',
+          title: 'Browser notifications turned on',
+          message: 'This device will be notified when a saint you follow changes their schedule'
+        })
+      }
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Could not change browser notifications',
+        message: getErrorMessage(error)
+      })
+    }
+  }
+
+  const toggleType = (type: NotificationType) => {
+    setFormData(prev => ({
+      ...prev,
+      notificationTypes: prev.notificationTypes.includes(type)
+        ? prev.notificationTypes.filter((t) => t !== type)
+        : [...prev.notificationTypes, type],
+    }))
+    setErrors(prev => ({ ...prev, notificationTypes: '' }))
+  }
+
+  const addCity = () => {
+    if (!cityToAdd) return
+    setFormData(prev => ({ ...prev, preferredCities: [...prev.preferredCities, cityToAdd] }))
+    setCityToAdd('')
+  }
+
+  if (isLoading) {
+    return <PageLoading />
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center gap-2">
+            <Bell className="w-7 h-7 text-primary-600" />
+            Notification Preferences
+          </h1>
+          <p className="text-gray-600">
+            Hear when the saints you follow arrive in, or leave, the cities you care about
+          </p>
+        </div>
+
+        {codeSentTo && !isSubscribed && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Enter your code</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleVerify} className="space-y-4">
+                <Input
+                  label={`Code sent to ${codeSentTo}`}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  placeholder="123456"
+                />
+                <div className="flex flex-col-reverse sm:flex-row sm:justify-between gap-4">
+                  <Button type="button" variant="ghost" onClick={handleSendCode}>
+                    Send a new code
+                  </Button>
+                  <Button type="submit" loading={isVerifying} disabled={!code.trim()}>
+                    Confirm
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Contact */}
+          <Card>
+            <CardHeader>
+              <CardTitle>How to reach you</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Input
+                label="Email or phone number"
+                value={formData.userIdentifier}
+                onChange={(e) => {
+                  setFormData(prev => ({ ...prev, userIdentifier: e.target.value }))
+                  setErrors(prev => ({ ...prev, userIdentifier: '', channels: '' }))
+                }}
+                error={errors.userIdentifier}
+                disabled={isSubscribed}
+                helperText={isSubscribed ? 'To use a different address, unsubscribe and sign up again' : undefined}
+                placeholder="you@example.com or +91 98765 43210"
+              />
+              {!isSubscribed && (
+                <p className="text-sm text-gray-600">
+                  Already subscribed on another device?{' '}
+                  <button type="button" onClick={handleSendCode} className="text-primary-600 hover:text-primary-700">
+                    Send me a code
+                  </button>
+                </p>
+              )}
+
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.emailEnabled}
+                    onChange={(e) => {
+                      setFormData(prev => ({ ...prev, emailEnabled: e.target.checked }))
+                      setErrors(prev => ({ ...prev, channels: '' }))
+                    }}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <Mail className="w-4 h-4 text-gray-500" />
+                  Email
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.whatsAppEnabled}
+                    onChange={(e) => {
+                      setFormData(prev => ({ ...prev, whatsAppEnabled: e.target.checked }))
+                      setErrors(prev => ({ ...prev, channels: '' }))
+                    }}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <MessageCircle className="w-4 h-4 text-gray-500" />
+                  WhatsApp
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={push.isEnabled}
+                    onChange={handlePushToggle}
+                    disabled={!isSubscribed || !push.isSupported || push.isUpdating}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <Smartphone className="w-4 h-4 text-gray-500" />
+                  Browser notifications on this device
+                </label>
+                {(!push.isSupported || !isSubscribed) && (
+                  <p className="text-xs text-gray-500 ml-6">
+                    {!push.isSupported
+                      ? 'This browser cannot show notifications'
+                      : 'Available once you have subscribed'}
+                  </p>
+                )}
+                {errors.channels && <p className="text-sm text-red-600">{errors.channels}</p>}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Notification Types */}
+          <Card>
+            <CardHeader>
+              <CardTitle>What to hear about</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {NOTIFICATION_TYPES.map((type) => (
+                <label key={type.value} className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formData.notificationTypes.includes(type.value)}
+                    onChange={() => toggleType(type.value)}
+                    className="mt-0.5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span>
+                    <span className="font-medium text-gray-900">{type.label}</span>
+                    <span className="block text-gray-500">{type.description}</span>
+                  </span>
+                </label>
+              ))}
+              {errors.notificationTypes && <p className="text-sm text-red-600">{errors.notificationTypes}</p>}
+            </CardContent>
+          </Card>
+
+          {/* Followed Saints */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="w-5 h-5 text-primary-600" />
+                Saints you follow
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {formData.followedSaints.length > 0 ? (
+                <ul className="divide-y divide-gray-100">
+                  {formData.followedSaints.map((id, index) => {
+                    const saint = saintQueries[index]?.data?.data
+                    return (
+                      <li key={id} className="flex items-center justify-between py-2">
+                        <Link to={`/saints/${id}`} className="text-sm text-gray-900 hover:text-primary-600">
+                          {saint ? `${saint.title ? `${saint.title} ` : ''}${saint.name}` : 'Loading...'}
+                        </Link>
+                        <button
+                          type="button"
+                          onClick={() => setFormData(prev => ({ ...prev, followedSaints: prev.followedSaints.filter((saintId) => saintId !== id) }))}
+                          className="p-1 text-gray-400 hover:text-gray-600"
+                          aria-label="Stop following"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </li>
+                    )
+                  })}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Use the Follow button on a <Link to="/saints" className="text-primary-600 hover:text-primary-700">saint's profile</Link> to add them here.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Preferred Cities */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MapPin className="w-5 h-5 text-primary-600" />
+                Your cities
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {formData.preferredCities.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {formData.preferredCities.map((city) => (
+                    <span key={city} className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-primary-50 text-primary-700 text-sm">
+                      {city}
+                      <button
+                        type="button"
+                        onClick={() => setFormData(prev => ({ ...prev, preferredCities: prev.preferredCities.filter((c) => c !== city) }))}
+                        className="hover:text-primary-900"
+                        aria-label={`Remove ${city}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <select
+                  value={cityToAdd}
+                  onChange={(e) => setCityToAdd(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  aria-label="City to add"
+                >
+                  <option value="">Choose a city...</option>
+                  {availableCities.map((city) => (
+                    <option key={city} value={city}>{city}</option>
+                  ))}
+                </select>
+                <Button type="button" variant="outline" onClick={addCity} disabled={!cityToAdd}>
+                  Add
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="flex flex-col-reverse sm:flex-row sm:justify-between gap-4">
+            {isSubscribed ? (
+              <Button type="button" variant="ghost" onClick={handleUnsubscribe} className="text-red-600">
+                Unsubscribe
+              </Button>
+            ) : <span />}
+            <Button type="submit" loading={isSaving}>
+              {isSubscribed ? 'Save Preferences' : 'Subscribe'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default NotificationPreferencesPage
\ No newline at end of file
@@ -1,12 +1,18 @@
-import React from 'react'
+import React, { useMemo } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { useQuery } from '@tanstack/react-query'
-import { ArrowLeft, MapPin, Calendar, Users, Phone, Mail, Star } from 'lucide-react'
-import { saintsApi } from '@/services/api'
+import { ArrowLeft, MapPin, Calendar, Users, Phone, Mail, Star, Route } from 'lucide-react'
+import { calendarApi, saintsApi, schedulesApi } from '@/services/api'
 import { Saint } from '@/types/api'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
 import { LoadingSpinner } from '@/components/ui/Loading'
 import Button from '@/components/ui/Button'
+import MapView, { type RouteStop } from '@/components/ui/MapView'
+import ScheduleTimeline from '@/components/saint/ScheduleTimeline'
+import FollowButton from '@/components/subscriptions/FollowButton'
+import CalendarExportMenu from '@/components/calendar/CalendarExportMenu'
+import MapService, { defaultMapConfig } from '@/services/mapService'
+import { buildViharPath, groupTimeline } from '@/lib/viharTimeline'
 import { formatDate, formatDateRange, formatPhoneNumber } from '@/lib/utils'
 
 const SaintProfilePage: React.FC = () => {
@@ -23,6 +29,49 @@ const SaintProfilePage: React.FC = () => {
     enabled: !!id,
   })
 
+  const {
+    data: schedulesResponse,
+    isLoading: schedulesLoading,
+  } = useQuery({
+    queryKey: ['schedules', 'saint', id],
+    queryFn: () => schedulesApi.getBySaint(id!),
+    enabled: !!id,
+  })
+
+  const { timeline, viharStops, travelledDistance, plannedDistance } = useMemo(() => {
+    const schedules = schedulesResponse?.data || []
+    const path = buildViharPath(schedules)
+    const distanceService = new MapService(defaultMapConfig)
+
+    let travelled = 0
+    let planned = 0
+    const stops: RouteStop[] = path.map((schedule, index) => {
+      const position: [number, number] = [schedule.location!.latitude!, schedule.location!.longitude!]
+      if (index > 0) {
+        const previous = path[index - 1].location!
+        const leg = distanceService.calculateDistance([previous.latitude!, previous.longitude!], position)
+        // Legs into upcoming stays have not been walked yet
+        if (schedule.isUpcoming) planned += leg
+        else travelled += leg
+      }
+      return {
+        id: schedule.id,
+        position,
+        title: schedule.location!.name,
+        description: `${schedule.location!.city} · ${formatDateRange(schedule.startDate, schedule.endDate)}`,
+        type: schedule.isCurrent ? 'current' : schedule.isUpcoming ? 'upcoming' : 'saint',
+        planned: schedule.isUpcoming,
+      }
+    })
+
+    return {
+      timeline: groupTimeline(schedules),
+      viharStops: stops,
+      travelledDistance: travelled,
+      plannedDistance: planned,
+    }
+  }, [schedulesResponse])
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -97,6 +146,10 @@ const SaintProfilePage: React.FC = () => {
 
               {/* Contact Info */}
               <div className="flex flex-col space-y-2">
+                <div className="flex gap-2">
+                  <FollowButton saintId={saintData.id} saintName={saintData.name} />
+                  <CalendarExportMenu url={calendarApi.saintUrl(saintData.id)} subscribable />
+                </div>
                 {saintData.phone && (
                   <div className="flex items-center gap-2 text-gray-600">
                     <Phone className="w-4 h-4" />
@@ -156,6 +209,9 @@ const SaintProfilePage: React.FC = () => {
                         <span className="font-medium">Phone:</span> {formatPhoneNumber(saintData.currentSchedule.contactPhone)}
                       </p>
                     )}
+                    <div className="mt-3">
+                      <CalendarExportMenu url={calendarApi.scheduleUrl(saintData.currentSchedule.id)} />
+                    </div>
                   </div>
                 </div>
               </CardContent>
@@ -190,6 +246,9 @@ const SaintProfilePage: React.FC = () => {
                           <span className="font-medium">Purpose:</span> {schedule.purpose}
                         </p>
                       )}
+                      <div className="mt-2">
+                        <CalendarExportMenu url={calendarApi.scheduleUrl(schedule.id)} />
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -202,6 +261,53 @@ const SaintProfilePage: React.FC = () => {
           </Card>
         </div>
 
+        {/* Vihar Path */}
+        {viharStops.length > 1 && (
+          <Card className="mt-8">
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle className="flex items-center gap-2">
+                  <Route className="w-5 h-5 text-primary-600" />
+                  Vihar Path
+                </CardTitle>
+                <p className="text-sm text-gray-600">
+                  {viharStops.length} places · about {Math.round(travelledDistance).toLocaleString()} km travelled
+                  {plannedDistance > 0 && ` · ${Math.round(plannedDistance).toLocaleString()} km planned`}
+                </p>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <MapView route={viharStops} height="360px" />
+              <p className="text-xs text-gray-500 mt-2">
+                Distances are measured in a straight line between consecutive places. Dashed legs lead to upcoming stays.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Timeline */}
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="w-5 h-5 text-primary-600" />
+              Timeline
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {schedulesLoading ? (
+              <div className="flex justify-center py-8">
+                <LoadingSpinner />
+              </div>
+            ) : timeline.length > 0 ? (
+              <ScheduleTimeline years={timeline} />
+            ) : (
+              <p className="text-gray-500 text-center py-8">
+                No stays have been recorded yet
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Notes Section */}
         {saintData.currentSchedule?.notes && (
           <Card className="mt-8">
@@ -6,25 +6,38 @@ import { Saint } from '@/types/api'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
 import { LoadingSpinner } from '@/components/ui/Loading'
 import Button from '@/components/ui/Button'
-import { formatDate } from '@/lib/utils'
+import { formatDate, getErrorMessage } from '@/lib/utils'
+import { useListFilters } from '@/hooks/useListFilters'
+import CityFilter from '@/components/search/CityFilter'
 
 const SaintsPage: React.FC = () => {
-  const [searchQuery, setSearchQuery] = useState('')
-  const [selectedCity, setSelectedCity] = useState('')
-  const [currentPage, setCurrentPage] = useState(1)
-  const [showFilters, setShowFilters] = useState(false)
+  const {
+    searchInput,
+    searchQuery,
+    selectedCity,
+    selectedState,
+    currentPage,
+    setSearchInput,
+    submitSearch,
+    setSelectedCity,
+    setSelectedState,
+    setCurrentPage,
+    clearFilters,
+  } = useListFilters()
+  const [showFilters, setShowFilters] = useState(!!(selectedCity || selectedState))
 
   const {
     data: response,
     isLoading,
     error,
   } = useQuery({
-    queryKey: ['saints', currentPage, searchQuery, selectedCity],
+    queryKey: ['saints', currentPage, searchQuery, selectedCity, selectedState],
     queryFn: () => saintsApi.getAll({
       page: currentPage,
       limit: 20,
       search: searchQuery || undefined,
       city: selectedCity || undefined,
+      state: selectedState || undefined,
       isActive: true,
     }),
   })
@@ -34,12 +47,7 @@ const SaintsPage: React.FC = () => {
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault()
-    setCurrentPage(1)
-  }
-
-  const handleCityFilter = (city: string) => {
-    setSelectedCity(city === selectedCity ? '' : city)
-    setCurrentPage(1)
+    submitSearch()
   }
 
   return (
@@ -61,8 +69,8 @@ const SaintsPage: React.FC = () => {
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
               <input
                 type="text"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
                 placeholder="Search by saint name, title, or spiritual lineage..."
                 className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
               />
@@ -84,24 +92,12 @@ const SaintsPage: React.FC = () => {
           {/* Filters */}
           {showFilters && (
             <div className="border-t border-gray-200 pt-4">
-              <div className="mb-4">
-                <h3 className="text-sm font-medium text-gray-700 mb-2">Filter by City</h3>
-                <div className="flex flex-wrap gap-2">
-                  {['Mumbai', 'Delhi', 'Bangalore', 'Ahmedabad', 'Kolkata', 'Chennai', 'Pune', 'Jaipur'].map((city) => (
-                    <button
-                      key={city}
-                      onClick={() => handleCityFilter(city)}
-                      className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
-                        selectedCity === city
-                          ? 'bg-primary-600 text-white'
-                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                      }`}
-                    >
-                      {city}
-                    </button>
-                  ))}
-                </div>
-              </div>
+              <CityFilter
+                city={selectedCity}
+                state={selectedState}
+                onCityChange={setSelectedCity}
+                onStateChange={setSelectedState}
+              />
             </div>
           )}
         </div>
@@ -118,7 +114,7 @@ const SaintsPage: React.FC = () => {
           <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-8">
             <h3 className="text-red-800 font-medium mb-2">Unable to load saints</h3>
             <p className="text-red-600">
-              {error instanceof Error ? error.message : 'An unexpected error occurred'}
+              {getErrorMessage(error)}
             </p>
             <Button
               onClick={() => window.location.reload()}
@@ -222,7 +218,7 @@ const SaintsPage: React.FC = () => {
                 <div className="flex items-center space-x-2">
                   <Button
                     variant="outline"
-                    onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+                    onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
                     disabled={currentPage === 1}
                   >
                     Previous
@@ -232,7 +228,7 @@ const SaintsPage: React.FC = () => {
                   </span>
                   <Button
                     variant="outline"
-                    onClick={() => setCurrentPage(prev => Math.min(pagination.totalPages, prev + 1))}
+                    onClick={() => setCurrentPage(Math.min(pagination.totalPages, currentPage + 1))}
                     disabled={currentPage === pagination.totalPages}
                   >
                     Next
@@ -249,18 +245,14 @@ const SaintsPage: React.FC = () => {
             <Users className="w-16 h-16 text-gray-300 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No saints found</h3>
             <p className="text-gray-600 mb-4">
-              {searchQuery || selectedCity
+              {searchQuery || selectedCity || selectedState
                 ? 'Try adjusting your search or filters'
                 : 'No saints are currently listed in the system'}
             </p>
-            {(searchQuery || selectedCity) && (
+            {(searchQuery || selectedCity || selectedState) && (
               <Button
                 variant="outline"
-                onClick={() => {
-                  setSearchQuery('')
-                  setSelectedCity('')
-                  setCurrentPage(1)
-                }}
+                onClick={clearFilters}
               >
                 Clear Filters
               </Button>
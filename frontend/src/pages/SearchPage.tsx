@@ -0,0 +1,382 @@
+import React, { useEffect, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { useQuery, keepPreviousData } from '@tanstack/react-query'
+import { Search, Users, MapPin, Calendar, Link2, X, Building2 } from 'lucide-react'
+import { searchApi } from '@/services/api'
+import { AdvancedSearchParams, Saint, Schedule } from '@/types/api'
+import { Card, CardContent } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/Loading'
+import Button from '@/components/ui/Button'
+import { useToast } from '@/components/ui/Toast'
+import { formatDateRange, getErrorMessage } from '@/lib/utils'
+
+const PAGE_SIZE = 20
+
+// Every filter lives in the URL so a search can be bookmarked or shared as-is
+const FILTER_KEYS = ['q', 'city', 'state', 'lineage', 'from', 'to', 'current'] as const
+
+const readFilters = (params: URLSearchParams): AdvancedSearchParams => ({
+  search: params.get('q') || undefined,
+  city: params.get('city') || undefined,
+  state: params.get('state') || undefined,
+  lineage: params.get('lineage') || undefined,
+  dateFrom: params.get('from') || undefined,
+  dateTo: params.get('to') || undefined,
+  currentOnly: params.get('current') === 'true',
+  page: Math.max(1, Number(params.get('page')) || 1),
+  limit: PAGE_SIZE,
+})
+
+const SearchPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = readFilters(searchParams)
+  const [queryInput, setQueryInput] = useState(filters.search || '')
+  const { addToast } = useToast()
+
+  // Keep the text box in step with back/forward navigation
+  useEffect(() => {
+    setQueryInput(searchParams.get('q') || '')
+  }, [searchParams])
+
+  const {
+    data: response,
+    isLoading,
+    isFetching,
+    error,
+  } = useQuery({
+    queryKey: ['advanced-search', filters],
+    queryFn: () => searchApi.advanced(filters),
+    placeholderData: keepPreviousData,
+  })
+
+  const result = response?.data
+  const saints = result?.saints || []
+  const pagination = response?.pagination
+  const currentPage = filters.page || 1
+
+  const updateFilters = (changes: Record<string, string | undefined>) => {
+    const next = new URLSearchParams(searchParams)
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value)
+      } else {
+        next.delete(key)
+      }
+    })
+    // Any change to the filters starts again from the first page
+    if (!('page' in changes)) next.delete('page')
+    setSearchParams(next)
+  }
+
+  const clearFilters = () => {
+    setQueryInput('')
+    setSearchParams(new URLSearchParams())
+  }
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    updateFilters({ q: queryInput.trim() || undefined })
+  }
+
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      addToast({ type: 'success', title: 'Link copied', message: 'Anyone with this link will see the same results' })
+    } catch {
+      addToast({ type: 'error', title: 'Could not copy link', message: window.location.href })
+    }
+  }
+
+  const goToPage = (page: number) => {
+    updateFilters({ page: page > 1 ? page.toString() : undefined })
+    window.scrollTo({ top: 0 })
+  }
+
+  const matchedStays = (saint: Saint): Schedule[] =>
+    (result?.schedules || []).filter((schedule) => schedule.saintId === saint.id)
+
+  const activeFilterCount = FILTER_KEYS.filter((key) => searchParams.get(key)).length
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Advanced Search</h1>
+            <p className="text-gray-600">
+              Find saints by place, dates and lineage
+            </p>
+          </div>
+          <Button variant="outline" onClick={handleShare} className="flex items-center gap-2 self-start">
+            <Link2 className="w-4 h-4" />
+            Share Results
+          </Button>
+        </div>
+
+        {/* Search Bar */}
+        <form onSubmit={handleSearch} className="flex gap-4 mb-8">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              value={queryInput}
+              onChange={(e) => setQueryInput(e.target.value)}
+              placeholder="Search by saint name, title, or spiritual lineage..."
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+          <Button type="submit" className="flex-shrink-0">
+            Search
+          </Button>
+        </form>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          {/* Filter Panel */}
+          <aside className="lg:col-span-1">
+            <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
+              <div className="flex items-center justify-between">
+                <h2 className="font-semibold text-gray-900">Filters</h2>
+                {activeFilterCount > 0 && (
+                  <button
+                    type="button"
+                    onClick={clearFilters}
+                    className="text-sm text-primary-600 hover:text-primary-700"
+                  >
+                    Clear all
+                  </button>
+                )}
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!filters.currentOnly}
+                  onChange={(e) => updateFilters({ current: e.target.checked ? 'true' : undefined })}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Currently present only
+              </label>
+
+              <div>
+                <label htmlFor="filter-city" className="block text-sm font-medium text-gray-700 mb-1">City</label>
+                <select
+                  id="filter-city"
+                  value={filters.city || ''}
+                  onChange={(e) => updateFilters({ city: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                >
+                  <option value="">Any city</option>
+                  {result?.facets.cities.map((city) => (
+                    <option key={city} value={city}>{city}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="filter-state" className="block text-sm font-medium text-gray-700 mb-1">State</label>
+                <select
+                  id="filter-state"
+                  value={filters.state || ''}
+                  onChange={(e) => updateFilters({ state: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                >
+                  <option value="">Any state</option>
+                  {result?.facets.states.map((state) => (
+                    <option key={state} value={state}>{state}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="filter-lineage" className="block text-sm font-medium text-gray-700 mb-1">Lineage</label>
+                <select
+                  id="filter-lineage"
+                  value={filters.lineage || ''}
+                  onChange={(e) => updateFilters({ lineage: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                >
+                  <option value="">Any lineage</option>
+                  {result?.facets.lineages.map((lineage) => (
+                    <option key={lineage} value={lineage}>{lineage}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-1">Staying between</span>
+                <div className="space-y-2">
+                  <input
+                    type="date"
+                    aria-label="From date"
+                    value={filters.dateFrom || ''}
+                    max={filters.dateTo}
+                    onChange={(e) => updateFilters({ from: e.target.value || undefined })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                  <input
+                    type="date"
+                    aria-label="To date"
+                    value={filters.dateTo || ''}
+                    min={filters.dateFrom}
+                    onChange={(e) => updateFilters({ to: e.target.value || undefined })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+            </div>
+          </aside>
+
+          {/* Results */}
+          <section className="lg:col-span-3">
+            {/* Loading State */}
+            {isLoading && (
+              <div className="flex justify-center py-12">
+                <LoadingSpinner size="lg" />
+              </div>
+            )}
+
+            {/* Error State */}
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-8">
+                <h3 className="text-red-800 font-medium mb-2">Unable to search</h3>
+                <p className="text-red-600">
+                  {getErrorMessage(error)}
+                </p>
+              </div>
+            )}
+
+            {!isLoading && !error && result && (
+              <>
+                <div className="flex items-center justify-between mb-4 text-sm text-gray-600">
+                  <span>
+                    {pagination?.total ?? saints.length} {(pagination?.total ?? saints.length) === 1 ? 'saint' : 'saints'} found
+                  </span>
+                  {isFetching && <LoadingSpinner size="sm" />}
+                </div>
+
+                {/* Temples in the selected place */}
+                {result.locations.length > 0 && (
+                  <div className="mb-6 flex flex-wrap gap-2">
+                    {result.locations.map((location) => (
+                      <Link
+                        key={location.id}
+                        to={`/locations/${encodeURIComponent(location.city)}`}
+                        className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-white border border-gray-200 text-sm text-gray-700 hover:border-primary-300 hover:text-primary-700"
+                      >
+                        <Building2 className="w-4 h-4" />
+                        {location.name}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+
+                {saints.length > 0 && (
+                  <div className="space-y-4 mb-8">
+                    {saints.map((saint) => {
+                      const stays = matchedStays(saint)
+                      return (
+                        <Card key={saint.id} className="hover:shadow-md transition-shadow">
+                          <CardContent className="p-6">
+                            <div className="flex items-start gap-4">
+                              <div className="w-14 h-14 bg-gray-200 rounded-full flex items-center justify-center flex-shrink-0">
+                                {saint.photoUrl ? (
+                                  <img
+                                    src={saint.photoUrl}
+                                    alt={saint.name}
+                                    className="w-full h-full rounded-full object-cover"
+                                  />
+                                ) : (
+                                  <Users className="w-7 h-7 text-gray-400" />
+                                )}
+                              </div>
+                              <div className="flex-1 min-w-0">
+                                <Link
+                                  to={`/saints/${saint.id}`}
+                                  className="text-lg font-semibold text-gray-900 hover:text-primary-600"
+                                >
+                                  {saint.name}
+                                </Link>
+                                {saint.title && (
+                                  <p className="text-sm text-primary-600 font-medium">{saint.title}</p>
+                                )}
+                                {saint.spiritualLineage && (
+                                  <p className="text-sm text-gray-500">{saint.spiritualLineage}</p>
+                                )}
+
+                                {stays.length > 0 ? (
+                                  <ul className="mt-3 space-y-1">
+                                    {stays.map((stay) => (
+                                      <li key={stay.id} className="flex items-center gap-2 text-sm text-gray-700">
+                                        <Calendar className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                                        <span>
+                                          {stay.location?.name}, {stay.location?.city}
+                                          <span className="text-gray-500"> · {formatDateRange(stay.startDate, stay.endDate)}</span>
+                                        </span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                ) : saint.currentSchedule && (
+                                  <p className="mt-3 flex items-center gap-2 text-sm text-green-700">
+                                    <MapPin className="w-4 h-4" />
+                                    Currently at {saint.currentSchedule.location?.name}, {saint.currentSchedule.location?.city}
+                                  </p>
+                                )}
+                              </div>
+                            </div>
+                          </CardContent>
+                        </Card>
+                      )
+                    })}
+                  </div>
+                )}
+
+                {/* Pagination */}
+                {pagination && pagination.totalPages > 1 && (
+                  <div className="flex justify-center">
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => goToPage(currentPage - 1)}
+                        disabled={currentPage === 1}
+                      >
+                        Previous
+                      </Button>
+                      <span className="text-sm text-gray-600">
+                        Page {currentPage} of {pagination.totalPages}
+                      </span>
+                      <Button
+                        variant="outline"
+                        onClick={() => goToPage(currentPage + 1)}
+                        disabled={currentPage >= pagination.totalPages}
+                      >
+                        Next
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Empty State */}
+                {saints.length === 0 && (
+                  <div className="text-center py-12">
+                    <Search className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No saints match these filters</h3>
+                    <p className="text-gray-600 mb-4">Try widening the date range or removing a filter</p>
+                    {activeFilterCount > 0 && (
+                      <Button variant="outline" onClick={clearFilters} className="inline-flex items-center gap-2">
+                        <X className="w-4 h-4" />
+                        Clear Filters
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SearchPage
\ No newline at end of file
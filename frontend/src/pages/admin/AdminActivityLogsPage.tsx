@@ -0,0 +1,248 @@
+import React, { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Activity, ChevronDown, ChevronRight } from 'lucide-react'
+import { activityApi } from '@/services/api'
+import { ActivityLog } from '@/types/api'
+import { Card, CardContent } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/Loading'
+import Button from '@/components/ui/Button'
+import AdminLayout from '@/components/layout/AdminLayout'
+import JsonDiff from '@/components/admin/JsonDiff'
+import { formatActivityAction, getErrorMessage } from '@/lib/utils'
+
+const ENTITY_TYPES = ['saint', 'schedule', 'location', 'user']
+const ACTION_VERBS = ['CREATE', 'UPDATE', 'DELETE']
+
+const ACTION_BADGES: Record<string, string> = {
+  CREATE: 'bg-green-100 text-green-800',
+  UPDATE: 'bg-blue-100 text-blue-800',
+  DELETE: 'bg-red-100 text-red-800',
+}
+
+const initialFilters = {
+  adminUserId: '',
+  entityType: '',
+  action: '',
+  dateFrom: '',
+  dateTo: '',
+}
+
+const AdminActivityLogsPage: React.FC = () => {
+  const [filters, setFilters] = useState(initialFilters)
+  const [currentPage, setCurrentPage] = useState(1)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const {
+    data: response,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['activity-logs', currentPage, filters],
+    queryFn: () => activityApi.getAll({
+      page: currentPage,
+      limit: 20,
+      adminUserId: filters.adminUserId || undefined,
+      entityType: filters.entityType || undefined,
+      action: filters.action || undefined,
+      dateFrom: filters.dateFrom ? new Date(`${filters.dateFrom}T00:00:00`) : undefined,
+      dateTo: filters.dateTo ? new Date(`${filters.dateTo}T23:59:59.999`) : undefined,
+    }),
+  })
+
+  const { data: adminsResponse } = useQuery({
+    queryKey: ['activity-log-admins'],
+    queryFn: () => activityApi.getAdmins(),
+  })
+
+  const logs = response?.data || []
+  const pagination = response?.pagination
+  const admins = adminsResponse?.data || []
+
+  // Narrow the action list to the selected entity type so impossible combinations aren't offered
+  const actionOptions = (filters.entityType ? [filters.entityType] : ENTITY_TYPES)
+    .flatMap((entityType) => ACTION_VERBS.map((verb) => `${verb}_${entityType.toUpperCase()}`))
+
+  const hasFilters = Object.values(filters).some(Boolean)
+
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target
+    setFilters(prev => {
+      const next = { ...prev, [name]: value }
+      if (name === 'entityType' && value && prev.action && !prev.action.endsWith(`_${value.toUpperCase()}`)) {
+        next.action = ''
+      }
+      return next
+    })
+    setCurrentPage(1)
+  }
+
+  const clearFilters = () => {
+    setFilters(initialFilters)
+    setCurrentPage(1)
+  }
+
+  const getActionBadge = (log: ActivityLog) =>
+    ACTION_BADGES[log.action.split('_')[0]] || 'bg-gray-100 text-gray-800'
+
+  const selectClassName = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent'
+
+  return (
+    <AdminLayout
+      title="Activity Logs"
+      description="Review every change made to saints, schedules, and locations"
+    >
+      {/* Filters */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+          <select name="adminUserId" value={filters.adminUserId} onChange={handleFilterChange} className={selectClassName}>
+            <option value="">All admins</option>
+            {admins.map((admin) => (
+              <option key={admin.id} value={admin.id}>{admin.username}</option>
+            ))}
+          </select>
+          <select name="entityType" value={filters.entityType} onChange={handleFilterChange} className={selectClassName}>
+            <option value="">All entities</option>
+            {ENTITY_TYPES.map((entityType) => (
+              <option key={entityType} value={entityType}>
+                {entityType.charAt(0).toUpperCase() + entityType.slice(1)}
+              </option>
+            ))}
+          </select>
+          <select name="action" value={filters.action} onChange={handleFilterChange} className={selectClassName}>
+            <option value="">All actions</option>
+            {actionOptions.map((action) => (
+              <option key={action} value={action}>{formatActivityAction(action)}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            name="dateFrom"
+            value={filters.dateFrom}
+            max={filters.dateTo || undefined}
+            onChange={handleFilterChange}
+            aria-label="From date"
+            className={selectClassName}
+          />
+          <input
+            type="date"
+            name="dateTo"
+            value={filters.dateTo}
+            min={filters.dateFrom || undefined}
+            onChange={handleFilterChange}
+            aria-label="To date"
+            className={selectClassName}
+          />
+        </div>
+        {hasFilters && (
+          <div className="mt-4 flex justify-end">
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              Clear filters
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Loading State */}
+      {isLoading && (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-8">
+          <h3 className="text-red-800 font-medium mb-2">Unable to load activity logs</h3>
+          <p className="text-red-600">
+            {getErrorMessage(error)}
+          </p>
+        </div>
+      )}
+
+      {/* Log Entries */}
+      {!isLoading && !error && logs.length > 0 && (
+        <>
+          <Card className="mb-8 divide-y divide-gray-200">
+            {logs.map((log: ActivityLog) => {
+              const isExpanded = expandedId === log.id
+              return (
+                <div key={log.id}>
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(isExpanded ? null : log.id)}
+                    className="w-full px-6 py-4 flex items-center gap-4 text-left hover:bg-gray-50"
+                  >
+                    {isExpanded
+                      ? <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      : <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium flex-shrink-0 ${getActionBadge(log)}`}>
+                      {formatActivityAction(log.action)}
+                    </span>
+                    <span className="flex-1 text-sm text-gray-600 truncate">
+                      {log.entityType && <span className="capitalize">{log.entityType}</span>}
+                      {log.entityId && <span className="text-gray-400"> · {log.entityId}</span>}
+                    </span>
+                    <span className="text-sm text-gray-900 flex-shrink-0">{log.adminUsername || 'System'}</span>
+                    <span className="text-xs text-gray-500 flex-shrink-0 w-40 text-right">
+                      {new Date(log.createdAt).toLocaleString('en-IN')}
+                    </span>
+                  </button>
+                  {isExpanded && (
+                    <div className="px-6 pb-6">
+                      <JsonDiff oldValues={log.oldValues} newValues={log.newValues} />
+                      {log.ipAddress && (
+                        <p className="text-xs text-gray-500 mt-2">IP address: {log.ipAddress}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </Card>
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex justify-center">
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+                  disabled={currentPage === 1}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-600">
+                  Page {currentPage} of {pagination.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  onClick={() => setCurrentPage(prev => Math.min(pagination.totalPages, prev + 1))}
+                  disabled={currentPage === pagination.totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Empty State */}
+      {!isLoading && !error && logs.length === 0 && (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Activity className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No activity found</h3>
+            <p className="text-gray-600">
+              {hasFilters
+                ? 'Try adjusting your filters'
+                : 'Changes made by admins will appear here'}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </AdminLayout>
+  )
+}
+
+export default AdminActivityLogsPage
\ No newline at end of file
@@ -1,85 +1,221 @@
 import React from 'react'
-import { Link, useNavigate } from 'react-router-dom'
-import { useAuth } from '@/contexts/AuthContext'
-import { Users, MapPin, Calendar, Plus, Settings, Activity, LogOut, Home } from 'lucide-react'
+import { useNavigate } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { Users, MapPin, Calendar, Settings, Activity, CheckCircle } from 'lucide-react'
+import { saintsApi, locationsApi, schedulesApi, activityApi, usersApi } from '@/services/api'
+import { ApiResponse, Schedule } from '@/types/api'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/Loading'
 import Button from '@/components/ui/Button'
+import AdminLayout from '@/components/layout/AdminLayout'
+import { usePermissions } from '@/hooks/usePermission'
+import { Permission } from '@/lib/permissions'
+import { formatActivityAction, formatRelativeTime, getErrorMessage } from '@/lib/utils'
+
+interface MonthlyCounts {
+  total: number
+  thisMonth: number
+  lastMonth: number
+}
+
+interface AttentionItem {
+  schedule: Schedule
+  issues: string[]
+  endingSoon: boolean
+}
+
+const ENDING_SOON_HOURS = 48
+
+const startOfMonth = (offset: number) => {
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth() + offset, 1)
+}
+
+// Schedule dates are DateOnly on the server, so send UTC midnight to avoid slipping a day
+const startOfMonthUtc = (offset: number) => {
+  const now = new Date()
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth() + offset, 1))
+}
+
+// Nothing is created in the future, so "created since" totals are enough to split by month
+const countCreatedByMonth = async (
+  fetchTotal: (createdFrom?: Date) => Promise<ApiResponse<unknown[]>>
+): Promise<MonthlyCounts> => {
+  const totalOf = async (createdFrom?: Date) => (await fetchTotal(createdFrom)).pagination?.total ?? 0
+
+  const [total, fromLastMonth, fromThisMonth] = await Promise.all([
+    totalOf(),
+    totalOf(startOfMonth(-1)),
+    totalOf(startOfMonth(0)),
+  ])
+
+  return { total, thisMonth: fromThisMonth, lastMonth: fromLastMonth - fromThisMonth }
+}
+
+// Schedules filter on start date, so the difference between two "starting from" totals
+// gives the number of schedules starting within that month
+const countSchedulesByMonth = async (): Promise<MonthlyCounts> => {
+  const totalOf = async (dateFrom?: Date) =>
+    (await schedulesApi.getAll({ limit: 1, dateFrom })).pagination?.total ?? 0
+
+  const [total, fromLastMonth, fromThisMonth, fromNextMonth] = await Promise.all([
+    totalOf(),
+    totalOf(startOfMonthUtc(-1)),
+    totalOf(startOfMonthUtc(0)),
+    totalOf(startOfMonthUtc(1)),
+  ])
+
+  return {
+    total,
+    thisMonth: fromThisMonth - fromNextMonth,
+    lastMonth: fromLastMonth - fromThisMonth,
+  }
+}
+
+const formatChange = (counts: MonthlyCounts | undefined, isLoading: boolean, verb: string) => {
+  if (isLoading) return 'Loading...'
+  if (!counts) return 'Unavailable'
+
+  const diff = counts.thisMonth - counts.lastMonth
+  const trend = diff === 0 ? 'same as last month' : `${diff > 0 ? '+' : ''}${diff} vs last month`
+  return `${counts.thisMonth} ${verb} this month (${trend})`
+}
+
+const endOfDay = (date: string) => new Date(`${date.substring(0, 10)}T23:59:59`)
+
+const getEndingLabel = (endDate: string) => {
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  const end = new Date(`${endDate.substring(0, 10)}T00:00:00`)
+  const daysLeft = Math.round((end.getTime() - today.getTime()) / (24 * 60 * 60 * 1000))
+
+  if (daysLeft <= 0) return 'Ends Today'
+  if (daysLeft === 1) return 'Ends Tomorrow'
+  return `Ends in ${daysLeft} days`
+}
+
+const buildAttentionList = (schedules: Schedule[]): AttentionItem[] => {
+  const now = Date.now()
+
+  return schedules
+    .map((schedule) => {
+      const issues: string[] = []
+      const hoursLeft = (endOfDay(schedule.endDate).getTime() - now) / (60 * 60 * 1000)
+      const endingSoon = hoursLeft >= 0 && hoursLeft <= ENDING_SOON_HOURS
+
+      if (endingSoon) issues.push(getEndingLabel(schedule.endDate))
+
+      if (!schedule.contactPerson && !schedule.contactPhone) issues.push('No Contact Info')
+      else if (!schedule.contactPerson) issues.push('No Contact Person')
+      else if (!schedule.contactPhone) issues.push('No Contact Phone')
+
+      return { schedule, issues, endingSoon }
+    })
+    .filter((item) => item.issues.length > 0)
+    .sort((a, b) => {
+      if (a.endingSoon !== b.endingSoon) return a.endingSoon ? -1 : 1
+      return a.schedule.endDate.localeCompare(b.schedule.endDate)
+    })
+}
 
 const AdminDashboardPage: React.FC = () => {
-  const { user, logout } = useAuth()
   const navigate = useNavigate()
+  const can = usePermissions()
 
-  const handleLogout = () => {
-    logout()
-    navigate('/admin/login')
-  }
+  const saintCounts = useQuery({
+    queryKey: ['dashboard-saints'],
+    queryFn: () => countCreatedByMonth((createdFrom) => saintsApi.getAll({ limit: 1, includeInactive: true, createdFrom })),
+  })
+
+  const locationCounts = useQuery({
+    queryKey: ['dashboard-locations'],
+    queryFn: () => countCreatedByMonth((createdFrom) => locationsApi.getAll({ limit: 1, createdFrom })),
+  })
+
+  const scheduleCounts = useQuery({
+    queryKey: ['dashboard-schedules'],
+    queryFn: countSchedulesByMonth,
+  })
+
+  // Only super admins may list admin accounts
+  const canViewUsers = can('user:view')
+  const userCounts = useQuery({
+    queryKey: ['dashboard-users'],
+    queryFn: async () => {
+      const [all, active] = await Promise.all([
+        usersApi.getAll({ limit: 1 }),
+        usersApi.getAll({ limit: 1, isActive: true }),
+      ])
+      return { total: all.pagination?.total ?? 0, active: active.pagination?.total ?? 0 }
+    },
+    enabled: canViewUsers,
+  })
+
+  const {
+    data: attentionItems = [],
+    isLoading: attentionLoading,
+    error: attentionError,
+  } = useQuery({
+    queryKey: ['dashboard-attention'],
+    queryFn: async () => {
+      const [current, upcoming] = await Promise.all([
+        schedulesApi.getCurrent(),
+        schedulesApi.getUpcoming(),
+      ])
+      return buildAttentionList([...(current.data || []), ...(upcoming.data || [])])
+    },
+  })
+
+  const {
+    data: activityResponse,
+    isLoading: activityLoading,
+    error: activityError,
+  } = useQuery({
+    queryKey: ['activity-logs', 'recent'],
+    queryFn: () => activityApi.getAll({ limit: 4 }),
+  })
+
+  const recentActivity = activityResponse?.data || []
 
   const stats = [
     {
       title: 'Total Saints',
-      value: '142',
-      change: '+5 this month',
+      value: saintCounts.data?.total.toString() ?? '—',
+      change: formatChange(saintCounts.data, saintCounts.isLoading, 'added'),
       icon: Users,
       color: 'text-blue-600',
       bgColor: 'bg-blue-100',
     },
     {
-      title: 'Active Schedules',
-      value: '38',
-      change: '+12 this week',
+      title: 'Schedules',
+      value: scheduleCounts.data?.total.toString() ?? '—',
+      change: formatChange(scheduleCounts.data, scheduleCounts.isLoading, 'starting'),
       icon: Calendar,
       color: 'text-green-600',
       bgColor: 'bg-green-100',
     },
     {
       title: 'Locations',
-      value: '85',
-      change: '+8 this month',
+      value: locationCounts.data?.total.toString() ?? '—',
+      change: formatChange(locationCounts.data, locationCounts.isLoading, 'added'),
       icon: MapPin,
       color: 'text-purple-600',
       bgColor: 'bg-purple-100',
     },
     {
       title: 'Admin Users',
-      value: '12',
-      change: 'No change',
+      value: canViewUsers ? userCounts.data?.total.toString() ?? '—' : '—',
+      change: !canViewUsers
+        ? 'Managed by super admins'
+        : userCounts.isLoading
+          ? 'Loading...'
+          : userCounts.data ? `${userCounts.data.active} active` : 'Unavailable',
       icon: Settings,
       color: 'text-gray-600',
       bgColor: 'bg-gray-100',
     },
   ]
 
-  const recentActivity = [
-    {
-      id: 1,
-      action: 'Added new schedule',
-      entity: 'Acharya XYZ in Mumbai',
-      time: '2 hours ago',
-      user: 'Admin1'
-    },
-    {
-      id: 2,
-      action: 'Updated saint profile',
-      entity: 'Muni ABC',
-      time: '5 hours ago',
-      user: 'Admin2'
-    },
-    {
-      id: 3,
-      action: 'Added new location',
-      entity: 'Jain Temple, Delhi',
-      time: '1 day ago',
-      user: 'Admin1'
-    },
-    {
-      id: 4,
-      action: 'Resolved schedule conflict',
-      entity: 'Acharya PQR schedule',
-      time: '2 days ago',
-      user: 'SuperAdmin'
-    },
-  ]
-
   const quickActions = [
     {
       title: 'Add New Saint',
@@ -87,6 +223,7 @@ const AdminDashboardPage: React.FC = () => {
       icon: Users,
       href: '/admin/saints/new',
       color: 'bg-blue-600',
+      permission: 'saint:create' as Permission,
     },
     {
       title: 'Add Schedule',
@@ -94,6 +231,7 @@ const AdminDashboardPage: React.FC = () => {
       icon: Calendar,
       href: '/admin/schedules/new',
       color: 'bg-green-600',
+      permission: 'schedule:create' as Permission,
     },
     {
       title: 'Manage Locations',
@@ -101,6 +239,7 @@ const AdminDashboardPage: React.FC = () => {
       icon: MapPin,
       href: '/admin/locations',
       color: 'bg-purple-600',
+      permission: 'location:edit' as Permission,
     },
     {
       title: 'View Activity Logs',
@@ -108,127 +247,103 @@ const AdminDashboardPage: React.FC = () => {
       icon: Activity,
       href: '/admin/logs',
       color: 'bg-gray-600',
+      permission: 'activity:view' as Permission,
     },
-  ]
+  ].filter((action) => can(action.permission))
 
   return (
-    <div className="min-h-screen bg-gray-50">
-      {/* Header */}
-      <header className="bg-white shadow-sm border-b border-gray-200">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between items-center h-16">
-            <div className="flex items-center">
-              <Link to="/admin/dashboard" className="flex items-center space-x-2">
-                <div className="w-8 h-8 bg-primary-600 rounded-lg flex items-center justify-center">
-                  <span className="text-white font-bold text-lg">JM</span>
+    <AdminLayout
+      title="Dashboard"
+      description="Manage saints, schedules, and locations for the Jain Munis platform"
+    >
+      {/* Stats Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        {stats.map((stat, index) => (
+          <Card key={index}>
+            <CardContent className="p-6">
+              <div className="flex items-center">
+                <div className={`p-2 rounded-lg ${stat.bgColor} mr-4`}>
+                  <stat.icon className={`w-6 h-6 ${stat.color}`} />
                 </div>
-                <span className="text-xl font-bold text-gray-900">Admin Panel</span>
-              </Link>
-            </div>
-
-            <div className="flex items-center space-x-4">
-              <span className="text-sm text-gray-600">
-                Welcome, {user?.username}
-              </span>
-              <Button
-                variant="outline"
-                onClick={() => navigate('/')}
-                className="flex items-center gap-2"
-              >
-                <Home className="w-4 h-4" />
-                Main Site
-              </Button>
-              <Button
-                variant="outline"
-                onClick={handleLogout}
-                className="flex items-center gap-2"
-              >
-                <LogOut className="w-4 h-4" />
-                Logout
-              </Button>
-            </div>
-          </div>
-        </div>
-      </header>
-
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* Page Header */}
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
-          <p className="text-gray-600">
-            Manage saints, schedules, and locations for the Jain Munis platform
-          </p>
-        </div>
-
-        {/* Stats Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-          {stats.map((stat, index) => (
-            <Card key={index}>
-              <CardContent className="p-6">
-                <div className="flex items-center">
-                  <div className={`p-2 rounded-lg ${stat.bgColor} mr-4`}>
-                    <stat.icon className={`w-6 h-6 ${stat.color}`} />
-                  </div>
-                  <div>
-                    <p className="text-sm font-medium text-gray-600">{stat.title}</p>
-                    <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
-                    <p className="text-xs text-gray-500">{stat.change}</p>
-                  </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">{stat.title}</p>
+                  <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+                  <p className="text-xs text-gray-500">{stat.change}</p>
                 </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-          {/* Quick Actions */}
-          <div className="lg:col-span-2">
-            <Card>
-              <CardHeader>
-                <CardTitle>Quick Actions</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {quickActions.map((action, index) => (
-                    <Button
-                      key={index}
-                      variant="outline"
-                      onClick={() => navigate(action.href)}
-                      className="h-auto p-4 flex flex-col items-start text-left"
-                    >
-                      <div className={`w-8 h-8 rounded-lg ${action.color} flex items-center justify-center mb-3`}>
-                        <action.icon className="w-4 h-4 text-white" />
-                      </div>
-                      <div className="font-medium text-gray-900">{action.title}</div>
-                      <div className="text-sm text-gray-600 mt-1">{action.description}</div>
-                    </Button>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-
-          {/* Recent Activity */}
-          <div>
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Activity className="w-5 h-5" />
-                  Recent Activity
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {recentActivity.map((activity) => (
-                    <div key={activity.id} className="pb-4 border-b border-gray-100 last:border-0">
-                      <p className="text-sm font-medium text-gray-900">{activity.action}</p>
-                      <p className="text-sm text-gray-600">{activity.entity}</p>
-                      <p className="text-xs text-gray-500 mt-1">
-                        {activity.time} by {activity.user}
-                      </p>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Quick Actions */}
+        <div className="lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Quick Actions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {quickActions.map((action, index) => (
+                  <Button
+                    key={index}
+                    variant="outline"
+                    onClick={() => navigate(action.href)}
+                    className="h-auto p-4 flex flex-col items-start text-left"
+                  >
+                    <div className={`w-8 h-8 rounded-lg ${action.color} flex items-center justify-center mb-3`}>
+                      <action.icon className="w-4 h-4 text-white" />
                     </div>
-                  ))}
+                    <div className="font-medium text-gray-900">{action.title}</div>
+                    <div className="text-sm text-gray-600 mt-1">{action.description}</div>
+                  </Button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Recent Activity */}
+        <div>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Activity className="w-5 h-5" />
+                Recent Activity
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {activityLoading && (
+                <div className="flex justify-center py-6">
+                  <LoadingSpinner />
                 </div>
+              )}
+
+              {activityError && (
+                <p className="text-sm text-red-600">
+                  {getErrorMessage(activityError)}
+                </p>
+              )}
+
+              {!activityLoading && !activityError && recentActivity.length === 0 && (
+                <p className="text-sm text-gray-600">No changes have been recorded yet</p>
+              )}
+
+              <div className="space-y-4">
+                {recentActivity.map((activity) => (
+                  <div key={activity.id} className="pb-4 border-b border-gray-100 last:border-0">
+                    <p className="text-sm font-medium text-gray-900">{formatActivityAction(activity.action)}</p>
+                    {activity.entityType && (
+                      <p className="text-sm text-gray-600 capitalize">{activity.entityType}</p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatRelativeTime(activity.createdAt)} by {activity.adminUsername || 'System'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+              {can('activity:view') && (
                 <Button
                   variant="outline"
                   className="w-full mt-4"
@@ -236,56 +351,73 @@ const AdminDashboardPage: React.FC = () => {
                 >
                   View All Activity
                 </Button>
-              </CardContent>
-            </Card>
-          </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
+      </div>
 
-        {/* Upcoming Schedules */}
-        <div className="mt-8">
-          <Card>
-            <CardHeader>
-              <CardTitle>Schedules Needing Attention</CardTitle>
-            </CardHeader>
-            <CardContent>
+      {/* Upcoming Schedules */}
+      <div className="mt-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Schedules Needing Attention</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {attentionLoading && (
+              <div className="flex justify-center py-6">
+                <LoadingSpinner />
+              </div>
+            )}
+
+            {attentionError && (
+              <p className="text-sm text-red-600">
+                {getErrorMessage(attentionError)}
+              </p>
+            )}
+
+            {!attentionLoading && !attentionError && attentionItems.length === 0 && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <CheckCircle className="w-5 h-5 text-green-600" />
+                All current and upcoming schedules have contact details and none end in the next 48 hours
+              </div>
+            )}
+
+            {attentionItems.length > 0 && (
               <div className="space-y-4">
-                <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="font-medium text-yellow-900">Saint: Acharya PQR</p>
-                      <p className="text-yellow-700 text-sm">Location: Pune • Ends Tomorrow</p>
-                    </div>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => navigate('/admin/schedules')}
-                    >
-                      View
-                    </Button>
-                  </div>
-                </div>
+                {attentionItems.map(({ schedule, issues, endingSoon }) => {
+                  const tone = endingSoon
+                    ? { box: 'bg-yellow-50 border-yellow-200', title: 'text-yellow-900', text: 'text-yellow-700' }
+                    : { box: 'bg-orange-50 border-orange-200', title: 'text-orange-900', text: 'text-orange-700' }
 
-                <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="font-medium text-orange-900">Saint: Muni LMN</p>
-                      <p className="text-orange-700 text-sm">Location: Surat • No Contact Info</p>
+                  return (
+                    <div key={schedule.id} className={`p-4 border rounded-lg ${tone.box}`}>
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className={`font-medium ${tone.title}`}>Saint: {schedule.saint?.name}</p>
+                          <p className={`text-sm ${tone.text}`}>
+                            Location: {schedule.location?.city || schedule.location?.name} • {issues.join(' • ')}
+                          </p>
+                        </div>
+                        {can(`schedule:edit:${schedule.location?.city}`) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => navigate(`/admin/schedules/${schedule.id}/edit`)}
+                          >
+                            {endingSoon ? 'View' : 'Update'}
+                          </Button>
+                        )}
+                      </div>
                     </div>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => navigate('/admin/schedules')}
-                    >
-                      Update
-                    </Button>
-                  </div>
-                </div>
+                  )
+                })}
               </div>
-            </CardContent>
-          </Card>
-        </div>
-      </main>
-    </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
   )
 }
 
@@ -0,0 +1,478 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { ArrowLeft, Crosshair, MapPin } from 'lucide-react'
+import { locationsApi } from '@/services/api'
+import { CreateLocationRequest } from '@/types/api'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import { PageLoading } from '@/components/ui/Loading'
+import { useToast } from '@/components/ui/Toast'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import Textarea from '@/components/ui/Textarea'
+import MapView from '@/components/ui/MapView'
+import AdminLayout from '@/components/layout/AdminLayout'
+import { usePermissions } from '@/hooks/usePermission'
+import MapService, { defaultMapConfig } from '@/services/mapService'
+import { isValidPhone, getErrorMessage } from '@/lib/utils'
+
+interface LocationFormData {
+  name: string
+  address: string
+  city: string
+  state: string
+  postalCode: string
+  country: string
+  latitude: string
+  longitude: string
+  contactPhone: string
+}
+
+const emptyForm: LocationFormData = {
+  name: '',
+  address: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  country: 'India',
+  latitude: '',
+  longitude: '',
+  contactPhone: '',
+}
+
+const INDIA_CENTER: [number, number] = [20.5937, 78.9629]
+
+// Six decimal places is roughly 10cm, more than enough for a temple
+const formatCoordinate = (value: number) => value.toFixed(6)
+
+const AdminLocationFormPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>()
+  const isEditing = !!id
+
+  const [formData, setFormData] = useState<LocationFormData>(emptyForm)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [mapCenter, setMapCenter] = useState<[number, number]>(INDIA_CENTER)
+  const [mapZoom, setMapZoom] = useState(5)
+  const [isGeocoding, setIsGeocoding] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  // The pin handler reads the latest fields after its lookup resolves
+  const formDataRef = useRef(formData)
+  formDataRef.current = formData
+  const reverseGeocodeRequestRef = useRef(0)
+
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const { addToast } = useToast()
+  const can = usePermissions()
+  const geocoder = useMemo(() => new MapService(defaultMapConfig), [])
+
+  const { data: locationResponse, isLoading } = useQuery({
+    queryKey: ['location', id],
+    queryFn: () => locationsApi.getById(id!),
+    enabled: isEditing,
+  })
+
+  const location = locationResponse?.data
+
+  useEffect(() => {
+    if (location) {
+      const hasCoordinates = location.latitude != null && location.longitude != null
+
+      setFormData({
+        name: location.name,
+        address: location.address,
+        city: location.city,
+        state: location.state || '',
+        postalCode: location.postalCode || '',
+        country: location.country || 'India',
+        latitude: hasCoordinates ? formatCoordinate(location.latitude!) : '',
+        longitude: hasCoordinates ? formatCoordinate(location.longitude!) : '',
+        contactPhone: location.contactPhone || '',
+      })
+
+      if (hasCoordinates) {
+        setMapCenter([location.latitude!, location.longitude!])
+        setMapZoom(15)
+      }
+    }
+  }, [location])
+
+  const latitude = parseFloat(formData.latitude)
+  const longitude = parseFloat(formData.longitude)
+  const pin: [number, number] | null = !isNaN(latitude) && !isNaN(longitude) ? [latitude, longitude] : null
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {}
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Location name is required'
+    } else if (formData.name.length > 255) {
+      newErrors.name = 'Name must be 255 characters or less'
+    }
+
+    if (!formData.address.trim()) {
+      newErrors.address = 'Address is required'
+    }
+
+    if (!formData.city.trim()) {
+      newErrors.city = 'City is required'
+    } else if (formData.city.length > 100) {
+      newErrors.city = 'City must be 100 characters or less'
+    } else if (!can(`location:${isEditing ? 'edit' : 'create'}:${formData.city.trim()}`)) {
+      newErrors.city = 'You can only manage locations in your own cities'
+    }
+
+    if (formData.state.length > 100) {
+      newErrors.state = 'State must be 100 characters or less'
+    }
+
+    if (formData.postalCode.length > 20) {
+      newErrors.postalCode = 'Postal code must be 20 characters or less'
+    }
+
+    if (formData.country.length > 100) {
+      newErrors.country = 'Country must be 100 characters or less'
+    }
+
+    if (formData.latitude || formData.longitude) {
+      if (isNaN(latitude) || latitude < -90 || latitude > 90) {
+        newErrors.latitude = 'Latitude must be between -90 and 90'
+      }
+      if (isNaN(longitude) || longitude < -180 || longitude > 180) {
+        newErrors.longitude = 'Longitude must be between -180 and 180'
+      }
+    }
+
+    if (formData.contactPhone.trim()) {
+      if (formData.contactPhone.length > 20) {
+        newErrors.contactPhone = 'Phone must be 20 characters or less'
+      } else if (!isValidPhone(formData.contactPhone.trim())) {
+        newErrors.contactPhone = 'Enter a valid phone number'
+      }
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    setIsSaving(true)
+
+    const request: CreateLocationRequest = {
+      name: formData.name.trim(),
+      address: formData.address.trim(),
+      city: formData.city.trim(),
+      state: formData.state.trim() || undefined,
+      postalCode: formData.postalCode.trim() || undefined,
+      country: formData.country.trim() || undefined,
+      latitude: pin ? pin[0] : undefined,
+      longitude: pin ? pin[1] : undefined,
+      contactPhone: formData.contactPhone.trim() || undefined,
+    }
+
+    try {
+      const response = isEditing
+        ? await locationsApi.update(id!, request)
+        : await locationsApi.create(request)
+
+      if (!response.success || !response.data) {
+        throw response
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['admin-locations'] })
+      queryClient.invalidateQueries({ queryKey: ['admin-location-options'] })
+      queryClient.invalidateQueries({ queryKey: ['locations'] })
+      queryClient.invalidateQueries({ queryKey: ['location', response.data.id] })
+
+      addToast({
+        type: 'success',
+        title: isEditing ? 'Location updated' : 'Location created',
+        message: `${response.data.name} has been saved`
+      })
+
+      navigate('/admin/locations')
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Save failed',
+        message: getErrorMessage(error)
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target
+    setFormData(prev => ({ ...prev, [name]: value }))
+
+    // Clear error for this field when user starts typing
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: '' }))
+    }
+  }
+
+  const handlePinMove = async (position: [number, number]) => {
+    setFormData(prev => ({
+      ...prev,
+      latitude: formatCoordinate(position[0]),
+      longitude: formatCoordinate(position[1]),
+    }))
+    setErrors(prev => ({ ...prev, latitude: '', longitude: '' }))
+
+    // Prefill the address parts the admin is most likely to leave blank
+    const request = ++reverseGeocodeRequestRef.current
+    const result = await geocoder.reverseGeocode(position[0], position[1])
+    // A later pin move has already started its own lookup
+    if (!result || request !== reverseGeocodeRequestRef.current) return
+
+    // The city decides which coordinators can manage the location, so a typed one is only replaced on request
+    const typedCity = formDataRef.current.city.trim()
+    const replaceCity = !!result.city && !!typedCity && typedCity.toLowerCase() !== result.city.toLowerCase() &&
+      window.confirm(`The pin is in ${result.city}. Replace the city "${typedCity}"?`)
+
+    setFormData(prev => ({
+      ...prev,
+      city: (replaceCity || !prev.city.trim()) && result.city ? result.city : prev.city,
+      state: prev.state.trim() ? prev.state : result.state || prev.state,
+      postalCode: prev.postalCode.trim() ? prev.postalCode : result.postcode || prev.postalCode,
+    }))
+  }
+
+  const handleGeocodeAddress = async () => {
+    const query = [formData.address, formData.city, formData.state, formData.postalCode, formData.country]
+      .map(part => part.trim())
+      .filter(Boolean)
+      .join(', ')
+
+    if (!query) {
+      setErrors(prev => ({ ...prev, address: 'Enter an address to find it on the map' }))
+      return
+    }
+
+    setIsGeocoding(true)
+
+    try {
+      const result = await geocoder.geocodeAddress(query)
+      if (result) {
+        setFormData(prev => ({
+          ...prev,
+          latitude: formatCoordinate(result.lat),
+          longitude: formatCoordinate(result.lng),
+        }))
+        setMapCenter([result.lat, result.lng])
+        setMapZoom(15)
+      } else {
+        addToast({
+          type: 'warning',
+          title: 'Address not found',
+          message: 'Drop the pin on the map manually instead'
+        })
+      }
+    } finally {
+      setIsGeocoding(false)
+    }
+  }
+
+  if (isEditing && isLoading) {
+    return <PageLoading message="Loading location..." />
+  }
+
+  if (isEditing && !isLoading && !location) {
+    return (
+      <AdminLayout title="Edit Location">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+          <h3 className="text-red-800 font-medium mb-2">Location not found</h3>
+          <p className="text-red-600 mb-4">
+            The location you're trying to edit doesn't exist or has been removed.
+          </p>
+          <Button onClick={() => navigate('/admin/locations')}>
+            Back to Locations
+          </Button>
+        </div>
+      </AdminLayout>
+    )
+  }
+
+  if (isEditing && location && !can(`location:edit:${location.city}`)) {
+    return (
+      <AdminLayout title="Edit Location">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+          <h3 className="text-red-800 font-medium mb-2">Access denied</h3>
+          <p className="text-red-600 mb-4">
+            You can only edit locations in your own cities, and {location.name} is in {location.city}.
+          </p>
+          <Button onClick={() => navigate('/admin/locations')}>
+            Back to Locations
+          </Button>
+        </div>
+      </AdminLayout>
+    )
+  }
+
+  return (
+    <AdminLayout
+      title={isEditing ? 'Edit Location' : 'Add Location'}
+      description={isEditing ? location?.name : 'Add a temple or spiritual center'}
+      actions={
+        <Button variant="outline" onClick={() => navigate('/admin/locations')} className="flex items-center gap-2">
+          <ArrowLeft className="w-4 h-4" />
+          Back to Locations
+        </Button>
+      }
+    >
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Address Details */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Address</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <Input
+              label="Name"
+              name="name"
+              value={formData.name}
+              onChange={handleChange}
+              error={errors.name}
+              placeholder="e.g., Shri Parshvanath Jain Temple"
+              maxLength={255}
+              required
+            />
+
+            <Textarea
+              label="Address"
+              name="address"
+              value={formData.address}
+              onChange={handleChange}
+              error={errors.address}
+              rows={3}
+              required
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Input
+                label="City"
+                name="city"
+                value={formData.city}
+                onChange={handleChange}
+                error={errors.city}
+                maxLength={100}
+                required
+              />
+
+              <Input
+                label="State"
+                name="state"
+                value={formData.state}
+                onChange={handleChange}
+                error={errors.state}
+                maxLength={100}
+              />
+
+              <Input
+                label="Postal Code"
+                name="postalCode"
+                value={formData.postalCode}
+                onChange={handleChange}
+                error={errors.postalCode}
+                maxLength={20}
+              />
+
+              <Input
+                label="Country"
+                name="country"
+                value={formData.country}
+                onChange={handleChange}
+                error={errors.country}
+                maxLength={100}
+              />
+            </div>
+
+            <Input
+              label="Contact Phone"
+              name="contactPhone"
+              type="tel"
+              value={formData.contactPhone}
+              onChange={handleChange}
+              error={errors.contactPhone}
+              maxLength={20}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Map Pin */}
+        <div className="space-y-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MapPin className="w-5 h-5 text-primary-600" />
+                Map Location
+              </CardTitle>
+              <p className="text-sm text-gray-600 mt-2">
+                Click the map or drag the pin to set the exact spot. Locations without
+                coordinates never show up in nearby search.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleGeocodeAddress}
+                loading={isGeocoding}
+                className="w-full"
+              >
+                <Crosshair className="w-4 h-4 mr-2" />
+                Find Address on Map
+              </Button>
+
+              <MapView
+                height="320px"
+                center={mapCenter}
+                zoom={mapZoom}
+                pin={pin}
+                onPinMove={handlePinMove}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <Input
+                  label="Latitude"
+                  name="latitude"
+                  inputMode="decimal"
+                  value={formData.latitude}
+                  onChange={handleChange}
+                  error={errors.latitude}
+                />
+
+                <Input
+                  label="Longitude"
+                  name="longitude"
+                  inputMode="decimal"
+                  value={formData.longitude}
+                  onChange={handleChange}
+                  error={errors.longitude}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="flex flex-col gap-2">
+            <Button type="submit" loading={isSaving}>
+              {isEditing ? 'Save Changes' : 'Create Location'}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => navigate('/admin/locations')}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </form>
+    </AdminLayout>
+  )
+}
+
+export default AdminLocationFormPage
\ No newline at end of file
@@ -0,0 +1,254 @@
+import React, { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Search, Plus, Pencil, Trash2, MapPin } from 'lucide-react'
+import { locationsApi } from '@/services/api'
+import { Location } from '@/types/api'
+import { Card, CardContent } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/Loading'
+import { useToast } from '@/components/ui/Toast'
+import Button from '@/components/ui/Button'
+import AdminLayout from '@/components/layout/AdminLayout'
+import { usePermissions } from '@/hooks/usePermission'
+import { getErrorMessage } from '@/lib/utils'
+
+const AdminLocationsPage: React.FC = () => {
+  const [searchInput, setSearchInput] = useState('')
+  const [searchQuery, setSearchQuery] = useState('')
+  const [cityInput, setCityInput] = useState('')
+  const [cityFilter, setCityFilter] = useState('')
+  const [currentPage, setCurrentPage] = useState(1)
+
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const { addToast } = useToast()
+  const can = usePermissions()
+
+  const {
+    data: response,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['admin-locations', currentPage, searchQuery, cityFilter],
+    queryFn: () => locationsApi.getAll({
+      page: currentPage,
+      limit: 20,
+      search: searchQuery || undefined,
+      city: cityFilter || undefined,
+    }),
+  })
+
+  const locations = response?.data || []
+  const pagination = response?.pagination
+
+  const deleteMutation = useMutation({
+    mutationFn: (location: Location) => locationsApi.delete(location.id),
+    onSuccess: (_, location) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-locations'] })
+      queryClient.invalidateQueries({ queryKey: ['admin-location-options'] })
+      queryClient.invalidateQueries({ queryKey: ['locations'] })
+      addToast({
+        type: 'success',
+        title: 'Location deleted',
+        message: `${location.name} has been removed`
+      })
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Delete failed',
+        message: getErrorMessage(error)
+      })
+    },
+  })
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setSearchQuery(searchInput.trim())
+    setCityFilter(cityInput.trim())
+    setCurrentPage(1)
+  }
+
+  const handleDelete = (location: Location) => {
+    if (window.confirm(`Delete ${location.name}? Schedules at this location will lose their address.`)) {
+      deleteMutation.mutate(location)
+    }
+  }
+
+  const hasCoordinates = (location: Location) =>
+    location.latitude !== undefined && location.latitude !== null &&
+    location.longitude !== undefined && location.longitude !== null
+
+  return (
+    <AdminLayout
+      title="Locations"
+      description="Manage temples and spiritual centers, including their map coordinates"
+      actions={can('location:create') && (
+        <Button onClick={() => navigate('/admin/locations/new')} className="flex items-center gap-2">
+          <Plus className="w-4 h-4" />
+          Add Location
+        </Button>
+      )}
+    >
+      {/* Search and Filters */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6 mb-8">
+        <form onSubmit={handleSearch} className="flex flex-col md:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search by location name or address..."
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+          <input
+            type="text"
+            value={cityInput}
+            onChange={(e) => setCityInput(e.target.value)}
+            placeholder="City"
+            className="md:w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+          <Button type="submit" className="flex-shrink-0">
+            Search
+          </Button>
+        </form>
+      </div>
+
+      {/* Loading State */}
+      {isLoading && (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-8">
+          <h3 className="text-red-800 font-medium mb-2">Unable to load locations</h3>
+          <p className="text-red-600">
+            {getErrorMessage(error)}
+          </p>
+        </div>
+      )}
+
+      {/* Locations Table */}
+      {!isLoading && !error && locations.length > 0 && (
+        <>
+          <Card className="mb-8 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">City</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Coordinates</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {locations.map((location: Location) => (
+                  <tr key={location.id}>
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-medium text-gray-900">{location.name}</p>
+                      <p className="text-xs text-gray-500">{location.address}</p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {location.city}
+                      {location.state && `, ${location.state}`}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      {hasCoordinates(location) ? (
+                        <span className="text-gray-600">
+                          {location.latitude!.toFixed(4)}, {location.longitude!.toFixed(4)}
+                        </span>
+                      ) : (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                          Missing
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{location.contactPhone || '—'}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-end gap-2">
+                        {can(`location:edit:${location.city}`) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => navigate(`/admin/locations/${location.id}/edit`)}
+                          >
+                            <Pencil className="w-4 h-4 mr-1" />
+                            Edit
+                          </Button>
+                        )}
+                        {can(`location:delete:${location.city}`) && (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => handleDelete(location)}
+                            loading={deleteMutation.isPending && deleteMutation.variables?.id === location.id}
+                          >
+                            <Trash2 className="w-4 h-4 mr-1" />
+                            Delete
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Card>
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex justify-center">
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+                  disabled={currentPage === 1}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-600">
+                  Page {currentPage} of {pagination.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  onClick={() => setCurrentPage(prev => Math.min(pagination.totalPages, prev + 1))}
+                  disabled={currentPage === pagination.totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Empty State */}
+      {!isLoading && !error && locations.length === 0 && (
+        <Card>
+          <CardContent className="text-center py-12">
+            <MapPin className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No locations found</h3>
+            <p className="text-gray-600 mb-4">
+              {searchQuery || cityFilter
+                ? 'Try adjusting your search or filters'
+                : 'Add the first location to get started'}
+            </p>
+            {can('location:create') && (
+              <Button onClick={() => navigate('/admin/locations/new')}>
+                Add Location
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </AdminLayout>
+  )
+}
+
+export default AdminLocationsPage
\ No newline at end of file
@@ -14,8 +14,10 @@ const AdminLoginPage: React.FC = () => {
   })
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [isLoading, setIsLoading] = useState(false)
+  const [step, setStep] = useState<'credentials' | 'code'>('credentials')
+  const [code, setCode] = useState('')
 
-  const { login, isAuthenticated } = useAuth()
+  const { login, verifyTwoFactor, cancelTwoFactor, isAuthenticated } = useAuth()
   const navigate = useNavigate()
   const [searchParams] = useSearchParams()
   const returnUrl = searchParams.get('returnUrl')
@@ -54,9 +56,11 @@ const AdminLoginPage: React.FC = () => {
     setIsLoading(true)
 
     try {
-      const success = await login(formData)
-      if (success) {
+      const result = await login(formData)
+      if (result === 'success') {
         navigate(returnUrl || '/admin/dashboard', { replace: true })
+      } else if (result === 'twoFactorRequired') {
+        setStep('code')
       }
     } catch (error) {
       console.error('Login error:', error)
@@ -65,6 +69,37 @@ const AdminLoginPage: React.FC = () => {
     }
   }
 
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!code.trim()) {
+      setErrors({ code: 'Enter the code from your authenticator app' })
+      return
+    }
+
+    setIsLoading(true)
+
+    try {
+      const success = await verifyTwoFactor(code)
+      if (success) {
+        navigate(returnUrl || '/admin/dashboard', { replace: true })
+      } else {
+        setCode('')
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Back to the password step, e.g. after the challenge ran out
+  const handleStartOver = () => {
+    cancelTwoFactor()
+    setStep('credentials')
+    setCode('')
+    setErrors({})
+    setFormData(prev => ({ ...prev, password: '' }))
+  }
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target
     setFormData(prev => ({ ...prev, [name]: value }))
@@ -90,54 +125,102 @@ const AdminLoginPage: React.FC = () => {
       <div className="sm:mx-auto sm:w-full sm:max-w-md">
         <Card>
           <CardHeader>
-            <CardTitle className="text-center">Sign in to Admin Panel</CardTitle>
+            <CardTitle className="text-center">
+              {step === 'code' ? 'Two-factor verification' : 'Sign in to Admin Panel'}
+            </CardTitle>
             <p className="text-center text-sm text-gray-600">
-              Enter your credentials to access the admin dashboard
+              {step === 'code'
+                ? 'Enter the 6-digit code from your authenticator app, or one of your recovery codes'
+                : 'Enter your credentials to access the admin dashboard'}
             </p>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div>
+            {step === 'code' ? (
+              <form onSubmit={handleCodeSubmit} className="space-y-6">
                 <Input
-                  label="Username"
-                  name="username"
+                  label="Verification code"
+                  name="code"
                   type="text"
-                  value={formData.username}
-                  onChange={handleChange}
-                  error={errors.username}
-                  placeholder="Enter your username"
-                  required
-                />
-              </div>
-
-              <div>
-                <Input
-                  label="Password"
-                  name="password"
-                  type="password"
-                  value={formData.password}
-                  onChange={handleChange}
-                  error={errors.password}
-                  placeholder="Enter your password"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  value={code}
+                  onChange={(e) => {
+                    setCode(e.target.value)
+                    if (errors.code) setErrors({})
+                  }}
+                  error={errors.code}
+                  placeholder="123456"
                   required
                 />
-              </div>
 
-              <Button
-                type="submit"
-                className="w-full"
-                disabled={isLoading}
-              >
-                {isLoading ? (
-                  <>
-                    <LoadingSpinner size="sm" className="mr-2" />
-                    Signing in...
-                  </>
-                ) : (
-                  'Sign In'
-                )}
-              </Button>
-            </form>
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <>
+                      <LoadingSpinner size="sm" className="mr-2" />
+                      Verifying...
+                    </>
+                  ) : (
+                    'Verify'
+                  )}
+                </Button>
+
+                <button
+                  type="button"
+                  onClick={handleStartOver}
+                  className="w-full text-sm text-gray-600 hover:text-gray-900"
+                >
+                  Back to sign in
+                </button>
+              </form>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div>
+                  <Input
+                    label="Username"
+                    name="username"
+                    type="text"
+                    value={formData.username}
+                    onChange={handleChange}
+                    error={errors.username}
+                    placeholder="Enter your username"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <Input
+                    label="Password"
+                    name="password"
+                    type="password"
+                    value={formData.password}
+                    onChange={handleChange}
+                    error={errors.password}
+                    placeholder="Enter your password"
+                    required
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <>
+                      <LoadingSpinner size="sm" className="mr-2" />
+                      Signing in...
+                    </>
+                  ) : (
+                    'Sign In'
+                  )}
+                </Button>
+              </form>
+            )}
 
             <div className="mt-6 text-center">
               <Link
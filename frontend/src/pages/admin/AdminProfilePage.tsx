@@ -0,0 +1,395 @@
+import React, { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { ShieldCheck, ShieldOff, KeyRound, Copy, Download, X } from 'lucide-react'
+import { twoFactorApi } from '@/services/api'
+import { TwoFactorSetup } from '@/types/api'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/Loading'
+import { useToast } from '@/components/ui/Toast'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import AdminLayout from '@/components/layout/AdminLayout'
+import { useAuth } from '@/contexts/AuthContext'
+import { ROLE_LABELS } from '@/lib/permissions'
+import { formatRelativeTime, getErrorMessage } from '@/lib/utils'
+
+// Below this many, admins are nudged to print a fresh set
+const LOW_RECOVERY_CODES = 3
+
+const AdminProfilePage: React.FC = () => {
+  const { user } = useAuth()
+  const { addToast } = useToast()
+  const queryClient = useQueryClient()
+
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [action, setAction] = useState<'regenerate' | 'disable' | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+
+  const {
+    data: statusResponse,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['two-factor-status'],
+    queryFn: () => twoFactorApi.getStatus(),
+  })
+
+  const status = statusResponse?.data
+
+  const showError = (title: string) => (error: unknown) => {
+    addToast({
+      type: 'error',
+      title,
+      message: getErrorMessage(error)
+    })
+  }
+
+  const resetForms = () => {
+    setCode('')
+    setPassword('')
+    setAction(null)
+  }
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const result = await twoFactorApi.setup()
+      if (!result.success || !result.data) throw result
+      return result.data
+    },
+    onSuccess: (data) => {
+      setSetup(data)
+      setCode('')
+    },
+    onError: showError('Could not start setup'),
+  })
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const result = await twoFactorApi.enable(code.trim())
+      if (!result.success || !result.data) throw result
+      return result.data
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['two-factor-status'] })
+      setSetup(null)
+      setRecoveryCodes(data.recoveryCodes)
+      resetForms()
+      addToast({ type: 'success', title: 'Two-factor authentication is on', message: 'Save your recovery codes somewhere safe' })
+    },
+    onError: showError('Verification failed'),
+  })
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const result = await twoFactorApi.regenerateRecoveryCodes(code.trim())
+      if (!result.success || !result.data) throw result
+      return result.data
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['two-factor-status'] })
+      setRecoveryCodes(data.recoveryCodes)
+      resetForms()
+      addToast({ type: 'success', title: 'New recovery codes', message: 'Your old recovery codes no longer work' })
+    },
+    onError: showError('Could not generate recovery codes'),
+  })
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const result = await twoFactorApi.disable(password)
+      if (!result.success) throw result
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['two-factor-status'] })
+      setRecoveryCodes(null)
+      resetForms()
+      addToast({ type: 'info', title: 'Two-factor authentication is off' })
+    },
+    onError: showError('Could not turn off two-factor authentication'),
+  })
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (code.trim()) {
+      enableMutation.mutate()
+    }
+  }
+
+  const handleConfirmAction = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (action === 'regenerate' && code.trim()) {
+      regenerateMutation.mutate()
+    } else if (action === 'disable' && password) {
+      disableMutation.mutate()
+    }
+  }
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'))
+      addToast({ type: 'success', title: 'Recovery codes copied' })
+    } catch {
+      addToast({ type: 'error', title: 'Could not copy recovery codes' })
+    }
+  }
+
+  const downloadRecoveryCodes = () => {
+    if (!recoveryCodes) return
+    const blob = new Blob([`Jain Munis admin recovery codes for ${user?.username}\n\n${recoveryCodes.join('\n')}\n`], { type: 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'jainmunis-recovery-codes.txt'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <AdminLayout
+      title="My Account"
+      description="Your admin account and how you sign in"
+    >
+      {/* Recovery Codes */}
+      {recoveryCodes && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 mb-8">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="text-yellow-900 font-medium mb-1">Your recovery codes</h3>
+              <p className="text-sm text-yellow-800 mb-3">
+                Each code signs you in once if you lose your phone. Keep them somewhere safe; they will not be shown again.
+              </p>
+              <div className="grid grid-cols-2 gap-x-8 gap-y-1 mb-3">
+                {recoveryCodes.map((recoveryCode) => (
+                  <code key={recoveryCode} className="text-lg tracking-wider text-gray-900">
+                    {recoveryCode}
+                  </code>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={copyRecoveryCodes} className="flex items-center gap-1">
+                  <Copy className="w-4 h-4" />
+                  Copy
+                </Button>
+                <Button variant="outline" size="sm" onClick={downloadRecoveryCodes} className="flex items-center gap-1">
+                  <Download className="w-4 h-4" />
+                  Download
+                </Button>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => setRecoveryCodes(null)}
+              className="text-yellow-700 hover:text-yellow-900"
+              aria-label="Dismiss"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Account */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Account</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="space-y-3 text-sm">
+              <div>
+                <dt className="text-gray-500">Username</dt>
+                <dd className="text-gray-900 font-medium">{user?.username}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Email</dt>
+                <dd className="text-gray-900">{user?.email}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Role</dt>
+                <dd className="text-gray-900">
+                  {user && (ROLE_LABELS[user.role] || user.role)}
+                  {user?.role === 'city_coordinator' && user.cities?.length > 0 && ` · ${user.cities.join(', ')}`}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Last sign-in</dt>
+                <dd className="text-gray-900">{user?.lastLogin ? formatRelativeTime(user.lastLogin) : 'Never'}</dd>
+              </div>
+            </dl>
+          </CardContent>
+        </Card>
+
+        {/* Two-Factor Authentication */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {status?.enabled ? (
+                <ShieldCheck className="w-5 h-5 text-green-600" />
+              ) : (
+                <ShieldOff className="w-5 h-5 text-gray-400" />
+              )}
+              Two-factor authentication
+              {status && (
+                <span
+                  className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+                    status.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  {status.enabled ? 'On' : 'Off'}
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading && (
+              <div className="flex justify-center py-8">
+                <LoadingSpinner size="lg" />
+              </div>
+            )}
+
+            {error && (
+              <p className="text-red-600">
+                {getErrorMessage(error)}
+              </p>
+            )}
+
+            {status && !status.enabled && !setup && (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Admins can change public contact details, so a password alone is not enough. With two-factor on,
+                  signing in also asks for a 6-digit code from an authenticator app such as Google Authenticator,
+                  Microsoft Authenticator or 1Password.
+                </p>
+                <Button
+                  onClick={() => setupMutation.mutate()}
+                  disabled={setupMutation.isPending}
+                  className="flex items-center gap-2"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  {setupMutation.isPending ? 'Preparing...' : 'Set up two-factor'}
+                </Button>
+              </div>
+            )}
+
+            {status && !status.enabled && setup && (
+              <form onSubmit={handleEnable} className="space-y-6">
+                <div className="flex flex-col sm:flex-row gap-6">
+                  <img
+                    src={setup.qrCodeImage}
+                    alt="QR code for your authenticator app"
+                    className="w-48 h-48 border border-gray-200 rounded-lg"
+                  />
+                  <div className="space-y-3 text-sm text-gray-600">
+                    <p>1. Scan this QR code with your authenticator app.</p>
+                    <p>
+                      Can&apos;t scan it? Enter this key instead:
+                      <code className="block mt-1 px-3 py-1 bg-gray-50 border border-gray-200 rounded text-base tracking-wider text-gray-900">
+                        {setup.sharedKey}
+                      </code>
+                    </p>
+                    <p>2. Enter the 6-digit code the app shows to finish.</p>
+                  </div>
+                </div>
+
+                <div className="max-w-xs">
+                  <Input
+                    label="Verification code"
+                    name="code"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="123456"
+                    required
+                  />
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Button type="submit" disabled={enableMutation.isPending || !code.trim()}>
+                    {enableMutation.isPending ? 'Verifying...' : 'Verify and turn on'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setSetup(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            {status?.enabled && (
+              <div className="space-y-6">
+                <p className="text-sm text-gray-600">
+                  Signing in asks for a code from your authenticator app.
+                  {' '}You have <strong>{status.recoveryCodesLeft}</strong> recovery {status.recoveryCodesLeft === 1 ? 'code' : 'codes'} left.
+                </p>
+
+                {status.recoveryCodesLeft < LOW_RECOVERY_CODES && !recoveryCodes && (
+                  <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+                    You are running low on recovery codes. Generate a new set so you are not locked out if you lose your phone.
+                  </div>
+                )}
+
+                {action ? (
+                  <form onSubmit={handleConfirmAction} className="space-y-4 max-w-xs">
+                    {action === 'regenerate' ? (
+                      <Input
+                        label="Code from your authenticator app"
+                        name="code"
+                        type="text"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        placeholder="123456"
+                        required
+                      />
+                    ) : (
+                      <Input
+                        label="Confirm your password"
+                        name="password"
+                        type="password"
+                        autoComplete="current-password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        required
+                      />
+                    )}
+                    <div className="flex items-center gap-2">
+                      <Button
+                        type="submit"
+                        variant={action === 'disable' ? 'destructive' : 'primary'}
+                        disabled={regenerateMutation.isPending || disableMutation.isPending}
+                      >
+                        {action === 'disable' ? 'Turn off' : 'Generate codes'}
+                      </Button>
+                      <Button type="button" variant="outline" onClick={resetForms}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                ) : (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button variant="outline" onClick={() => setAction('regenerate')} className="flex items-center gap-2">
+                      <KeyRound className="w-4 h-4" />
+                      New recovery codes
+                    </Button>
+                    <Button variant="outline" onClick={() => setAction('disable')} className="flex items-center gap-2 text-red-600">
+                      <ShieldOff className="w-4 h-4" />
+                      Turn off
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  )
+}
+
+export default AdminProfilePage
\ No newline at end of file
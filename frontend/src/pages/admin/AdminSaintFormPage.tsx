@@ -0,0 +1,396 @@
+import React, { useEffect, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { ArrowLeft, Upload, Users } from 'lucide-react'
+import { saintsApi } from '@/services/api'
+import { CreateSaintRequest, UpdateSaintRequest } from '@/types/api'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import { PageLoading } from '@/components/ui/Loading'
+import { useToast } from '@/components/ui/Toast'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import Textarea from '@/components/ui/Textarea'
+import AdminLayout from '@/components/layout/AdminLayout'
+import { isValidEmail, isValidPhone, getErrorMessage } from '@/lib/utils'
+
+interface SaintFormData {
+  name: string
+  title: string
+  spiritualLineage: string
+  bio: string
+  phone: string
+  email: string
+  isActive: boolean
+}
+
+const emptyForm: SaintFormData = {
+  name: '',
+  title: '',
+  spiritualLineage: '',
+  bio: '',
+  phone: '',
+  email: '',
+  isActive: true,
+}
+
+// Mirrors the upload rules enforced by SaintsController.UpdateSaintPhoto
+const ALLOWED_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024
+
+const AdminSaintFormPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>()
+  const isEditing = !!id
+
+  const [formData, setFormData] = useState<SaintFormData>(emptyForm)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [photoFile, setPhotoFile] = useState<File | null>(null)
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const { addToast } = useToast()
+
+  const { data: saintResponse, isLoading } = useQuery({
+    queryKey: ['saint', id],
+    queryFn: () => saintsApi.getById(id!),
+    enabled: isEditing,
+  })
+
+  const saint = saintResponse?.data
+
+  useEffect(() => {
+    if (saint) {
+      setFormData({
+        ...emptyForm,
+        name: saint.name,
+        title: saint.title || '',
+        spiritualLineage: saint.spiritualLineage || '',
+        bio: saint.bio || '',
+        isActive: saint.isActive,
+      })
+    }
+  }, [saint])
+
+  useEffect(() => {
+    // Release the object URL used for the local photo preview
+    return () => {
+      if (photoPreview) {
+        URL.revokeObjectURL(photoPreview)
+      }
+    }
+  }, [photoPreview])
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {}
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Saint name is required'
+    } else if (formData.name.length > 255) {
+      newErrors.name = 'Name must be 255 characters or less'
+    }
+
+    if (formData.title.length > 100) {
+      newErrors.title = 'Title must be 100 characters or less'
+    }
+
+    if (formData.phone.trim()) {
+      if (formData.phone.length > 20) {
+        newErrors.phone = 'Phone must be 20 characters or less'
+      } else if (!isValidPhone(formData.phone.trim())) {
+        newErrors.phone = 'Enter a valid phone number'
+      }
+    }
+
+    if (formData.email.trim()) {
+      if (formData.email.length > 255) {
+        newErrors.email = 'Email must be 255 characters or less'
+      } else if (!isValidEmail(formData.email.trim())) {
+        newErrors.email = 'Enter a valid email address'
+      }
+    }
+
+    if (photoFile) {
+      if (!ALLOWED_PHOTO_TYPES.includes(photoFile.type)) {
+        newErrors.photo = 'Only JPG, JPEG, PNG, and WebP files are allowed'
+      } else if (photoFile.size > MAX_PHOTO_SIZE) {
+        newErrors.photo = 'File size must be less than 5MB'
+      }
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const buildRequest = (): CreateSaintRequest | UpdateSaintRequest => {
+    const request: UpdateSaintRequest = {
+      name: formData.name.trim(),
+      title: formData.title.trim() || undefined,
+      spiritualLineage: formData.spiritualLineage.trim() || undefined,
+      bio: formData.bio.trim() || undefined,
+      // Phone and email are never returned by the API, so blank means "leave unchanged"
+      phone: formData.phone.trim() || undefined,
+      email: formData.email.trim() || undefined,
+    }
+
+    if (isEditing) {
+      request.isActive = formData.isActive
+    }
+
+    return request
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    setIsSaving(true)
+
+    try {
+      const response = isEditing
+        ? await saintsApi.update(id!, buildRequest())
+        : await saintsApi.create(buildRequest() as CreateSaintRequest)
+
+      if (!response.success || !response.data) {
+        throw response
+      }
+
+      const saved = response.data
+
+      // The saint exists by now, so a failed upload must not read as a failed save
+      let photoError: unknown = null
+      if (photoFile) {
+        try {
+          await saintsApi.updatePhoto(saved.id, photoFile)
+        } catch (error) {
+          photoError = error
+        }
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['admin-saints'] })
+      queryClient.invalidateQueries({ queryKey: ['saints'] })
+      queryClient.invalidateQueries({ queryKey: ['saint', saved.id] })
+
+      if (photoError) {
+        addToast({
+          type: 'warning',
+          title: `${saved.name} has been saved without the photo`,
+          message: `${getErrorMessage(photoError)}. Save again to retry the upload.`
+        })
+        // Retrying from the edit page updates this saint instead of creating a second one;
+        // both routes render this component, so the chosen photo is kept
+        if (!isEditing) {
+          navigate(`/admin/saints/${saved.id}/edit`, { replace: true })
+        }
+        return
+      }
+
+      addToast({
+        type: 'success',
+        title: isEditing ? 'Saint updated' : 'Saint created',
+        message: `${saved.name} has been saved`
+      })
+
+      navigate('/admin/saints')
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Save failed',
+        message: getErrorMessage(error)
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target
+    setFormData(prev => ({ ...prev, [name]: value }))
+
+    // Clear error for this field when user starts typing
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: '' }))
+    }
+  }
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null
+    setPhotoFile(file)
+    setPhotoPreview(file ? URL.createObjectURL(file) : null)
+
+    if (errors.photo) {
+      setErrors(prev => ({ ...prev, photo: '' }))
+    }
+  }
+
+  if (isEditing && isLoading) {
+    return <PageLoading message="Loading saint..." />
+  }
+
+  if (isEditing && !isLoading && !saint) {
+    return (
+      <AdminLayout title="Edit Saint">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+          <h3 className="text-red-800 font-medium mb-2">Saint not found</h3>
+          <p className="text-red-600 mb-4">
+            The saint you're trying to edit doesn't exist or has been removed.
+          </p>
+          <Button onClick={() => navigate('/admin/saints')}>
+            Back to Saints
+          </Button>
+        </div>
+      </AdminLayout>
+    )
+  }
+
+  const currentPhoto = photoPreview || saint?.photoUrl
+
+  return (
+    <AdminLayout
+      title={isEditing ? 'Edit Saint' : 'Add New Saint'}
+      description={isEditing ? saint?.name : 'Add a new saint to the system'}
+      actions={
+        <Button variant="outline" onClick={() => navigate('/admin/saints')} className="flex items-center gap-2">
+          <ArrowLeft className="w-4 h-4" />
+          Back to Saints
+        </Button>
+      }
+    >
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Profile Details */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Profile</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <Input
+              label="Name"
+              name="name"
+              value={formData.name}
+              onChange={handleChange}
+              error={errors.name}
+              placeholder="e.g., Vidyasagar Ji"
+              maxLength={255}
+              required
+            />
+
+            <Input
+              label="Title"
+              name="title"
+              value={formData.title}
+              onChange={handleChange}
+              error={errors.title}
+              placeholder="e.g., Acharya, Muni, Pujya"
+              maxLength={100}
+            />
+
+            <Input
+              label="Spiritual Lineage"
+              name="spiritualLineage"
+              value={formData.spiritualLineage}
+              onChange={handleChange}
+              error={errors.spiritualLineage}
+              placeholder="e.g., Digambar, Shwetambar Murtipujak"
+            />
+
+            <Textarea
+              label="Biography"
+              name="bio"
+              value={formData.bio}
+              onChange={handleChange}
+              error={errors.bio}
+              rows={6}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Input
+                label="Phone"
+                name="phone"
+                type="tel"
+                value={formData.phone}
+                onChange={handleChange}
+                error={errors.phone}
+                helperText={isEditing ? 'Leave blank to keep the current number' : 'Only visible to admins'}
+                maxLength={20}
+              />
+
+              <Input
+                label="Email"
+                name="email"
+                type="email"
+                value={formData.email}
+                onChange={handleChange}
+                error={errors.email}
+                helperText={isEditing ? 'Leave blank to keep the current email' : 'Only visible to admins'}
+                maxLength={255}
+              />
+            </div>
+
+            {isEditing && (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData(prev => ({ ...prev, isActive: e.target.checked }))}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Active (shown on the public site)
+              </label>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Photo and Actions */}
+        <div className="space-y-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>Photo</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="w-32 h-32 bg-gray-200 rounded-full flex items-center justify-center mx-auto">
+                {currentPhoto ? (
+                  <img
+                    src={currentPhoto}
+                    alt={formData.name || 'Saint photo'}
+                    className="w-full h-full rounded-full object-cover"
+                  />
+                ) : (
+                  <Users className="w-16 h-16 text-gray-400" />
+                )}
+              </div>
+              <label className="flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 rounded-md text-sm font-medium cursor-pointer hover:bg-gray-50">
+                <Upload className="w-4 h-4" />
+                {photoFile ? photoFile.name : 'Choose photo'}
+                <input
+                  type="file"
+                  accept=".jpg,.jpeg,.png,.webp"
+                  onChange={handlePhotoChange}
+                  className="hidden"
+                />
+              </label>
+              {errors.photo ? (
+                <p className="text-sm text-red-600">{errors.photo}</p>
+              ) : (
+                <p className="text-sm text-gray-500">JPG, PNG or WebP, up to 5MB</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="flex flex-col gap-2">
+            <Button type="submit" loading={isSaving}>
+              {isEditing ? 'Save Changes' : 'Create Saint'}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => navigate('/admin/saints')}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </form>
+    </AdminLayout>
+  )
+}
+
+export default AdminSaintFormPage
\ No newline at end of file
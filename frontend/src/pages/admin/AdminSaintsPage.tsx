@@ -0,0 +1,271 @@
+import React, { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Search, Plus, Pencil, Trash2, Users } from 'lucide-react'
+import { saintsApi } from '@/services/api'
+import { Saint } from '@/types/api'
+import { Card, CardContent } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/Loading'
+import { useToast } from '@/components/ui/Toast'
+import Button from '@/components/ui/Button'
+import AdminLayout from '@/components/layout/AdminLayout'
+import { usePermissions } from '@/hooks/usePermission'
+import { formatDate, getErrorMessage } from '@/lib/utils'
+
+type StatusFilter = 'all' | 'active' | 'inactive'
+
+const AdminSaintsPage: React.FC = () => {
+  const [searchInput, setSearchInput] = useState('')
+  const [searchQuery, setSearchQuery] = useState('')
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [currentPage, setCurrentPage] = useState(1)
+
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const { addToast } = useToast()
+  const can = usePermissions()
+
+  const {
+    data: response,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['admin-saints', currentPage, searchQuery, statusFilter],
+    queryFn: () => saintsApi.getAll({
+      page: currentPage,
+      limit: 20,
+      search: searchQuery || undefined,
+      isActive: statusFilter === 'all' ? undefined : statusFilter === 'active',
+      includeInactive: statusFilter === 'all',
+    }),
+  })
+
+  const saints = response?.data || []
+  const pagination = response?.pagination
+
+  const deleteMutation = useMutation({
+    mutationFn: (saint: Saint) => saintsApi.delete(saint.id),
+    onSuccess: (_, saint) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-saints'] })
+      queryClient.invalidateQueries({ queryKey: ['saints'] })
+      addToast({
+        type: 'success',
+        title: 'Saint deleted',
+        message: `${saint.name} has been removed`
+      })
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Delete failed',
+        message: getErrorMessage(error)
+      })
+    },
+  })
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setSearchQuery(searchInput.trim())
+    setCurrentPage(1)
+  }
+
+  const handleDelete = (saint: Saint) => {
+    if (window.confirm(`Delete ${saint.name}? Their schedules will no longer be shown.`)) {
+      deleteMutation.mutate(saint)
+    }
+  }
+
+  return (
+    <AdminLayout
+      title="Saints"
+      description="Create, update and retire saint profiles"
+      actions={can('saint:create') && (
+        <Button onClick={() => navigate('/admin/saints/new')} className="flex items-center gap-2">
+          <Plus className="w-4 h-4" />
+          Add Saint
+        </Button>
+      )}
+    >
+      {/* Search and Filters */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6 mb-8">
+        <form onSubmit={handleSearch} className="flex flex-col md:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search by name, title, or spiritual lineage..."
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value as StatusFilter)
+              setCurrentPage(1)
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            <option value="all">All saints</option>
+            <option value="active">Active only</option>
+            <option value="inactive">Inactive only</option>
+          </select>
+          <Button type="submit" className="flex-shrink-0">
+            Search
+          </Button>
+        </form>
+      </div>
+
+      {/* Loading State */}
+      {isLoading && (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-8">
+          <h3 className="text-red-800 font-medium mb-2">Unable to load saints</h3>
+          <p className="text-red-600">
+            {getErrorMessage(error)}
+          </p>
+        </div>
+      )}
+
+      {/* Saints Table */}
+      {!isLoading && !error && saints.length > 0 && (
+        <>
+          <Card className="mb-8 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Saint</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Current Location</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Updated</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {saints.map((saint: Saint) => (
+                  <tr key={saint.id}>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center space-x-3">
+                        <div className="w-10 h-10 bg-gray-200 rounded-full flex items-center justify-center flex-shrink-0">
+                          {saint.photoUrl ? (
+                            <img
+                              src={saint.photoUrl}
+                              alt={saint.name}
+                              className="w-full h-full rounded-full object-cover"
+                            />
+                          ) : (
+                            <Users className="w-5 h-5 text-gray-400" />
+                          )}
+                        </div>
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">{saint.name}</p>
+                          {saint.title && (
+                            <p className="text-xs text-primary-600">{saint.title}</p>
+                          )}
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {saint.currentSchedule?.location
+                        ? `${saint.currentSchedule.location.name}, ${saint.currentSchedule.location.city}`
+                        : '—'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs font-medium ${
+                          saint.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                        }`}
+                      >
+                        {saint.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">{formatDate(saint.updatedAt)}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-end gap-2">
+                        {can('saint:edit') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => navigate(`/admin/saints/${saint.id}/edit`)}
+                          >
+                            <Pencil className="w-4 h-4 mr-1" />
+                            Edit
+                          </Button>
+                        )}
+                        {can('saint:delete') && (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => handleDelete(saint)}
+                            loading={deleteMutation.isPending && deleteMutation.variables?.id === saint.id}
+                          >
+                            <Trash2 className="w-4 h-4 mr-1" />
+                            Delete
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Card>
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex justify-center">
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+                  disabled={currentPage === 1}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-600">
+                  Page {currentPage} of {pagination.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  onClick={() => setCurrentPage(prev => Math.min(pagination.totalPages, prev + 1))}
+                  disabled={currentPage === pagination.totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Empty State */}
+      {!isLoading && !error && saints.length === 0 && (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Users className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No saints found</h3>
+            <p className="text-gray-600 mb-4">
+              {searchQuery || statusFilter !== 'all'
+                ? 'Try adjusting your search or filters'
+                : 'Add the first saint to get started'}
+            </p>
+            {can('saint:create') && (
+              <Button onClick={() => navigate('/admin/saints/new')}>
+                Add Saint
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </AdminLayout>
+  )
+}
+
+export default AdminSaintsPage
\ No newline at end of file
@@ -0,0 +1,494 @@
+import React, { useEffect, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { ArrowLeft, AlertTriangle, CheckCircle } from 'lucide-react'
+import { locationsApi, saintsApi, schedulesApi } from '@/services/api'
+import { CreateScheduleRequest } from '@/types/api'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner, PageLoading } from '@/components/ui/Loading'
+import { useToast } from '@/components/ui/Toast'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import Select from '@/components/ui/Select'
+import Textarea from '@/components/ui/Textarea'
+import AdminLayout from '@/components/layout/AdminLayout'
+import { usePermissions } from '@/hooks/usePermission'
+import { useRemoteOptions } from '@/hooks/useRemoteOptions'
+import { formatDateRange, isValidPhone, getErrorMessage } from '@/lib/utils'
+
+interface ScheduleFormData {
+  saintId: string
+  locationId: string
+  startDate: string
+  endDate: string
+  purpose: string
+  notes: string
+  contactPerson: string
+  contactPhone: string
+}
+
+const emptyForm: ScheduleFormData = {
+  saintId: '',
+  locationId: '',
+  startDate: '',
+  endDate: '',
+  purpose: '',
+  notes: '',
+  contactPerson: '',
+  contactPhone: '',
+}
+
+const PURPOSE_SUGGESTIONS = ['Pravachan', 'Chaturmas', 'Visit', 'Vihar', 'Diksha Ceremony']
+
+const AdminScheduleFormPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>()
+  const isEditing = !!id
+
+  const [formData, setFormData] = useState<ScheduleFormData>(emptyForm)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [overrideConflicts, setOverrideConflicts] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const { addToast } = useToast()
+  const can = usePermissions()
+
+  const { data: scheduleResponse, isLoading } = useQuery({
+    queryKey: ['schedule', id],
+    queryFn: () => schedulesApi.getById(id!),
+    enabled: isEditing,
+  })
+
+  const saints = useRemoteOptions({
+    queryKey: 'admin-saint-options',
+    fetchPage: saintsApi.getAll,
+    fetchById: saintsApi.getById,
+    value: formData.saintId,
+  })
+
+  const locations = useRemoteOptions({
+    queryKey: 'admin-location-options',
+    fetchPage: locationsApi.getAll,
+    fetchById: locationsApi.getById,
+    value: formData.locationId,
+  })
+
+  const schedule = scheduleResponse?.data
+  const saintOptions = saints.selected ? [saints.selected, ...saints.results] : saints.results
+  // City coordinators only get to place stays in the cities they manage
+  const locationOptions = [
+    ...(locations.selected ? [locations.selected] : []),
+    ...locations.results.filter((location) => can(`schedule:${isEditing ? 'edit' : 'create'}:${location.city}`)),
+  ]
+
+  useEffect(() => {
+    if (schedule) {
+      setFormData({
+        saintId: schedule.saintId,
+        locationId: schedule.locationId,
+        startDate: schedule.startDate.substring(0, 10),
+        endDate: schedule.endDate.substring(0, 10),
+        purpose: schedule.purpose || '',
+        notes: schedule.notes || '',
+        contactPerson: schedule.contactPerson || '',
+        contactPhone: schedule.contactPhone || '',
+      })
+    }
+  }, [schedule])
+
+  // Live overlap check while the admin picks a saint and date range
+  const canCheckConflicts = !!formData.saintId &&
+    !!formData.startDate &&
+    !!formData.endDate &&
+    formData.startDate <= formData.endDate
+
+  const {
+    data: conflictsResponse,
+    isFetching: isCheckingConflicts,
+  } = useQuery({
+    queryKey: ['schedule-conflicts', formData.saintId, formData.startDate, formData.endDate, id],
+    queryFn: () => schedulesApi.checkConflicts({
+      saintId: formData.saintId,
+      startDate: formData.startDate,
+      endDate: formData.endDate,
+      excludeScheduleId: id,
+    }),
+    enabled: canCheckConflicts,
+  })
+
+  const conflicts = canCheckConflicts ? conflictsResponse?.data || [] : []
+  const conflictKey = conflicts.map(conflict => conflict.id).join(',')
+
+  useEffect(() => {
+    // A different set of conflicts needs a fresh decision from the admin
+    setOverrideConflicts(false)
+  }, [conflictKey])
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {}
+
+    if (!formData.saintId) {
+      newErrors.saintId = 'Saint is required'
+    }
+
+    if (!formData.locationId) {
+      newErrors.locationId = 'Location is required'
+    }
+
+    if (!formData.startDate) {
+      newErrors.startDate = 'Start date is required'
+    }
+
+    if (!formData.endDate) {
+      newErrors.endDate = 'End date is required'
+    } else if (formData.startDate && formData.endDate < formData.startDate) {
+      newErrors.endDate = 'End date must be after start date'
+    }
+
+    if (formData.contactPerson.length > 255) {
+      newErrors.contactPerson = 'Contact person must be 255 characters or less'
+    }
+
+    if (formData.contactPhone.trim()) {
+      if (formData.contactPhone.length > 20) {
+        newErrors.contactPhone = 'Phone must be 20 characters or less'
+      } else if (!isValidPhone(formData.contactPhone.trim())) {
+        newErrors.contactPhone = 'Enter a valid phone number'
+      }
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    if (conflicts.length > 0 && !overrideConflicts) {
+      addToast({
+        type: 'warning',
+        title: 'Schedule conflict',
+        message: 'Resolve the overlapping schedules or confirm the override before saving'
+      })
+      return
+    }
+
+    setIsSaving(true)
+
+    const request: CreateScheduleRequest = {
+      saintId: formData.saintId,
+      locationId: formData.locationId,
+      startDate: formData.startDate,
+      endDate: formData.endDate,
+      purpose: formData.purpose.trim() || undefined,
+      notes: formData.notes.trim() || undefined,
+      contactPerson: formData.contactPerson.trim() || undefined,
+      contactPhone: formData.contactPhone.trim() || undefined,
+      allowOverlap: conflicts.length > 0 && overrideConflicts,
+    }
+
+    try {
+      const response = isEditing
+        ? await schedulesApi.update(id!, request)
+        : await schedulesApi.create(request)
+
+      if (!response.success || !response.data) {
+        throw response
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['admin-schedules'] })
+      queryClient.invalidateQueries({ queryKey: ['schedule', response.data.id] })
+      queryClient.invalidateQueries({ queryKey: ['schedule-conflicts'] })
+
+      addToast({
+        type: 'success',
+        title: isEditing ? 'Schedule updated' : 'Schedule created'
+      })
+
+      navigate('/admin/schedules')
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Save failed',
+        message: getErrorMessage(error)
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target
+    setFormData(prev => ({ ...prev, [name]: value }))
+
+    // Clear error for this field when user starts typing
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: '' }))
+    }
+  }
+
+  if (isEditing && isLoading) {
+    return <PageLoading message="Loading schedule..." />
+  }
+
+  if (isEditing && !isLoading && !schedule) {
+    return (
+      <AdminLayout title="Edit Schedule">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+          <h3 className="text-red-800 font-medium mb-2">Schedule not found</h3>
+          <p className="text-red-600 mb-4">
+            The schedule you're trying to edit doesn't exist or has been removed.
+          </p>
+          <Button onClick={() => navigate('/admin/schedules')}>
+            Back to Schedules
+          </Button>
+        </div>
+      </AdminLayout>
+    )
+  }
+
+  if (isEditing && schedule && !can(`schedule:edit:${schedule.location?.city}`)) {
+    return (
+      <AdminLayout title="Edit Schedule">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+          <h3 className="text-red-800 font-medium mb-2">Access denied</h3>
+          <p className="text-red-600 mb-4">
+            You can only edit schedules in your own cities, and this stay is in {schedule.location?.city || 'another city'}.
+          </p>
+          <Button onClick={() => navigate('/admin/schedules')}>
+            Back to Schedules
+          </Button>
+        </div>
+      </AdminLayout>
+    )
+  }
+
+  return (
+    <AdminLayout
+      title={isEditing ? 'Edit Schedule' : 'Add Schedule'}
+      description={isEditing ? schedule?.saint?.name : 'Create a new saint schedule'}
+      actions={
+        <Button variant="outline" onClick={() => navigate('/admin/schedules')} className="flex items-center gap-2">
+          <ArrowLeft className="w-4 h-4" />
+          Back to Schedules
+        </Button>
+      }
+    >
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Schedule Details */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Stay Details</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Input
+                label="Saint"
+                value={saints.search}
+                onChange={(e) => saints.setSearch(e.target.value)}
+                placeholder="Type a name to search saints"
+              />
+              <Select
+                aria-label="Saint"
+                name="saintId"
+                value={formData.saintId}
+                onChange={handleChange}
+                error={errors.saintId}
+                helperText={saints.hasMore ? 'Showing the first matches; type to narrow the list' : undefined}
+                required
+              >
+                <option value="">Select a saint</option>
+                {saintOptions.map((saint) => (
+                  <option key={saint.id} value={saint.id}>
+                    {saint.title ? `${saint.title} ` : ''}{saint.name}
+                  </option>
+                ))}
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Input
+                label="Location"
+                value={locations.search}
+                onChange={(e) => locations.setSearch(e.target.value)}
+                placeholder="Type a name or city to search locations"
+              />
+              <Select
+                aria-label="Location"
+                name="locationId"
+                value={formData.locationId}
+                onChange={handleChange}
+                error={errors.locationId}
+                helperText={locations.hasMore ? 'Showing the first matches; type to narrow the list' : undefined}
+                required
+              >
+                <option value="">Select a location</option>
+                {locationOptions.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}, {location.city}
+                  </option>
+                ))}
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Input
+                label="Start Date"
+                name="startDate"
+                type="date"
+                value={formData.startDate}
+                onChange={handleChange}
+                error={errors.startDate}
+                required
+              />
+
+              <Input
+                label="End Date"
+                name="endDate"
+                type="date"
+                value={formData.endDate}
+                onChange={handleChange}
+                error={errors.endDate}
+                min={formData.startDate || undefined}
+                required
+              />
+            </div>
+
+            <Input
+              label="Purpose"
+              name="purpose"
+              value={formData.purpose}
+              onChange={handleChange}
+              list="schedule-purpose-suggestions"
+              placeholder="e.g., Pravachan, Chaturmas, Visit"
+            />
+            <datalist id="schedule-purpose-suggestions">
+              {PURPOSE_SUGGESTIONS.map((purpose) => (
+                <option key={purpose} value={purpose} />
+              ))}
+            </datalist>
+
+            <Textarea
+              label="Notes for Devotees"
+              name="notes"
+              value={formData.notes}
+              onChange={handleChange}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Input
+                label="Contact Person"
+                name="contactPerson"
+                value={formData.contactPerson}
+                onChange={handleChange}
+                error={errors.contactPerson}
+                maxLength={255}
+              />
+
+              <Input
+                label="Contact Phone"
+                name="contactPhone"
+                type="tel"
+                value={formData.contactPhone}
+                onChange={handleChange}
+                error={errors.contactPhone}
+                maxLength={20}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Conflicts and Actions */}
+        <div className="space-y-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>Conflict Check</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!canCheckConflicts && (
+                <p className="text-sm text-gray-500">
+                  Pick a saint and a valid date range to check for overlapping stays.
+                </p>
+              )}
+
+              {canCheckConflicts && isCheckingConflicts && (
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <LoadingSpinner size="sm" />
+                  Checking for overlapping schedules...
+                </div>
+              )}
+
+              {canCheckConflicts && !isCheckingConflicts && conflicts.length === 0 && (
+                <div className="flex items-center gap-2 text-sm text-green-700">
+                  <CheckCircle className="w-4 h-4" />
+                  No overlapping schedules
+                </div>
+              )}
+
+              {canCheckConflicts && !isCheckingConflicts && conflicts.length > 0 && (
+                <div className="space-y-4">
+                  <div className="flex items-center gap-2 text-sm font-medium text-orange-800">
+                    <AlertTriangle className="w-4 h-4" />
+                    {conflicts.length === 1
+                      ? 'Overlaps with 1 existing schedule'
+                      : `Overlaps with ${conflicts.length} existing schedules`}
+                  </div>
+                  <div className="space-y-2">
+                    {conflicts.map((conflict) => (
+                      <div key={conflict.id} className="p-3 bg-orange-50 border border-orange-200 rounded-lg">
+                        <p className="text-sm font-medium text-orange-900">
+                          {conflict.location?.name}
+                          {conflict.location?.city && `, ${conflict.location.city}`}
+                        </p>
+                        <p className="text-xs text-orange-700">
+                          {formatDateRange(conflict.startDate, conflict.endDate)}
+                          {conflict.purpose && ` • ${conflict.purpose}`}
+                        </p>
+                        <button
+                          type="button"
+                          onClick={() => navigate(`/admin/schedules/${conflict.id}/edit`)}
+                          className="text-xs text-primary-600 hover:text-primary-500 mt-1"
+                        >
+                          Open this schedule
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <label className="flex items-start gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={overrideConflicts}
+                      onChange={(e) => setOverrideConflicts(e.target.checked)}
+                      className="mt-0.5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    Save anyway — I have confirmed these stays really overlap
+                  </label>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="flex flex-col gap-2">
+            <Button
+              type="submit"
+              loading={isSaving}
+              disabled={conflicts.length > 0 && !overrideConflicts}
+            >
+              {isEditing ? 'Save Changes' : 'Create Schedule'}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => navigate('/admin/schedules')}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </form>
+    </AdminLayout>
+  )
+}
+
+export default AdminScheduleFormPage
\ No newline at end of file
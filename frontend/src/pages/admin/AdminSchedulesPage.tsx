@@ -0,0 +1,278 @@
+import React, { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Search, Plus, Pencil, Trash2, Calendar } from 'lucide-react'
+import { saintsApi, schedulesApi } from '@/services/api'
+import { Schedule } from '@/types/api'
+import { Card, CardContent } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/Loading'
+import { useToast } from '@/components/ui/Toast'
+import Button from '@/components/ui/Button'
+import AdminLayout from '@/components/layout/AdminLayout'
+import { usePermissions } from '@/hooks/usePermission'
+import { formatDateRange, getErrorMessage } from '@/lib/utils'
+
+const AdminSchedulesPage: React.FC = () => {
+  const [cityInput, setCityInput] = useState('')
+  const [cityFilter, setCityFilter] = useState('')
+  const [saintFilter, setSaintFilter] = useState('')
+  const [currentPage, setCurrentPage] = useState(1)
+
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const { addToast } = useToast()
+  const can = usePermissions()
+
+  const {
+    data: response,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['admin-schedules', currentPage, cityFilter, saintFilter],
+    queryFn: () => schedulesApi.getAll({
+      page: currentPage,
+      limit: 20,
+      city: cityFilter || undefined,
+      saintId: saintFilter || undefined,
+    }),
+  })
+
+  const { data: saintsResponse } = useQuery({
+    queryKey: ['admin-saint-options'],
+    queryFn: () => saintsApi.getAll({ limit: 100 }),
+  })
+
+  const schedules = response?.data || []
+  const pagination = response?.pagination
+  const saintOptions = saintsResponse?.data || []
+
+  const deleteMutation = useMutation({
+    mutationFn: (schedule: Schedule) => schedulesApi.delete(schedule.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-schedules'] })
+      addToast({
+        type: 'success',
+        title: 'Schedule deleted'
+      })
+    },
+    onError: (error) => {
+      addToast({
+        type: 'error',
+        title: 'Delete failed',
+        message: getErrorMessage(error)
+      })
+    },
+  })
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setCityFilter(cityInput.trim())
+    setCurrentPage(1)
+  }
+
+  const handleDelete = (schedule: Schedule) => {
+    const label = schedule.saint?.name ? `${schedule.saint.name}'s stay` : 'this schedule'
+    if (window.confirm(`Delete ${label} at ${schedule.location?.name || 'this location'}?`)) {
+      deleteMutation.mutate(schedule)
+    }
+  }
+
+  const getStatus = (schedule: Schedule) => {
+    if (schedule.isCurrent) return { label: 'Current', className: 'bg-green-100 text-green-800' }
+    if (schedule.isUpcoming) return { label: 'Upcoming', className: 'bg-yellow-100 text-yellow-800' }
+    return { label: 'Past', className: 'bg-gray-100 text-gray-600' }
+  }
+
+  return (
+    <AdminLayout
+      title="Schedules"
+      description="Plan where each saint is staying and when"
+      actions={can('schedule:create') && (
+        <Button onClick={() => navigate('/admin/schedules/new')} className="flex items-center gap-2">
+          <Plus className="w-4 h-4" />
+          Add Schedule
+        </Button>
+      )}
+    >
+      {/* Search and Filters */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6 mb-8">
+        <form onSubmit={handleSearch} className="flex flex-col md:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              value={cityInput}
+              onChange={(e) => setCityInput(e.target.value)}
+              placeholder="Filter by city..."
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+          <select
+            value={saintFilter}
+            onChange={(e) => {
+              setSaintFilter(e.target.value)
+              setCurrentPage(1)
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            <option value="">All saints</option>
+            {saintOptions.map((saint) => (
+              <option key={saint.id} value={saint.id}>
+                {saint.title ? `${saint.title} ` : ''}{saint.name}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" className="flex-shrink-0">
+            Search
+          </Button>
+        </form>
+      </div>
+
+      {/* Loading State */}
+      {isLoading && (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-8">
+          <h3 className="text-red-800 font-medium mb-2">Unable to load schedules</h3>
+          <p className="text-red-600">
+            {getErrorMessage(error)}
+          </p>
+        </div>
+      )}
+
+      {/* Schedules Table */}
+      {!isLoading && !error && schedules.length > 0 && (
+        <>
+          <Card className="mb-8 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Saint</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dates</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {schedules.map((schedule: Schedule) => {
+                  const status = getStatus(schedule)
+                  return (
+                    <tr key={schedule.id}>
+                      <td className="px-6 py-4">
+                        <p className="text-sm font-medium text-gray-900">{schedule.saint?.name}</p>
+                        {schedule.purpose && (
+                          <p className="text-xs text-gray-500">{schedule.purpose}</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <p className="text-sm text-gray-900">{schedule.location?.name}</p>
+                        <p className="text-xs text-gray-500">{schedule.location?.city}</p>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {formatDateRange(schedule.startDate, schedule.endDate)}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {schedule.contactPerson || schedule.contactPhone ? (
+                          <>
+                            <p>{schedule.contactPerson}</p>
+                            <p className="text-xs text-gray-500">{schedule.contactPhone}</p>
+                          </>
+                        ) : (
+                          <span className="text-orange-600">Missing</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                          {status.label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex justify-end gap-2">
+                          {can(`schedule:edit:${schedule.location?.city}`) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => navigate(`/admin/schedules/${schedule.id}/edit`)}
+                            >
+                              <Pencil className="w-4 h-4 mr-1" />
+                              Edit
+                            </Button>
+                          )}
+                          {can(`schedule:delete:${schedule.location?.city}`) && (
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => handleDelete(schedule)}
+                              loading={deleteMutation.isPending && deleteMutation.variables?.id === schedule.id}
+                            >
+                              <Trash2 className="w-4 h-4 mr-1" />
+                              Delete
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </Card>
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex justify-center">
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+                  disabled={currentPage === 1}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-600">
+                  Page {currentPage} of {pagination.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  onClick={() => setCurrentPage(prev => Math.min(pagination.totalPages, prev + 1))}
+                  disabled={currentPage === pagination.totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Empty State */}
+      {!isLoading && !error && schedules.length === 0 && (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Calendar className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No schedules found</h3>
+            <p className="text-gray-600 mb-4">
+              {cityFilter || saintFilter
+                ? 'Try adjusting your filters'
+                : 'Add the first schedule to get started'}
+            </p>
+            {can('schedule:create') && (
+              <Button onClick={() => navigate('/admin/schedules/new')}>
+                Add Schedule
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </AdminLayout>
+  )
+}
+
+export default AdminSchedulesPage
\ No newline at end of file
@@ -0,0 +1,559 @@
+import React, { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Search, UserPlus, UserCog, KeyRound, Pencil, Copy, X, ShieldCheck, ShieldOff } from 'lucide-react'
+import { usersApi } from '@/services/api'
+import { AdminRole, UpdateUserRequest, User, UserCredentials } from '@/types/api'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/Loading'
+import { useToast } from '@/components/ui/Toast'
+import Button from '@/components/ui/Button'
+import Input from '@/components/ui/Input'
+import Select from '@/components/ui/Select'
+import AdminLayout from '@/components/layout/AdminLayout'
+import CityScopeInput from '@/components/admin/CityScopeInput'
+import { useAuth } from '@/contexts/AuthContext'
+import { ROLE_LABELS } from '@/lib/permissions'
+import { formatRelativeTime, isValidEmail, getErrorMessage } from '@/lib/utils'
+
+type StatusFilter = 'all' | 'active' | 'inactive'
+
+interface RoleForm {
+  role: AdminRole
+  cities: string[]
+}
+
+// 'admin' is only kept for older accounts, so it is not offered for new assignments
+const ASSIGNABLE_ROLES: AdminRole[] = ['super_admin', 'editor', 'city_coordinator', 'view_only']
+
+const ROLE_BADGES: Record<AdminRole, string> = {
+  super_admin: 'bg-purple-100 text-purple-800',
+  editor: 'bg-blue-100 text-blue-800',
+  admin: 'bg-blue-100 text-blue-800',
+  city_coordinator: 'bg-green-100 text-green-800',
+  view_only: 'bg-gray-100 text-gray-700',
+}
+
+const emptyInvite = {
+  username: '',
+  email: '',
+  role: 'editor' as AdminRole,
+  cities: [] as string[],
+}
+
+const AdminUsersPage: React.FC = () => {
+  const [searchInput, setSearchInput] = useState('')
+  const [searchQuery, setSearchQuery] = useState('')
+  const [roleFilter, setRoleFilter] = useState<AdminRole | ''>('')
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [currentPage, setCurrentPage] = useState(1)
+
+  const [isInviting, setIsInviting] = useState(false)
+  const [inviteForm, setInviteForm] = useState(emptyInvite)
+  const [inviteErrors, setInviteErrors] = useState<Record<string, string>>({})
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editForm, setEditForm] = useState<RoleForm>({ role: 'editor', cities: [] })
+  const [credentials, setCredentials] = useState<UserCredentials | null>(null)
+
+  const queryClient = useQueryClient()
+  const { addToast } = useToast()
+  const { user: currentUser } = useAuth()
+
+  const {
+    data: response,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['admin-users', currentPage, searchQuery, roleFilter, statusFilter],
+    queryFn: () => usersApi.getAll({
+      page: currentPage,
+      limit: 20,
+      search: searchQuery || undefined,
+      role: roleFilter || undefined,
+      isActive: statusFilter === 'all' ? undefined : statusFilter === 'active',
+    }),
+  })
+
+  const users = response?.data || []
+  const pagination = response?.pagination
+
+  const showError = (title: string) => (error: unknown) => {
+    addToast({
+      type: 'error',
+      title,
+      message: getErrorMessage(error)
+    })
+  }
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const result = await usersApi.invite({
+        username: inviteForm.username.trim(),
+        email: inviteForm.email.trim(),
+        role: inviteForm.role,
+        cities: inviteForm.role === 'city_coordinator' ? inviteForm.cities : undefined,
+      })
+      if (!result.success || !result.data) throw result
+      return result.data
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-users'] })
+      setCredentials(data)
+      setInviteForm(emptyInvite)
+      setIsInviting(false)
+      addToast({ type: 'success', title: 'User invited', message: `${data.user.username} can now sign in` })
+    },
+    onError: showError('Invite failed'),
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ user, changes }: { user: User; changes: UpdateUserRequest; successTitle: string }) => {
+      const result = await usersApi.update(user.id, changes)
+      if (!result.success || !result.data) throw result
+      return result.data
+    },
+    onSuccess: (updated, { successTitle }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-users'] })
+      setEditingId(null)
+      addToast({ type: 'success', title: successTitle, message: updated.username })
+    },
+    onError: showError('Update failed'),
+  })
+
+  const resetMutation = useMutation({
+    mutationFn: async (user: User) => {
+      const result = await usersApi.resetPassword(user.id)
+      if (!result.success || !result.data) throw result
+      return result.data
+    },
+    onSuccess: (data) => {
+      setCredentials(data)
+      addToast({ type: 'success', title: 'Password reset', message: `${data.user.username} has been signed out everywhere` })
+    },
+    onError: showError('Password reset failed'),
+  })
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (user: User) => {
+      const result = await usersApi.resetTwoFactor(user.id)
+      if (!result.success || !result.data) throw result
+      return result.data
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-users'] })
+      addToast({ type: 'success', title: 'Two-factor reset', message: `${updated.username} can sign in with just their password and set it up again` })
+    },
+    onError: showError('Two-factor reset failed'),
+  })
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setSearchQuery(searchInput.trim())
+    setCurrentPage(1)
+  }
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const newErrors: Record<string, string> = {}
+    if (inviteForm.username.trim().length < 3) {
+      newErrors.username = 'Username must be at least 3 characters'
+    }
+    if (!isValidEmail(inviteForm.email.trim())) {
+      newErrors.email = 'Enter a valid email address'
+    }
+    if (inviteForm.role === 'city_coordinator' && inviteForm.cities.length === 0) {
+      newErrors.cities = 'Pick at least one city'
+    }
+
+    setInviteErrors(newErrors)
+    if (Object.keys(newErrors).length === 0) {
+      inviteMutation.mutate()
+    }
+  }
+
+  const startEditing = (user: User) => {
+    setEditingId(user.id)
+    setEditForm({ role: user.role, cities: user.cities || [] })
+  }
+
+  const saveRole = (user: User) => {
+    if (editForm.role === 'city_coordinator' && editForm.cities.length === 0) {
+      addToast({ type: 'warning', title: 'Pick at least one city', message: 'City coordinators can only work within their cities' })
+      return
+    }
+    updateMutation.mutate({
+      user,
+      changes: { role: editForm.role, cities: editForm.role === 'city_coordinator' ? editForm.cities : [] },
+      successTitle: 'Role updated',
+    })
+  }
+
+  const toggleActive = (user: User) => {
+    if (user.isActive && !window.confirm(`Deactivate ${user.username}? They will be signed out and unable to sign in.`)) {
+      return
+    }
+    updateMutation.mutate({
+      user,
+      changes: { isActive: !user.isActive },
+      successTitle: user.isActive ? 'User deactivated' : 'User reactivated',
+    })
+  }
+
+  const handleReset = (user: User) => {
+    if (window.confirm(`Reset the password for ${user.username}? Their current password will stop working.`)) {
+      resetMutation.mutate(user)
+    }
+  }
+
+  // For admins who lost their phone and their recovery codes
+  const handleResetTwoFactor = (user: User) => {
+    if (window.confirm(`Turn off two-factor authentication for ${user.username}? Their authenticator app and recovery codes will stop working.`)) {
+      resetTwoFactorMutation.mutate(user)
+    }
+  }
+
+  const copyPassword = async () => {
+    if (!credentials) return
+    try {
+      await navigator.clipboard.writeText(credentials.temporaryPassword)
+      addToast({ type: 'success', title: 'Password copied' })
+    } catch {
+      addToast({ type: 'error', title: 'Could not copy password', message: credentials.temporaryPassword })
+    }
+  }
+
+  return (
+    <AdminLayout
+      title="Admin Users"
+      description="Invite admins, assign roles and cities, and control who can sign in"
+      actions={
+        <Button onClick={() => setIsInviting(!isInviting)} className="flex items-center gap-2">
+          <UserPlus className="w-4 h-4" />
+          Invite User
+        </Button>
+      }
+    >
+      {/* Temporary Password */}
+      {credentials && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 mb-8">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="text-yellow-900 font-medium mb-1">
+                Temporary password for {credentials.user.username}
+              </h3>
+              <p className="text-sm text-yellow-800 mb-3">
+                {credentials.emailSent
+                  ? `It has also been emailed to ${credentials.user.email}.`
+                  : `The email to ${credentials.user.email} could not be sent, so share this password with them yourself.`}
+                {' '}It will not be shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="px-3 py-1 bg-white border border-yellow-200 rounded text-lg tracking-wider">
+                  {credentials.temporaryPassword}
+                </code>
+                <Button variant="outline" size="sm" onClick={copyPassword} className="flex items-center gap-1">
+                  <Copy className="w-4 h-4" />
+                  Copy
+                </Button>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => setCredentials(null)}
+              className="text-yellow-700 hover:text-yellow-900"
+              aria-label="Dismiss"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Invite Form */}
+      {isInviting && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Invite a new admin</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleInvite} className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Input
+                label="Username"
+                value={inviteForm.username}
+                onChange={(e) => setInviteForm(prev => ({ ...prev, username: e.target.value }))}
+                error={inviteErrors.username}
+                required
+              />
+              <Input
+                label="Email"
+                type="email"
+                value={inviteForm.email}
+                onChange={(e) => setInviteForm(prev => ({ ...prev, email: e.target.value }))}
+                error={inviteErrors.email}
+                required
+              />
+              <Select
+                label="Role"
+                value={inviteForm.role}
+                onChange={(e) => setInviteForm(prev => ({ ...prev, role: e.target.value as AdminRole }))}
+              >
+                {ASSIGNABLE_ROLES.map((role) => (
+                  <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                ))}
+              </Select>
+              {inviteForm.role === 'city_coordinator' && (
+                <CityScopeInput
+                  cities={inviteForm.cities}
+                  onChange={(cities) => setInviteForm(prev => ({ ...prev, cities }))}
+                  error={inviteErrors.cities}
+                />
+              )}
+              <div className="md:col-span-2 flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsInviting(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" loading={inviteMutation.isPending}>
+                  Send Invite
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Search and Filters */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6 mb-8">
+        <form onSubmit={handleSearch} className="flex flex-col md:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search by username or email..."
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+          <select
+            value={roleFilter}
+            onChange={(e) => {
+              setRoleFilter(e.target.value as AdminRole | '')
+              setCurrentPage(1)
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            <option value="">All roles</option>
+            {ASSIGNABLE_ROLES.map((role) => (
+              <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value as StatusFilter)
+              setCurrentPage(1)
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            <option value="all">All users</option>
+            <option value="active">Active only</option>
+            <option value="inactive">Deactivated only</option>
+          </select>
+          <Button type="submit" className="flex-shrink-0">
+            Search
+          </Button>
+        </form>
+      </div>
+
+      {/* Loading State */}
+      {isLoading && (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-8">
+          <h3 className="text-red-800 font-medium mb-2">Unable to load users</h3>
+          <p className="text-red-600">
+            {getErrorMessage(error)}
+          </p>
+        </div>
+      )}
+
+      {/* Users Table */}
+      {!isLoading && !error && users.length > 0 && (
+        <>
+          <Card className="mb-8 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Login</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {users.map((user) => {
+                  const isSelf = user.id === currentUser?.id
+                  const isEditing = editingId === user.id
+                  const isUpdating = updateMutation.isPending && updateMutation.variables?.user.id === user.id
+
+                  return (
+                    <tr key={user.id} className="align-top">
+                      <td className="px-6 py-4">
+                        <p className="text-sm font-medium text-gray-900">
+                          {user.username}
+                          {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                        </p>
+                        <p className="text-xs text-gray-500">{user.email}</p>
+                      </td>
+                      <td className="px-6 py-4">
+                        {isEditing ? (
+                          <div className="space-y-3 min-w-[16rem]">
+                            <Select
+                              value={editForm.role}
+                              onChange={(e) => setEditForm(prev => ({ ...prev, role: e.target.value as AdminRole }))}
+                              aria-label="Role"
+                            >
+                              {ASSIGNABLE_ROLES.map((role) => (
+                                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                              ))}
+                            </Select>
+                            {editForm.role === 'city_coordinator' && (
+                              <CityScopeInput
+                                cities={editForm.cities}
+                                onChange={(cities) => setEditForm(prev => ({ ...prev, cities }))}
+                              />
+                            )}
+                            <div className="flex gap-2">
+                              <Button size="sm" onClick={() => saveRole(user)} loading={isUpdating}>
+                                Save
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                                Cancel
+                              </Button>
+                            </div>
+                          </div>
+                        ) : (
+                          <>
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${ROLE_BADGES[user.role] || ROLE_BADGES.view_only}`}>
+                              {ROLE_LABELS[user.role] || user.role}
+                            </span>
+                            {user.role === 'city_coordinator' && user.cities.length > 0 && (
+                              <p className="text-xs text-gray-500 mt-1">{user.cities.join(', ')}</p>
+                            )}
+                          </>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            user.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                          }`}
+                        >
+                          {user.isActive ? 'Active' : 'Deactivated'}
+                        </span>
+                        {user.twoFactorEnabled && (
+                          <span className="ml-2 inline-flex items-center gap-1 px-2 py-1 rounded-full bg-blue-100 text-blue-800 text-xs font-medium">
+                            <ShieldCheck className="w-3 h-3" />
+                            2FA
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {user.lastLogin ? formatRelativeTime(user.lastLogin) : 'Never'}
+                      </td>
+                      <td className="px-6 py-4">
+                        {/* Super admins cannot demote or lock out themselves */}
+                        <div className="flex justify-end gap-2">
+                          {!isSelf && !isEditing && (
+                            <Button variant="outline" size="sm" onClick={() => startEditing(user)}>
+                              <Pencil className="w-4 h-4 mr-1" />
+                              Role
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleReset(user)}
+                            loading={resetMutation.isPending && resetMutation.variables?.id === user.id}
+                          >
+                            <KeyRound className="w-4 h-4 mr-1" />
+                            Reset Password
+                          </Button>
+                          {!isSelf && user.twoFactorEnabled && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleResetTwoFactor(user)}
+                              loading={resetTwoFactorMutation.isPending && resetTwoFactorMutation.variables?.id === user.id}
+                            >
+                              <ShieldOff className="w-4 h-4 mr-1" />
+                              Reset 2FA
+                            </Button>
+                          )}
+                          {!isSelf && (
+                            <Button
+                              variant={user.isActive ? 'destructive' : 'outline'}
+                              size="sm"
+                              onClick={() => toggleActive(user)}
+                              loading={isUpdating && !isEditing}
+                            >
+                              {user.isActive ? 'Deactivate' : 'Reactivate'}
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </Card>
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex justify-center">
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+                  disabled={currentPage === 1}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-600">
+                  Page {currentPage} of {pagination.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  onClick={() => setCurrentPage(prev => Math.min(pagination.totalPages, prev + 1))}
+                  disabled={currentPage === pagination.totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Empty State */}
+      {!isLoading && !error && users.length === 0 && (
+        <Card>
+          <CardContent className="text-center py-12">
+            <UserCog className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No users found</h3>
+            <p className="text-gray-600">Try adjusting your search or filters</p>
+          </CardContent>
+        </Card>
+      )}
+    </AdminLayout>
+  )
+}
+
+export default AdminUsersPage
\ No newline at end of file
@@ -1,4 +1,4 @@
-import axios, { AxiosResponse } from 'axios'
+import axios, { AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios'
 import type {
   ApiResponse,
   Saint,
@@ -12,10 +12,27 @@ import type {
   UpdateScheduleRequest,
   LoginRequest,
   LoginResponse,
+  TwoFactorLoginRequest,
+  TwoFactorStatus,
+  TwoFactorSetup,
+  RecoveryCodes,
   User,
-  SearchParams,
-  PaginationDto
+  AdminRole,
+  InviteUserRequest,
+  UpdateUserRequest,
+  UserCredentials,
+  ActivityLog,
+  Subscription,
+  CreateSubscriptionRequest,
+  UpdateSubscriptionRequest,
+  VerifySubscriptionRequest,
+  SearchSuggestions,
+  AdvancedSearchParams,
+  AdvancedSearchResult,
+  SearchParams
 } from '@/types/api'
+import * as authStorage from '@/lib/authStorage'
+import { getErrorMessage } from '@/lib/utils'
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api'
 
@@ -25,48 +42,112 @@ const api = axios.create({
   headers: {
     'Content-Type': 'application/json',
   },
+  // Cookie mode needs the browser to send and accept the httpOnly refresh cookie
+  withCredentials: authStorage.AUTH_STORAGE_MODE === 'cookie',
 })
 
 // Request interceptor to add auth token
 api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('authToken')
+  const token = authStorage.getToken()
   if (token) {
     config.headers.Authorization = `Bearer ${token}`
   }
   return config
 })
 
-// Response interceptor for error handling
+let refreshInFlight: Promise<string> | null = null
+
+// Requests that fail together wait on one refresh, so the rotating refresh token is spent once
+export function refreshSession(): Promise<string> {
+  if (!refreshInFlight) {
+    const staleToken = authStorage.getToken()
+
+    refreshInFlight = authStorage.withRefreshLock(async () => {
+      // Another tab may have refreshed while this one waited for the lock
+      const currentToken = authStorage.getToken()
+      if (currentToken && currentToken !== staleToken) {
+        return currentToken
+      }
+
+      const refreshToken = authStorage.getRefreshToken()
+      if (authStorage.AUTH_STORAGE_MODE === 'local' && !refreshToken) {
+        throw new Error('No refresh token')
+      }
+
+      // Plain axios so a rejected refresh cannot loop back through the interceptors
+      const response = await axios.post<ApiResponse<LoginResponse>>(
+        `${API_BASE_URL}/auth/refresh`,
+        refreshToken ? { refreshToken } : {},
+        { withCredentials: authStorage.AUTH_STORAGE_MODE === 'cookie' }
+      )
+      const session = response.data.data
+      if (!session) {
+        throw new Error('Refresh returned no session')
+      }
+
+      authStorage.saveSession(session)
+      return session.token
+    }).finally(() => {
+      refreshInFlight = null
+    })
+  }
+
+  return refreshInFlight
+}
+
+export function endSession() {
+  authStorage.clearSession('expired')
+}
+
+// A 401 on these means bad credentials rather than an expired session
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/refresh']
+
+// Response interceptor: refresh an expired session once and replay the request,
+// so admins keep whatever they were editing
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      localStorage.removeItem('authToken')
-      localStorage.removeItem('user')
-      window.location.href = '/admin/login'
+  async (error) => {
+    const request = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined
+
+    if (
+      error.response?.status !== 401 ||
+      !request ||
+      request._retried ||
+      AUTH_ENDPOINTS.some((endpoint) => request.url?.startsWith(endpoint)) ||
+      !authStorage.getStoredSession()
+    ) {
+      return Promise.reject(error)
+    }
+
+    request._retried = true
+    try {
+      const token = await refreshSession()
+      request.headers.Authorization = `Bearer ${token}`
+      return api(request)
+    } catch {
+      endSession()
+      return Promise.reject(error)
     }
-    return Promise.reject(error)
   }
 )
 
 // Generic API request function
-async function apiRequest<T>(url: string, options?: RequestInit): Promise<ApiResponse<T>> {
+async function apiRequest<T>(url: string, options?: AxiosRequestConfig): Promise<ApiResponse<T>> {
   try {
     const response: AxiosResponse<ApiResponse<T>> = await api({
       url,
       ...options,
     })
     return response.data
-  } catch (error: any) {
-    if (error.response?.data) {
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.data) {
       throw error.response.data
     }
     throw {
       success: false,
       error: {
         code: 'NETWORK_ERROR',
-        message: error.message || 'An unexpected error occurred',
+        message: getErrorMessage(error),
       },
       timestamp: new Date().toISOString(),
     }
@@ -80,14 +161,20 @@ export const saintsApi = {
     limit?: number
     search?: string
     city?: string
+    state?: string
     isActive?: boolean
-  }): Promise<ApiResponse<{ saints: Saint[] } & PaginationDto>> => {
+    includeInactive?: boolean
+    createdFrom?: Date
+  }): Promise<ApiResponse<Saint[]>> => {
     const searchParams = new URLSearchParams()
     if (params?.page) searchParams.set('page', params.page.toString())
     if (params?.limit) searchParams.set('limit', params.limit.toString())
     if (params?.search) searchParams.set('search', params.search)
     if (params?.city) searchParams.set('city', params.city)
+    if (params?.state) searchParams.set('state', params.state)
     if (params?.isActive !== undefined) searchParams.set('isActive', params.isActive.toString())
+    if (params?.includeInactive) searchParams.set('includeInactive', 'true')
+    if (params?.createdFrom) searchParams.set('createdFrom', params.createdFrom.toISOString())
 
     const url = `/saints${searchParams.toString() ? `?${searchParams.toString()}` : ''}`
     return apiRequest(url)
@@ -147,13 +234,15 @@ export const locationsApi = {
     search?: string
     city?: string
     state?: string
-  }): Promise<ApiResponse<{ locations: Location[] } & PaginationDto>> => {
+    createdFrom?: Date
+  }): Promise<ApiResponse<Location[]>> => {
     const searchParams = new URLSearchParams()
     if (params?.page) searchParams.set('page', params.page.toString())
     if (params?.limit) searchParams.set('limit', params.limit.toString())
     if (params?.search) searchParams.set('search', params.search)
     if (params?.city) searchParams.set('city', params.city)
     if (params?.state) searchParams.set('state', params.state)
+    if (params?.createdFrom) searchParams.set('createdFrom', params.createdFrom.toISOString())
 
     const url = `/locations${searchParams.toString() ? `?${searchParams.toString()}` : ''}`
     return apiRequest(url)
@@ -183,11 +272,19 @@ export const locationsApi = {
     })
   },
 
-  getCities: async (query?: string): Promise<ApiResponse<string[]>> => {
-    const url = query ? `/locations/cities?query=${encodeURIComponent(query)}` : '/locations/cities'
+  getCities: async (query?: string, state?: string): Promise<ApiResponse<string[]>> => {
+    const searchParams = new URLSearchParams()
+    if (query) searchParams.set('query', query)
+    if (state) searchParams.set('state', state)
+
+    const url = `/locations/cities${searchParams.toString() ? `?${searchParams.toString()}` : ''}`
     return apiRequest(url)
   },
 
+  getStates: async (): Promise<ApiResponse<string[]>> => {
+    return apiRequest('/locations/states')
+  },
+
   getByCity: async (city: string): Promise<ApiResponse<Location[]>> => {
     return apiRequest(`/locations/city/${encodeURIComponent(city)}`)
   },
@@ -202,7 +299,8 @@ export const schedulesApi = {
     city?: string
     dateFrom?: Date
     dateTo?: Date
-  }): Promise<ApiResponse<{ schedules: Schedule[] } & PaginationDto>> => {
+    overlapping?: boolean // match stays overlapping dateFrom/dateTo instead of inside them
+  }): Promise<ApiResponse<Schedule[]>> => {
     const searchParams = new URLSearchParams()
     if (params?.page) searchParams.set('page', params.page.toString())
     if (params?.limit) searchParams.set('limit', params.limit.toString())
@@ -210,6 +308,7 @@ export const schedulesApi = {
     if (params?.city) searchParams.set('city', params.city)
     if (params?.dateFrom) searchParams.set('dateFrom', params.dateFrom.toISOString())
     if (params?.dateTo) searchParams.set('dateTo', params.dateTo.toISOString())
+    if (params?.overlapping) searchParams.set('overlapping', 'true')
 
     const url = `/schedules${searchParams.toString() ? `?${searchParams.toString()}` : ''}`
     return apiRequest(url)
@@ -294,9 +393,17 @@ export const authApi = {
     })
   },
 
-  logout: async (): Promise<ApiResponse<object>> => {
+  loginTwoFactor: async (data: TwoFactorLoginRequest): Promise<ApiResponse<LoginResponse>> => {
+    return apiRequest('/auth/login/2fa', {
+      method: 'POST',
+      data: JSON.stringify(data),
+    })
+  },
+
+  logout: async (refreshToken?: string): Promise<ApiResponse<object>> => {
     return apiRequest('/auth/logout', {
       method: 'POST',
+      data: refreshToken ? JSON.stringify({ refreshToken }) : undefined,
     })
   },
 
@@ -305,6 +412,187 @@ export const authApi = {
   },
 }
 
+// Admin Users API (super admins only)
+export const usersApi = {
+  getAll: async (params?: {
+    page?: number
+    limit?: number
+    search?: string
+    role?: AdminRole
+    isActive?: boolean
+  }): Promise<ApiResponse<User[]>> => {
+    const searchParams = new URLSearchParams()
+    if (params?.page) searchParams.set('page', params.page.toString())
+    if (params?.limit) searchParams.set('limit', params.limit.toString())
+    if (params?.search) searchParams.set('search', params.search)
+    if (params?.role) searchParams.set('role', params.role)
+    if (params?.isActive !== undefined) searchParams.set('isActive', params.isActive.toString())
+
+    const url = `/auth/users${searchParams.toString() ? `?${searchParams.toString()}` : ''}`
+    return apiRequest(url)
+  },
+
+  invite: async (data: InviteUserRequest): Promise<ApiResponse<UserCredentials>> => {
+    return apiRequest('/auth/users/invite', {
+      method: 'POST',
+      data: JSON.stringify(data),
+    })
+  },
+
+  update: async (id: string, data: UpdateUserRequest): Promise<ApiResponse<User>> => {
+    return apiRequest(`/auth/users/${id}`, {
+      method: 'PUT',
+      data: JSON.stringify(data),
+    })
+  },
+
+  resetPassword: async (id: string): Promise<ApiResponse<UserCredentials>> => {
+    return apiRequest(`/auth/users/${id}/reset-password`, {
+      method: 'POST',
+    })
+  },
+
+  resetTwoFactor: async (id: string): Promise<ApiResponse<User>> => {
+    return apiRequest(`/auth/users/${id}/two-factor`, {
+      method: 'DELETE',
+    })
+  },
+}
+
+// Two-factor API (the signed-in admin's own account)
+export const twoFactorApi = {
+  getStatus: async (): Promise<ApiResponse<TwoFactorStatus>> => {
+    return apiRequest('/auth/2fa')
+  },
+
+  setup: async (): Promise<ApiResponse<TwoFactorSetup>> => {
+    return apiRequest('/auth/2fa/setup', {
+      method: 'POST',
+    })
+  },
+
+  enable: async (code: string): Promise<ApiResponse<RecoveryCodes>> => {
+    return apiRequest('/auth/2fa/enable', {
+      method: 'POST',
+      data: JSON.stringify({ code }),
+    })
+  },
+
+  disable: async (password: string): Promise<ApiResponse<object>> => {
+    return apiRequest('/auth/2fa/disable', {
+      method: 'POST',
+      data: JSON.stringify({ password }),
+    })
+  },
+
+  regenerateRecoveryCodes: async (code: string): Promise<ApiResponse<RecoveryCodes>> => {
+    return apiRequest('/auth/2fa/recovery-codes', {
+      method: 'POST',
+      data: JSON.stringify({ code }),
+    })
+  },
+}
+
+// Activity Log API
+export const activityApi = {
+  getAll: async (params?: {
+    page?: number
+    limit?: number
+    adminUserId?: string
+    entityType?: string
+    action?: string
+    dateFrom?: Date
+    dateTo?: Date
+  }): Promise<ApiResponse<ActivityLog[]>> => {
+    const searchParams = new URLSearchParams()
+    if (params?.page) searchParams.set('page', params.page.toString())
+    if (params?.limit) searchParams.set('limit', params.limit.toString())
+    if (params?.adminUserId) searchParams.set('adminUserId', params.adminUserId)
+    if (params?.entityType) searchParams.set('entityType', params.entityType)
+    if (params?.action) searchParams.set('action', params.action)
+    if (params?.dateFrom) searchParams.set('dateFrom', params.dateFrom.toISOString())
+    if (params?.dateTo) searchParams.set('dateTo', params.dateTo.toISOString())
+
+    const url = `/activitylogs${searchParams.toString() ? `?${searchParams.toString()}` : ''}`
+    return apiRequest(url)
+  },
+
+  getAdmins: async (): Promise<ApiResponse<User[]>> => {
+    return apiRequest('/activitylogs/admins')
+  },
+}
+
+// Subscriptions API
+export const subscriptionsApi = {
+  getById: async (id: string): Promise<ApiResponse<Subscription>> => {
+    return apiRequest(`/subscriptions/${id}`)
+  },
+
+  // Sends a code to the identifier; the subscription itself comes back from verify
+  create: async (data: CreateSubscriptionRequest): Promise<ApiResponse<{ message: string }>> => {
+    return apiRequest('/subscriptions', {
+      method: 'POST',
+      data: JSON.stringify(data),
+    })
+  },
+
+  recover: async (userIdentifier: string): Promise<ApiResponse<{ message: string }>> => {
+    return apiRequest('/subscriptions/recover', {
+      method: 'POST',
+      data: JSON.stringify({ userIdentifier }),
+    })
+  },
+
+  verify: async (data: VerifySubscriptionRequest): Promise<ApiResponse<Subscription>> => {
+    return apiRequest('/subscriptions/verify', {
+      method: 'POST',
+      data: JSON.stringify(data),
+    })
+  },
+
+  update: async (id: string, data: UpdateSubscriptionRequest): Promise<ApiResponse<Subscription>> => {
+    return apiRequest(`/subscriptions/${id}`, {
+      method: 'PUT',
+      data: JSON.stringify(data),
+    })
+  },
+
+  delete: async (id: string): Promise<ApiResponse<object>> => {
+    return apiRequest(`/subscriptions/${id}`, {
+      method: 'DELETE',
+    })
+  },
+
+  getPushPublicKey: async (): Promise<ApiResponse<{ publicKey: string }>> => {
+    return apiRequest('/subscriptions/push/public-key')
+  },
+
+  savePushSubscription: async (id: string, pushSubscription: PushSubscriptionJSON): Promise<ApiResponse<Subscription>> => {
+    return apiRequest(`/subscriptions/${id}/push`, {
+      method: 'PUT',
+      data: JSON.stringify(pushSubscription),
+    })
+  },
+
+  removePushSubscription: async (id: string): Promise<ApiResponse<Subscription>> => {
+    return apiRequest(`/subscriptions/${id}/push`, {
+      method: 'DELETE',
+    })
+  },
+}
+
+// Calendar exports are plain URLs: browsers download them and calendar apps subscribe to them
+export const calendarApi = {
+  scheduleUrl: (id: string): string => `${API_BASE_URL}/calendar/schedules/${id}.ics`,
+
+  saintUrl: (saintId: string): string => `${API_BASE_URL}/calendar/saints/${saintId}.ics`,
+
+  cityUrl: (city: string): string => `${API_BASE_URL}/calendar/cities/${encodeURIComponent(city)}.ics`,
+
+  // webcal:// makes the OS hand the feed to the default calendar app as a subscription
+  toFeedUrl: (url: string): string => new URL(url, window.location.origin).href.replace(/^https?:/, 'webcal:'),
+}
+
 // Search API
 export const searchApi = {
   getNearby: async (params: {
@@ -328,27 +616,19 @@ export const searchApi = {
     return apiRequest(url)
   },
 
-  getSuggestions: async (query: string): Promise<ApiResponse<any>> => {
+  getSuggestions: async (query: string): Promise<ApiResponse<SearchSuggestions>> => {
     return apiRequest(`/search/suggestions?query=${encodeURIComponent(query)}`)
   },
 
-  advanced: async (params: {
-    search?: string
-    city?: string
-    state?: string
-    dateFrom?: Date
-    dateTo?: Date
-    currentOnly?: boolean
-    page?: number
-    limit?: number
-  }): Promise<ApiResponse<any>> => {
+  advanced: async (params: AdvancedSearchParams): Promise<ApiResponse<AdvancedSearchResult>> => {
     const searchParams = new URLSearchParams()
     if (params.search) searchParams.set('search', params.search)
     if (params.city) searchParams.set('city', params.city)
     if (params.state) searchParams.set('state', params.state)
-    if (params.dateFrom) searchParams.set('dateFrom', params.dateFrom.toISOString())
-    if (params.dateTo) searchParams.set('dateTo', params.dateTo.toISOString())
-    if (params.currentOnly) searchParams.set('currentOnly', params.currentOnly.toString())
+    if (params.lineage) searchParams.set('lineage', params.lineage)
+    if (params.dateFrom) searchParams.set('dateFrom', params.dateFrom)
+    if (params.dateTo) searchParams.set('dateTo', params.dateTo)
+    if (params.currentOnly) searchParams.set('currentOnly', 'true')
     if (params.page) searchParams.set('page', params.page.toString())
     if (params.limit) searchParams.set('limit', params.limit.toString())
 
@@ -0,0 +1,223 @@
+interface GeocodingResult {
+  lat: number
+  lng: number
+  display_name: string
+  address: string
+  country?: string
+  state?: string
+  city?: string
+  postcode?: string
+}
+
+interface TileSource {
+  url: string
+  attribution: string
+  maxZoom?: number
+}
+
+// The parts of the Mapbox geocoding and Nominatim responses that are read here
+interface MapboxContext {
+  id: string
+  text: string
+}
+
+interface MapboxFeature extends MapboxContext {
+  place_name: string
+  center: [number, number] // [lng, lat]
+  context?: MapboxContext[]
+}
+
+interface MapboxResponse {
+  features?: MapboxFeature[]
+}
+
+interface NominatimResult {
+  lat: string
+  lon: string
+  display_name: string
+  address?: {
+    country?: string
+    state?: string
+    city?: string
+    town?: string
+    village?: string
+    postcode?: string
+  }
+  error?: string
+}
+
+// A provider supplies map tiles plus forward and reverse geocoding
+interface MapProvider {
+  name: string
+  tiles: TileSource | null // null renders markers on a blank canvas
+  geocode(query: string): Promise<GeocodingResult | null>
+  reverseGeocode(lat: number, lng: number): Promise<GeocodingResult | null>
+}
+
+const fetchJson = async <T>(url: string): Promise<T> => {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } })
+  if (!response.ok) {
+    throw new Error(`Geocoding request failed with status ${response.status}`)
+  }
+  return response.json()
+}
+
+const createMapboxProvider = (options: { accessToken: string; styleId?: string }): MapProvider => {
+  const styleId = options.styleId || 'mapbox/streets-v12'
+  const baseUrl = 'https://api.mapbox.com/geocoding/v5/mapbox.places'
+
+  const parseFeature = (feature: MapboxFeature, lat: number, lng: number): GeocodingResult => {
+    // The feature itself may be the place or postcode, otherwise look in its context
+    const parts: MapboxContext[] = [feature, ...(feature.context || [])]
+    const findText = (type: string) => parts.find((c) => c.id?.startsWith(type))?.text
+
+    return {
+      lat,
+      lng,
+      display_name: feature.place_name,
+      address: feature.place_name,
+      country: findText('country'),
+      state: findText('region'),
+      city: findText('place'),
+      postcode: findText('postcode')
+    }
+  }
+
+  return {
+    name: 'mapbox',
+    tiles: {
+      url: `https://api.mapbox.com/styles/v1/${styleId}/tiles/{z}/{x}/{y}?access_token=${options.accessToken}`,
+      attribution: '© Mapbox © OpenStreetMap contributors',
+      maxZoom: 19
+    },
+
+    async geocode(query) {
+      const data = await fetchJson<MapboxResponse>(`${baseUrl}/${encodeURIComponent(query)}.json?access_token=${options.accessToken}&limit=1`)
+      const feature = data.features?.[0]
+      return feature ? parseFeature(feature, feature.center[1], feature.center[0]) : null
+    },
+
+    async reverseGeocode(lat, lng) {
+      const data = await fetchJson<MapboxResponse>(`${baseUrl}/${lng},${lat}.json?access_token=${options.accessToken}`)
+      const feature = data.features?.[0]
+      return feature ? parseFeature(feature, lat, lng) : null
+    }
+  }
+}
+
+// Serves both the public OpenStreetMap/Nominatim services and self-hosted instances of them
+const createNominatimProvider = (options: {
+  name?: string
+  tileUrl?: string
+  geocoderUrl?: string
+  attribution?: string
+} = {}): MapProvider => {
+  const geocoderUrl = (options.geocoderUrl || 'https://nominatim.openstreetmap.org').replace(/\/+$/, '')
+
+  const parseResult = (result: NominatimResult, lat: number, lng: number): GeocodingResult => {
+    const address = result.address || {}
+
+    return {
+      lat,
+      lng,
+      display_name: result.display_name,
+      address: result.display_name,
+      country: address.country,
+      state: address.state,
+      city: address.city || address.town || address.village,
+      postcode: address.postcode
+    }
+  }
+
+  return {
+    name: options.name || 'osm',
+    tiles: {
+      url: options.tileUrl || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+      attribution: options.attribution || '© OpenStreetMap contributors',
+      maxZoom: 19
+    },
+
+    async geocode(query) {
+      const results = await fetchJson<NominatimResult[]>(`${geocoderUrl}/search?format=jsonv2&addressdetails=1&limit=1&q=${encodeURIComponent(query)}`)
+      const result = results?.[0]
+      return result ? parseResult(result, parseFloat(result.lat), parseFloat(result.lon)) : null
+    },
+
+    async reverseGeocode(lat, lng) {
+      const result = await fetchJson<NominatimResult>(`${geocoderUrl}/reverse?format=jsonv2&addressdetails=1&lat=${lat}&lon=${lng}`)
+      return result && !result.error ? parseResult(result, lat, lng) : null
+    }
+  }
+}
+
+const STUB_PLACES: GeocodingResult[] = [
+  { lat: 19.076, lng: 72.8777, display_name: 'Mumbai, Maharashtra, India', address: 'Mumbai, Maharashtra, India', city: 'Mumbai', state: 'Maharashtra', country: 'India', postcode: '400001' },
+  { lat: 23.0225, lng: 72.5714, display_name: 'Ahmedabad, Gujarat, India', address: 'Ahmedabad, Gujarat, India', city: 'Ahmedabad', state: 'Gujarat', country: 'India', postcode: '380001' },
+  { lat: 21.1702, lng: 72.8311, display_name: 'Surat, Gujarat, India', address: 'Surat, Gujarat, India', city: 'Surat', state: 'Gujarat', country: 'India', postcode: '395003' },
+  { lat: 18.5204, lng: 73.8567, display_name: 'Pune, Maharashtra, India', address: 'Pune, Maharashtra, India', city: 'Pune', state: 'Maharashtra', country: 'India', postcode: '411001' },
+  { lat: 28.6139, lng: 77.209, display_name: 'New Delhi, Delhi, India', address: 'New Delhi, Delhi, India', city: 'New Delhi', state: 'Delhi', country: 'India', postcode: '110001' },
+  { lat: 26.9124, lng: 75.7873, display_name: 'Jaipur, Rajasthan, India', address: 'Jaipur, Rajasthan, India', city: 'Jaipur', state: 'Rajasthan', country: 'India', postcode: '302001' },
+  { lat: 22.7196, lng: 75.8577, display_name: 'Indore, Madhya Pradesh, India', address: 'Indore, Madhya Pradesh, India', city: 'Indore', state: 'Madhya Pradesh', country: 'India', postcode: '452001' },
+  { lat: 12.9716, lng: 77.5946, display_name: 'Bengaluru, Karnataka, India', address: 'Bengaluru, Karnataka, India', city: 'Bengaluru', state: 'Karnataka', country: 'India', postcode: '560001' },
+]
+
+// Offline provider for local development and tests: no tiles and no network, a fixed set of cities
+const createStubProvider = (places: GeocodingResult[] = STUB_PLACES): MapProvider => ({
+  name: 'stub',
+  tiles: null,
+
+  async geocode(query) {
+    const needle = query.trim().toLowerCase()
+    if (!needle) return null
+    return places.find((place) =>
+      place.city?.toLowerCase() === needle || place.display_name.toLowerCase().includes(needle)
+    ) || null
+  },
+
+  async reverseGeocode(lat, lng) {
+    // Nearest known place, keeping the requested coordinates
+    const nearest = places.reduce<GeocodingResult | null>((best, place) => {
+      const distance = (place.lat - lat) ** 2 + (place.lng - lng) ** 2
+      const bestDistance = best ? (best.lat - lat) ** 2 + (best.lng - lng) ** 2 : Infinity
+      return distance < bestDistance ? place : best
+    }, null)
+
+    return nearest ? { ...nearest, lat, lng } : null
+  }
+})
+
+const createProviderFromEnv = (env: ImportMetaEnv = import.meta.env): MapProvider => {
+  const providerName = (env.VITE_MAP_PROVIDER || (env.VITE_MAPBOX_API_KEY ? 'mapbox' : 'osm')).toLowerCase()
+
+  switch (providerName) {
+    case 'mapbox':
+      if (env.VITE_MAPBOX_API_KEY) {
+        return createMapboxProvider({ accessToken: env.VITE_MAPBOX_API_KEY, styleId: env.VITE_MAPBOX_STYLE_ID })
+      }
+      console.warn('VITE_MAPBOX_API_KEY is not set, falling back to OpenStreetMap')
+      return createNominatimProvider()
+
+    case 'self-hosted':
+      return createNominatimProvider({
+        name: 'self-hosted',
+        tileUrl: env.VITE_MAP_TILE_URL,
+        geocoderUrl: env.VITE_MAP_GEOCODER_URL,
+        attribution: env.VITE_MAP_ATTRIBUTION
+      })
+
+    case 'stub':
+      return createStubProvider()
+
+    case 'osm':
+    default:
+      return createNominatimProvider()
+  }
+}
+
+export {
+  createMapboxProvider,
+  createNominatimProvider,
+  createStubProvider,
+  createProviderFromEnv
+}
+export type { MapProvider, TileSource, GeocodingResult }
\ No newline at end of file
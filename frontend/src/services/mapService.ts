@@ -1,10 +1,14 @@
-import type { Map as LeafletMap, TileLayer, Marker, Popup, LatLng } from 'leaflet'
+import type { Map as LeafletMap, TileLayer, Marker, DivIcon, LayerGroup, Polyline, LeafletMouseEvent } from 'leaflet'
+import { createProviderFromEnv, type MapProvider, type GeocodingResult } from './mapProviders'
+
+type LeafletModule = typeof import('leaflet')
 
 interface MapConfig {
-  accessToken: string
-  styleId?: string
+  provider: MapProvider
   center?: [number, number]
   zoom?: number
+  clusterRadius?: number // grid cell size in pixels
+  disableClusteringAtZoom?: number
 }
 
 interface MapMarker {
@@ -15,25 +19,38 @@ interface MapMarker {
   type: 'saint' | 'temple' | 'current' | 'upcoming'
   iconUrl?: string
   data?: any
+  label?: string // short text such as a stop number drawn inside the marker
+  clusterable?: boolean // defaults to true; set false for markers that must always stay visible
+}
+
+// Shared configuration for maps and geocoding lookups
+const defaultMapConfig: MapConfig = {
+  provider: createProviderFromEnv()
 }
 
-interface GeocodingResult {
-  lat: number
-  lng: number
-  display_name: string
-  address: string
-  country?: string
-  state?: string
-  city?: string
-  postcode?: string
+const MARKER_COLORS: Record<MapMarker['type'], string> = {
+  current: '#10B981',
+  upcoming: '#F59E0B',
+  temple: '#8B5CF6',
+  saint: '#6B7280'
 }
 
 class MapService {
+  private leaflet: LeafletModule | null = null
   private map: LeafletMap | null = null
   private markers: Map<string, Marker> = new Map()
+  private polylines: Map<string, Polyline> = new Map()
   private tileLayer: TileLayer | null = null
   private config: MapConfig
 
+  // Clustered markers are kept as plain data and only materialised when visible
+  private clusterLayer: LayerGroup | null = null
+  private clusteredMarkers: Map<string, MapMarker> = new Map()
+  private singleMarkerCache: Map<string, Marker> = new Map()
+  private visibleSingles: Set<string> = new Set()
+  private clusterMarkers: Marker[] = []
+  private renderFrame: number | null = null
+
   constructor(config: MapConfig) {
     this.config = config
   }
@@ -42,6 +59,7 @@ class MapService {
     try {
       // Dynamically import Leaflet to avoid SSR issues
       const L = await import('leaflet')
+      this.leaflet = L
       const map = L.map(container, {
         center: this.config.center || [20.5937, 78.9629], // Default: India
         zoom: this.config.zoom || 5,
@@ -49,18 +67,21 @@ class MapService {
         attributionControl: true
       })
 
-      // Add Mapbox tile layer
-      this.tileLayer = L.tileLayer(
-        `https://api.mapbox.com/styles/v1/${this.config.styleId}/tiles/{z}/{x}/{y}?access_token=${this.config.accessToken}`,
-        {
-          attribution: '© Mapbox © OpenStreetMap contributors',
-          maxZoom: 19
-        }
-      )
+      // Add the provider's tile layer; providers without tiles show markers only
+      const { tiles } = this.config.provider
+      if (tiles) {
+        this.tileLayer = L.tileLayer(tiles.url, {
+          attribution: tiles.attribution,
+          maxZoom: tiles.maxZoom ?? 19
+        })
+        this.tileLayer.addTo(map)
+      }
 
-      this.tileLayer.addTo(map)
       this.map = map
 
+      this.clusterLayer = L.layerGroup().addTo(map)
+      map.on('zoomend moveend', this.scheduleClusterRender)
+
       return map
     } catch (error) {
       console.error('Failed to initialize map:', error)
@@ -69,18 +90,251 @@ class MapService {
   }
 
   addMarker(markerData: MapMarker): string {
+    if (!this.map || !this.leaflet) {
+      console.warn('Map not initialized')
+      return ''
+    }
+
+    // Re-adding an id replaces the previous marker
+    this.removeMarker(markerData.id)
+
+    if (markerData.clusterable === false) {
+      const marker = this.createMarker(markerData).addTo(this.map)
+      this.markers.set(markerData.id, marker)
+      return markerData.id
+    }
+
+    this.clusteredMarkers.set(markerData.id, markerData)
+    this.scheduleClusterRender()
+
+    return markerData.id
+  }
+
+  private createMarker(markerData: MapMarker): Marker {
+    const marker = this.leaflet!.marker([markerData.position[0], markerData.position[1]], {
+      icon: markerData.label ? this.createLabelIcon(markerData) : this.createIcon(markerData.type)
+    })
+
+    // Add popup
+    if (markerData.description) {
+      const popup = this.leaflet!.popup()
+        .setContent(`
+          <div class="map-popup">
+            <h3 class="map-popup-title">${markerData.title}</h3>
+            <p class="map-popup-description">${markerData.description}</p>
+          </div>
+        `)
+
+      marker.bindPopup(popup)
+    }
+
+    return marker
+  }
+
+  private scheduleClusterRender = (): void => {
+    if (this.renderFrame !== null) return
+
+    // Batch bursts of addMarker calls and pan events into a single pass per frame
+    this.renderFrame = requestAnimationFrame(() => {
+      this.renderFrame = null
+      this.renderClusters()
+    })
+  }
+
+  private renderClusters(): void {
+    const map = this.map
+    const clusterLayer = this.clusterLayer
+    if (!map || !clusterLayer) return
+
+    const zoom = map.getZoom()
+    const bounds = map.getBounds().pad(0.5)
+    const radius = this.config.clusterRadius ?? 60
+    const clusteringDisabled = zoom >= (this.config.disableClusteringAtZoom ?? 16)
+
+    // Bucket visible markers into a pixel grid at the current zoom level
+    const cells = new Map<string, MapMarker[]>()
+    this.clusteredMarkers.forEach((markerData) => {
+      if (!bounds.contains(markerData.position)) return
+
+      let key = markerData.id
+      if (!clusteringDisabled) {
+        const point = map.project(markerData.position, zoom)
+        key = `${Math.floor(point.x / radius)}:${Math.floor(point.y / radius)}`
+      }
+
+      const cell = cells.get(key)
+      if (cell) cell.push(markerData)
+      else cells.set(key, [markerData])
+    })
+
+    this.clusterMarkers.forEach((marker) => clusterLayer.removeLayer(marker))
+    this.clusterMarkers = []
+
+    const nextSingles = new Set<string>()
+    cells.forEach((members) => {
+      if (members.length === 1) {
+        nextSingles.add(members[0].id)
+      } else {
+        this.clusterMarkers.push(this.createClusterMarker(members).addTo(clusterLayer))
+      }
+    })
+
+    // Single markers are reused between passes so open popups survive panning
+    this.visibleSingles.forEach((id) => {
+      if (!nextSingles.has(id)) {
+        const marker = this.singleMarkerCache.get(id)
+        if (marker) clusterLayer.removeLayer(marker)
+      }
+    })
+
+    nextSingles.forEach((id) => {
+      if (this.visibleSingles.has(id)) return
+
+      let marker = this.singleMarkerCache.get(id)
+      if (!marker) {
+        marker = this.createMarker(this.clusteredMarkers.get(id)!)
+        this.singleMarkerCache.set(id, marker)
+      }
+      clusterLayer.addLayer(marker)
+    })
+
+    this.visibleSingles = nextSingles
+  }
+
+  private createClusterMarker(members: MapMarker[]): Marker {
+    const L = this.leaflet!
+    const lat = members.reduce((sum, m) => sum + m.position[0], 0) / members.length
+    const lng = members.reduce((sum, m) => sum + m.position[1], 0) / members.length
+
+    const marker = L.marker([lat, lng], {
+      icon: this.createClusterIcon(members),
+      title: `${members.length} markers`
+    })
+
+    const memberBounds = L.latLngBounds(members.map((m) => m.position))
+    const isSinglePlace = memberBounds.getNorthEast().equals(memberBounds.getSouthWest())
+
+    if (isSinglePlace) {
+      // Zooming can never separate markers at the same spot, so list them instead
+      marker.bindPopup(`
+        <div class="map-popup">
+          <h3 class="map-popup-title">${members.length} at this location</h3>
+          ${members.map((m) => `
+            <div class="map-popup-item">
+              <strong>${m.title}</strong>
+              ${m.description ? `<p class="map-popup-description">${m.description}</p>` : ''}
+            </div>
+          `).join('')}
+        </div>
+      `)
+    } else {
+      marker.on('click', () => {
+        this.map?.fitBounds(memberBounds, { padding: [50, 50] })
+      })
+    }
+
+    return marker
+  }
+
+  private createClusterIcon(members: MapMarker[]): DivIcon {
+    const counts = new Map<MapMarker['type'], number>()
+    members.forEach((m) => counts.set(m.type, (counts.get(m.type) || 0) + 1))
+
+    const size = members.length < 10 ? 36 : members.length < 100 ? 44 : 52
+    const breakdown = Array.from(counts.entries())
+      .map(([type, count]) => `<span title="${count} ${type}" style="background:${MARKER_COLORS[type]};color:white;border-radius:9999px;padding:0 5px;font-size:10px;line-height:14px">${count}</span>`)
+      .join('')
+
+    return this.leaflet!.divIcon({
+      className: 'custom-div-icon',
+      html: `<div class="marker-cluster" style="display:flex;flex-direction:column;align-items:center">
+        <div style="width:${size}px;height:${size}px;border-radius:9999px;background:#1F2937;color:white;display:flex;align-items:center;justify-content:center;font-weight:600;font-size:14px;box-shadow:0 0 0 4px rgba(31,41,55,0.25)">${members.length}</div>
+        <div style="display:flex;gap:2px;margin-top:2px">${breakdown}</div>
+      </div>`,
+      iconSize: [size, size + 16],
+      iconAnchor: [size / 2, size / 2]
+    })
+  }
+
+  addDraggableMarker(markerData: MapMarker, onDragEnd: (position: [number, number]) => void): string {
+    if (!this.map || !this.leaflet) {
+      console.warn('Map not initialized')
+      return ''
+    }
+
+    const marker = this.leaflet.marker([markerData.position[0], markerData.position[1]], {
+      icon: this.createIcon(markerData.type),
+      draggable: true,
+      title: markerData.title
+    })
+      .addTo(this.map)
+
+    marker.on('dragend', () => {
+      const { lat, lng } = marker.getLatLng()
+      onDragEnd([lat, lng])
+    })
+
+    this.markers.set(markerData.id, marker)
+
+    return markerData.id
+  }
+
+  onMapClick(handler: (position: [number, number]) => void): () => void {
     if (!this.map) {
+      return () => {}
+    }
+
+    const listener = (event: LeafletMouseEvent) => handler([event.latlng.lat, event.latlng.lng])
+    this.map.on('click', listener)
+
+    return () => {
+      this.map?.off('click', listener)
+    }
+  }
+
+  private createLabelIcon(markerData: MapMarker): DivIcon {
+    return this.leaflet!.divIcon({
+      className: 'custom-div-icon',
+      html: `<div class="marker-icon marker-label" style="width:28px;height:28px;border-radius:9999px;background:${MARKER_COLORS[markerData.type]};color:white;border:2px solid white;box-shadow:0 1px 4px rgba(0,0,0,0.4);display:flex;align-items:center;justify-content:center;font-weight:600;font-size:13px">${markerData.label}</div>`,
+      iconSize: [28, 28],
+      iconAnchor: [14, 14],
+      popupAnchor: [0, -14]
+    })
+  }
+
+  addPolyline(id: string, positions: [number, number][], options: { color?: string; dashed?: boolean } = {}): string {
+    if (!this.map || !this.leaflet) {
       console.warn('Map not initialized')
       return ''
     }
 
-    // Dynamically import Leaflet for icons
-    const L = require('leaflet')
+    this.removePolyline(id)
 
-    // Create custom icon based on marker type
-    let icon: any
+    const polyline = this.leaflet.polyline(positions, {
+      color: options.color || '#2563EB',
+      weight: 4,
+      opacity: 0.8,
+      dashArray: options.dashed ? '8 8' : undefined
+    }).addTo(this.map)
 
-    switch (markerData.type) {
+    this.polylines.set(id, polyline)
+
+    return id
+  }
+
+  removePolyline(id: string): void {
+    const polyline = this.polylines.get(id)
+    if (polyline && this.map) {
+      this.map.removeLayer(polyline)
+      this.polylines.delete(id)
+    }
+  }
+
+  private createIcon(type: MapMarker['type']): DivIcon {
+    const L = this.leaflet!
+    let icon: DivIcon
+
+    switch (type) {
       case 'current':
         icon = L.divIcon({
           className: 'custom-div-icon',
@@ -141,26 +395,7 @@ class MapService {
         })
     }
 
-    const marker = L.marker([markerData.position[0], markerData.position[1]], { icon })
-      .addTo(this.map!)
-
-    // Add popup
-    if (markerData.description) {
-      const popup = L.popup()
-        .setContent(`
-          <div class="map-popup">
-            <h3 class="map-popup-title">${markerData.title}</h3>
-            <p class="map-popup-description">${markerData.description}</p>
-          </div>
-        `)
-
-      marker.bindPopup(popup)
-    }
-
-    // Store marker reference
-    this.markers.set(markerData.id, marker)
-
-    return markerData.id
+    return icon
   }
 
   removeMarker(markerId: string): void {
@@ -169,6 +404,16 @@ class MapService {
       this.map.removeLayer(marker)
       this.markers.delete(markerId)
     }
+
+    if (this.clusteredMarkers.delete(markerId)) {
+      const single = this.singleMarkerCache.get(markerId)
+      if (single && this.clusterLayer) {
+        this.clusterLayer.removeLayer(single)
+      }
+      this.singleMarkerCache.delete(markerId)
+      this.visibleSingles.delete(markerId)
+      this.scheduleClusterRender()
+    }
   }
 
   updateMarker(markerId: string, markerData: Partial<MapMarker>): void {
@@ -185,6 +430,12 @@ class MapService {
       }
     })
     this.markers.clear()
+
+    this.clusterLayer?.clearLayers()
+    this.clusteredMarkers.clear()
+    this.singleMarkerCache.clear()
+    this.visibleSingles.clear()
+    this.clusterMarkers = []
   }
 
   setView(position: [number, number], zoom: number): void {
@@ -211,7 +462,8 @@ class MapService {
           resolve({
             lat: position.coords.latitude,
             lng: position.coords.longitude,
-            display_name: 'Your Location'
+            display_name: 'Your Location',
+            address: 'Your Location'
           })
         },
         (error) => {
@@ -229,33 +481,7 @@ class MapService {
 
   async geocodeAddress(address: string): Promise<GeocodingResult | null> {
     try {
-      const response = await fetch(
-        `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(address)}.json?access_token=${this.config.accessToken}&limit=1`
-      )
-
-      if (!response.ok) {
-        throw new Error('Geocoding request failed')
-      }
-
-      const data = await response.json()
-
-      if (data.features && data.features.length > 0) {
-        const feature = data.features[0]
-        const center = feature.center
-
-        return {
-          lat: center[1],
-          lng: center[0],
-          display_name: feature.place_name,
-          address: feature.place_name,
-          country: feature.context?.find((c: any) => c.id?.startsWith('country'))?.short_name,
-          state: feature.context?.find((c: any) => c.id?.startsWith('region'))?.short_name,
-          city: feature.context?.find((c: any) => c.id?.startsWith('place'))?.short_name,
-          postcode: feature.context?.find((c: any) => c.id?.startsWith('postcode'))?.short_name
-        }
-      }
-
-      return null
+      return await this.config.provider.geocode(address)
     } catch (error) {
       console.error('Geocoding error:', error)
       return null
@@ -264,32 +490,7 @@ class MapService {
 
   async reverseGeocode(lat: number, lng: number): Promise<GeocodingResult | null> {
     try {
-      const response = await fetch(
-        `https://api.mapbox.com/geocoding/v5/mapbox.places/${lng},${lat}.json?access_token=${this.config.accessToken}`
-      )
-
-      if (!response.ok) {
-        throw new Error('Reverse geocoding request failed')
-      }
-
-      const data = await response.json()
-
-      if (data.features && data.features.length > 0) {
-        const feature = data.features[0]
-
-        return {
-          lat,
-          lng,
-          display_name: feature.place_name,
-          address: feature.place_name,
-          country: feature.context?.find((c: any) => c.id?.startsWith('country'))?.short_name,
-          state: feature.context?.find((c: any) => c.id?.startsWith('region'))?.short_name,
-          city: feature.context?.find((c: any) => c.id?.startsWith('place'))?.short_name,
-          postcode: feature.context?.find((c: any) => c.id?.startsWith('postcode'))?.short_name
-        }
-      }
-
-      return null
+      return await this.config.provider.reverseGeocode(lat, lng)
     } catch (error) {
       console.error('Reverse geocoding error:', error)
       return null
@@ -313,13 +514,25 @@ class MapService {
   }
 
   destroy(): void {
+    if (this.renderFrame !== null) {
+      cancelAnimationFrame(this.renderFrame)
+      this.renderFrame = null
+    }
     if (this.map) {
+      this.map.off('zoomend moveend', this.scheduleClusterRender)
       this.map.remove()
       this.map = null
     }
     this.markers.clear()
+    this.polylines.clear()
+    this.clusterLayer = null
+    this.clusteredMarkers.clear()
+    this.singleMarkerCache.clear()
+    this.visibleSingles.clear()
+    this.clusterMarkers = []
   }
 }
 
 export default MapService
+export { defaultMapConfig }
 export type { MapConfig, MapMarker, GeocodingResult }
\ No newline at end of file
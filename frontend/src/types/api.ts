@@ -121,6 +121,7 @@ export interface CreateScheduleRequest {
   notes?: string
   contactPerson?: string
   contactPhone?: string
+  allowOverlap?: boolean
 }
 
 export interface UpdateScheduleRequest {
@@ -132,6 +133,7 @@ export interface UpdateScheduleRequest {
   notes?: string
   contactPerson?: string
   contactPhone?: string
+  allowOverlap?: boolean
 }
 
 // Auth Types
@@ -143,19 +145,159 @@ export interface LoginRequest {
 export interface LoginResponse {
   token: string
   expiresAt: string
+  // Empty in cookie mode, where the API sets it as an httpOnly cookie instead
+  refreshToken: string
+  refreshExpiresAt: string
   user: User
+  // When set, the password was accepted but the session waits on an authenticator code
+  requiresTwoFactor?: boolean
+  challengeToken?: string
 }
 
+export interface TwoFactorLoginRequest {
+  challengeToken: string
+  code: string
+}
+
+// 'admin' is the role older accounts were created with and acts as an editor
+export type AdminRole = 'super_admin' | 'editor' | 'city_coordinator' | 'view_only' | 'admin'
+
 export interface User {
   id: string
   username: string
   email: string
-  role: string
+  role: AdminRole
+  // Only set for city coordinators: the cities they may manage
+  cities: string[]
   lastLogin?: string
   isActive: boolean
+  twoFactorEnabled: boolean
+}
+
+export interface InviteUserRequest {
+  username: string
+  email: string
+  role: AdminRole
+  cities?: string[]
+}
+
+export interface UpdateUserRequest {
+  email?: string
+  role?: AdminRole
+  cities?: string[]
+  isActive?: boolean
+}
+
+// Shown once to the super admin, in case the email never arrives
+export interface UserCredentials {
+  user: User
+  temporaryPassword: string
+  emailSent: boolean
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  recoveryCodesLeft: number
+}
+
+export interface TwoFactorSetup {
+  sharedKey: string
+  authenticatorUri: string
+  // PNG data URI of the authenticator URI
+  qrCodeImage: string
+}
+
+export interface RecoveryCodes {
+  recoveryCodes: string[]
+}
+
+// Activity Log Types
+export interface ActivityLog {
+  id: string
+  adminUserId?: string
+  adminUsername?: string
+  action: string
+  entityType?: string
+  entityId?: string
+  oldValues?: string
+  newValues?: string
+  ipAddress?: string
+  createdAt: string
+}
+
+// Notification Subscription Types
+export type NotificationType = 'arrival' | 'departure' | 'schedule_change' | 'chaturmas'
+
+export interface Subscription {
+  id: string
+  userIdentifier: string // email or phone
+  emailEnabled: boolean
+  whatsAppEnabled: boolean
+  pushEnabled: boolean
+  isVerified: boolean
+  preferredCities: string[]
+  followedSaints: string[] // saint IDs
+  notificationTypes: NotificationType[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateSubscriptionRequest {
+  userIdentifier: string
+  emailEnabled: boolean
+  whatsAppEnabled: boolean
+  pushEnabled: boolean
+  preferredCities?: string[]
+  followedSaints?: string[]
+  notificationTypes?: NotificationType[]
+}
+
+export interface VerifySubscriptionRequest {
+  userIdentifier: string
+  code: string
+}
+
+export interface UpdateSubscriptionRequest {
+  emailEnabled?: boolean
+  whatsAppEnabled?: boolean
+  pushEnabled?: boolean
+  preferredCities?: string[]
+  followedSaints?: string[]
+  notificationTypes?: NotificationType[]
 }
 
 // Search Types
+export interface SearchSuggestions {
+  saints: Saint[]
+  locations: Location[]
+  cities: string[]
+}
+
+export interface AdvancedSearchParams {
+  search?: string
+  city?: string
+  state?: string
+  lineage?: string
+  dateFrom?: string // yyyy-MM-dd
+  dateTo?: string // yyyy-MM-dd
+  currentOnly?: boolean
+  page?: number
+  limit?: number
+}
+
+export interface SearchFacets {
+  cities: string[]
+  states: string[]
+  lineages: string[]
+}
+
+export interface AdvancedSearchResult {
+  saints: Saint[]
+  schedules: Schedule[] // stays that matched the place and date filters, for the saints on this page
+  locations: Location[]
+  facets: SearchFacets
+}
+
 export interface SearchParams {
   search?: string
   city?: string
@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string
+  readonly VITE_MAP_PROVIDER?: 'mapbox' | 'osm' | 'self-hosted' | 'stub'
+  readonly VITE_MAPBOX_API_KEY?: string
+  readonly VITE_MAPBOX_STYLE_ID?: string
+  readonly VITE_MAP_TILE_URL?: string
+  readonly VITE_MAP_GEOCODER_URL?: string
+  readonly VITE_MAP_ATTRIBUTION?: string
+  readonly VITE_AUTH_STORAGE?: 'local' | 'cookie'
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
\ No newline at end of file